@@ -1,29 +1,204 @@
-import React, { useState, useRef } from 'react';
-import { ShieldCheck, Layers, BookOpen, Menu, X, RotateCcw, Upload, FileText, Trash2, FileCheck, Library, Plus, Cloud, Cpu } from 'lucide-react';
+import React, { useState, useRef, useEffect } from 'react';
+import { ShieldCheck, Layers, BookOpen, Menu, X, RotateCcw, Upload, FileText, Trash2, FileCheck, Library, Plus, Cloud, Cpu, ClipboardCheck, HardDrive, Tag, AlertTriangle, ClipboardPaste } from 'lucide-react';
 import ClaimsProcessor from './components/ClaimsProcessor';
 import ChatBot from './components/ChatBot';
+import PolicyRulesEditor from './components/PolicyRulesEditor';
+import PolicyTextEditor from './components/PolicyTextEditor';
+import PolicyVersionHistory from './components/PolicyVersionHistory';
+import PolicySummaryCards from './components/PolicySummaryCards';
+import DocumentVersionEditor from './components/DocumentVersionEditor';
+import ReviewQueue from './components/ReviewQueue';
+import KnowledgeBundleControls from './components/KnowledgeBundleControls';
+import ProviderSettingsPanel from './components/ProviderSettingsPanel';
+import ModelSettingsPanel from './components/ModelSettingsPanel';
 import { SAMPLE_DOCUMENTS } from './constants';
-import { PolicyDocument } from './types';
+import { ClaimRecord, PolicyDocument, PolicyRuleSet, PolicySummary, ReviewThresholds } from './types';
+import { compileRulesFromText } from './services/ruleEngineService';
+import { getProduct, guessVersionInfo } from './services/policyVersionService';
+import { summarizeLocally } from './services/policySummaryService';
+import { compilePolicyRules, summarizePolicyDocument } from './services/geminiService';
+import { KNOWLEDGE_BASE_ACCEPT, convertFileToText, extractPdfText, getDocumentText, getTextDocumentFormat } from './services/documentTextService';
+import { formatBytes, getDocumentSize, getStorageEstimate, hasStorageRoom, loadKnowledgeBase, loadPolicyRules, requestPersistentStorage, syncKnowledgeBase, syncPolicyRules, withStorageInfo } from './services/knowledgeBaseStore';
+import { DocumentTokens, estimateClaimBudget, formatTokens } from './services/tokenBudgetService';
+import { getProvider, loadProviderSettings } from './services/llmProvider';
+import { loadClaimRecords, loadReviewThresholds, saveClaimRecords, saveReviewThresholds } from './services/reviewService';
+
+// Text documents in the sample layout are summarized without a model call
+const withLocalSummary = (doc: PolicyDocument): PolicyDocument => {
+  if (doc.summaries || doc.type !== 'text') return doc;
+  const summaries = summarizeLocally(doc);
+  return summaries.length > 0 ? { ...doc, summaries, summary_status: 'ready' } : doc;
+};
+
+// Documents sent whole are what push a request over budget, so only they are coloured
+const TokenBadge: React.FC<{ estimate?: DocumentTokens }> = ({ estimate }) => {
+  if (!estimate) return null;
+  const style = !estimate.sent_whole ? 'bg-slate-100 text-slate-500'
+    : estimate.tokens > 50_000 ? 'bg-red-50 text-red-700'
+    : estimate.tokens > 10_000 ? 'bg-amber-50 text-amber-700'
+    : 'bg-slate-100 text-slate-500';
+  return (
+    <span
+      className={`inline-block mt-0.5 text-[10px] px-1.5 py-0.5 rounded ${style}`}
+      title={estimate.sent_whole ? 'Sent whole with every request' : 'Only the relevant sections are sent'}
+    >
+      ~{formatTokens(estimate.tokens)} tokens{estimate.sent_whole ? '' : ' · retrieved'}
+    </span>
+  );
+};
 
 const App: React.FC = () => {
-  const [showPolicies, setShowPolicies] = useState(false);
+  const [view, setView] = useState<'dashboard' | 'kb' | 'review'>('dashboard');
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const [appMode, setAppMode] = useState<'cloud' | 'local'>('cloud');
+  // Held here so the token budget re-renders with the new provider's limits
+  const [, setProviderSettings] = useState(loadProviderSettings);
   
-  // State for Knowledge Base (Array of Documents)
-  const [documents, setDocuments] = useState<PolicyDocument[]>(SAMPLE_DOCUMENTS);
+  // State for Knowledge Base (Array of Documents), saved in IndexedDB
+  const [documents, setDocuments] = useState<PolicyDocument[]>([]);
+  const [kbLoaded, setKbLoaded] = useState(false);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [storageEstimate, setStorageEstimate] = useState<{ usage: number; quota: number } | null>(null);
+  // What IndexedDB currently holds, so only changed documents are written
+  const savedDocuments = useRef<PolicyDocument[]>([]);
+  // Explicit rules the deterministic engine checks claims against, saved beside the documents
+  const [rules, setRules] = useState<PolicyRuleSet[]>([]);
+  const savedRules = useRef<PolicyRuleSet[]>([]);
+  const [compilingId, setCompilingId] = useState<string | null>(null);
+  const [tagDrafts, setTagDrafts] = useState<Record<string, string>>({});
+  const [showTextEditor, setShowTextEditor] = useState(false);
+  const [editingVersionId, setEditingVersionId] = useState<string | null>(null);
+
+  useEffect(() => {
+    requestPersistentStorage();
+    loadKnowledgeBase(SAMPLE_DOCUMENTS)
+      .then(async docs => {
+        const stored = await loadPolicyRules();
+        savedDocuments.current = docs;
+        savedRules.current = [...(stored.get('') || []), ...docs.flatMap(doc => stored.get(doc.id) || [])];
+        setDocuments(docs.map(withLocalSummary));
+        // Documents saved before rules were stored get their text rules compiled once
+        setRules([...(stored.get('') || []), ...docs.flatMap(doc => stored.get(doc.id) ?? compileRulesFromText(doc))]);
+      })
+      .catch(err => {
+        setStorageError(err.message);
+        setDocuments(SAMPLE_DOCUMENTS.map(withStorageInfo).map(withLocalSummary));
+        setRules(SAMPLE_DOCUMENTS.flatMap(compileRulesFromText));
+      })
+      .finally(() => setKbLoaded(true));
+  }, []);
+
+  useEffect(() => {
+    if (!kbLoaded) return;
+    // The ref only moves on once the write succeeded, so a failed write is retried with the next change
+    syncKnowledgeBase(savedDocuments.current, documents)
+      .then(() => {
+        savedDocuments.current = documents;
+        return getStorageEstimate().then(setStorageEstimate);
+      })
+      .catch(err => setStorageError(err.message));
+  }, [documents, kbLoaded]);
+
+  useEffect(() => {
+    if (!kbLoaded) return;
+    syncPolicyRules(savedRules.current, rules)
+      .then(() => { savedRules.current = rules; })
+      .catch(err => setStorageError(err.message));
+  }, [rules, kbLoaded]);
+
+  // Adjudication workflow: every verified claim gets a record, routed by these thresholds
+  const [claimRecords, setClaimRecords] = useState<ClaimRecord[]>(loadClaimRecords);
+  const [reviewThresholds, setReviewThresholds] = useState<ReviewThresholds>(loadReviewThresholds);
+  const pendingReviews = claimRecords.filter(r => r.status === 'pending_review').length;
+
+  useEffect(() => { saveClaimRecords(claimRecords); }, [claimRecords]);
+  useEffect(() => { saveReviewThresholds(reviewThresholds); }, [reviewThresholds]);
+
+  const updateClaimRecord = (record: ClaimRecord) => {
+    setClaimRecords(prev => {
+      const exists = prev.some(r => r.id === record.id);
+      return exists ? prev.map(r => (r.id === record.id ? record : r)) : [...prev, record];
+    });
+  };
 
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isDragging, setIsDragging] = useState(false);
 
   const resetKnowledgeBase = () => {
     if (window.confirm("This will clear all custom documents and reset to the sample. Continue?")) {
-      setDocuments(SAMPLE_DOCUMENTS);
+      setDocuments(SAMPLE_DOCUMENTS.map(withStorageInfo).map(withLocalSummary));
+      setRules(SAMPLE_DOCUMENTS.flatMap(compileRulesFromText));
+      setStorageError(null);
     }
   };
 
+  const addTag = (id: string) => {
+    const tag = (tagDrafts[id] || '').trim();
+    if (!tag) return;
+    setDocuments(prev => prev.map(d => (d.id === id && !d.tags?.includes(tag) ? { ...d, tags: [...(d.tags || []), tag] } : d)));
+    setTagDrafts(prev => ({ ...prev, [id]: '' }));
+  };
+
+  const updateDocument = (id: string, patch: Partial<PolicyDocument>) => {
+    setDocuments(prev => prev.map(d => (d.id === id ? { ...d, ...patch } : d)));
+  };
+
+  const summarizeDocument = async (doc: PolicyDocument) => {
+    const local = summarizeLocally(doc);
+    if (local.length > 0) {
+      updateDocument(doc.id, { summaries: local, summary_status: 'ready' });
+      return;
+    }
+    updateDocument(doc.id, { summary_status: 'pending' });
+    try {
+      const summaries = await summarizePolicyDocument(doc);
+      updateDocument(doc.id, summaries.length > 0 ? { summaries, summary_status: 'ready' } : { summary_status: 'failed' });
+    } catch (err) {
+      console.error(err);
+      updateDocument(doc.id, { summary_status: 'failed' });
+    }
+  };
+
+  const updateSummaries = (id: string, summaries: PolicySummary[]) => {
+    updateDocument(id, { summaries, summary_status: 'ready' });
+  };
+
+  const removeTag = (id: string, tag: string) => {
+    setDocuments(prev => prev.map(d => (d.id === id ? { ...d, tags: (d.tags || []).filter(t => t !== tag) } : d)));
+  };
+
   const removeDocument = (id: string) => {
     setDocuments(prev => prev.filter(d => d.id !== id));
+    setRules(prev => prev.filter(r => r.document_id !== id));
+  };
+
+  const compileDocumentRules = async (doc: PolicyDocument) => {
+    // Text documents in the known layout compile locally; everything else needs the model
+    const local = compileRulesFromText(doc);
+    if (local.length > 0) {
+      setRules(prev => [...prev, ...local]);
+      return;
+    }
+    // Local mode sends nothing to the cloud; try the text extracted from the file instead
+    if (appMode === 'local') {
+      const text = getDocumentText(doc);
+      const fromText = text ? compileRulesFromText({ ...doc, type: 'text', content: text }) : [];
+      if (fromText.length === 0) {
+        alert(`No policy rules could be read from "${doc.name}" locally. Switch to Cloud API to compile it with the model, or add the rules by hand.`);
+      }
+      setRules(prev => [...prev, ...fromText]);
+      return;
+    }
+    setCompilingId(doc.id);
+    try {
+      const compiled = await compilePolicyRules(doc);
+      if (compiled.length === 0) alert(`No policy rules could be found in "${doc.name}".`);
+      setRules(prev => [...prev, ...compiled]);
+    } catch (err: any) {
+      alert(err.message || "Failed to compile policy rules.");
+    } finally {
+      setCompilingId(null);
+    }
   };
 
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -35,9 +210,19 @@ const App: React.FC = () => {
     if (event.target.value) event.target.value = '';
   };
 
-  const processFile = (file: File) => {
-    if (file.type !== 'application/pdf') {
-      alert(`Skipped "${file.name}": Only PDF documents are supported.`);
+  // Text documents compile locally straight away, like the built-in sample
+  const addTextDocument = (name: string, content: string, mimeType = 'text/plain') => {
+    const base = { id: Date.now().toString() + Math.random().toString(), name, type: 'text' as const, content, mimeType };
+    const newDoc = withLocalSummary({ ...base, ...guessVersionInfo(name), added_at: new Date().toISOString(), size: getDocumentSize(base), tags: [] });
+    setDocuments(prev => [...prev, newDoc]);
+    setRules(prev => [...prev, ...compileRulesFromText(newDoc)]);
+    if (!newDoc.summaries && appMode === 'cloud') summarizeDocument(newDoc);
+  };
+
+  const processFile = async (file: File) => {
+    const textFormat = getTextDocumentFormat(file);
+    if (file.type !== 'application/pdf' && !textFormat) {
+      alert(`Skipped "${file.name}": Supported formats are PDF, TXT, MD, HTML and DOCX.`);
       return;
     }
 
@@ -47,6 +232,26 @@ const App: React.FC = () => {
       return;
     }
 
+    if (!(await hasStorageRoom(file.size))) {
+      alert(`Skipped "${file.name}": Not enough browser storage left. Remove some documents first.`);
+      return;
+    }
+
+    if (textFormat) {
+      try {
+        const text = await convertFileToText(file);
+        if (!text) {
+          alert(`Skipped "${file.name}": No text found in the document.`);
+          return;
+        }
+        addTextDocument(file.name, text, file.type || 'text/plain');
+      } catch (err: any) {
+        console.error(err);
+        alert(`Skipped "${file.name}": ${err.message || 'Could not read the document.'}`);
+      }
+      return;
+    }
+
     const reader = new FileReader();
     reader.onload = (e) => {
       const base64Content = (e.target?.result as string).split(',')[1];
@@ -55,9 +260,20 @@ const App: React.FC = () => {
         name: file.name,
         type: 'file',
         content: base64Content,
-        mimeType: file.type
+        mimeType: file.type,
+        ...guessVersionInfo(file.name),
+        added_at: new Date().toISOString(),
+        size: file.size,
+        tags: []
       };
       setDocuments(prev => [...prev, newDoc]);
+      // Local Models mode stays offline; the summary can be requested from the card later
+      if (appMode === 'cloud') summarizeDocument(newDoc);
+
+      // Text is needed to check the clauses the AI cites; the document is usable without it
+      extractPdfText(base64Content)
+        .then(pages => setDocuments(prev => prev.map(d => (d.id === newDoc.id ? { ...d, pages } : d))))
+        .catch(err => console.warn(`Could not extract text from "${file.name}":`, err));
     };
     reader.readAsDataURL(file);
   };
@@ -81,6 +297,10 @@ const App: React.FC = () => {
     }
   };
 
+  // What the Knowledge Base alone costs a claim, before any evidence is attached
+  const knowledgeBudget = estimateClaimBudget(documents, '', [], false, getProvider().limits);
+  const documentTokens = new Map(knowledgeBudget.documents.map(d => [d.id, d]));
+
   return (
     <div className="min-h-screen bg-slate-50 flex flex-col">
       {/* Navbar */}
@@ -116,23 +336,32 @@ const App: React.FC = () => {
                     Local Models
                   </button>
                </div>
+               {appMode === 'cloud' && <ProviderSettingsPanel onSave={setProviderSettings} />}
+               {appMode === 'cloud' && <ModelSettingsPanel />}
 
                <div className="w-px h-6 bg-slate-200 mx-2"></div>
 
                <button 
-                onClick={() => setShowPolicies(false)}
-                className={`flex items-center gap-2 text-sm font-medium transition-colors ${!showPolicies ? 'text-blue-600' : 'text-slate-500 hover:text-slate-800'}`}
+                onClick={() => setView('dashboard')}
+                className={`flex items-center gap-2 text-sm font-medium transition-colors ${view === 'dashboard' ? 'text-blue-600' : 'text-slate-500 hover:text-slate-800'}`}
                >
                  <Layers className="w-4 h-4" />
                  Dashboard
                </button>
                <button 
-                onClick={() => setShowPolicies(true)}
-                className={`flex items-center gap-2 text-sm font-medium transition-colors ${showPolicies ? 'text-blue-600' : 'text-slate-500 hover:text-slate-800'}`}
+                onClick={() => setView('kb')}
+                className={`flex items-center gap-2 text-sm font-medium transition-colors ${view === 'kb' ? 'text-blue-600' : 'text-slate-500 hover:text-slate-800'}`}
                >
                  <Library className="w-4 h-4" />
                  KB ({documents.length})
                </button>
+               <button 
+                onClick={() => setView('review')}
+                className={`flex items-center gap-2 text-sm font-medium transition-colors ${view === 'review' ? 'text-blue-600' : 'text-slate-500 hover:text-slate-800'}`}
+               >
+                 <ClipboardCheck className="w-4 h-4" />
+                 Review ({pendingReviews})
+               </button>
             </div>
 
              {/* Mobile Menu Button */}
@@ -165,24 +394,30 @@ const App: React.FC = () => {
                   </button>
             </div>
             <button 
-                onClick={() => { setShowPolicies(false); setMobileMenuOpen(false); }}
-                className={`block w-full text-left px-4 py-3 rounded-lg ${!showPolicies ? 'bg-blue-50 text-blue-700' : 'text-slate-600'}`}
+                onClick={() => { setView('dashboard'); setMobileMenuOpen(false); }}
+                className={`block w-full text-left px-4 py-3 rounded-lg ${view === 'dashboard' ? 'bg-blue-50 text-blue-700' : 'text-slate-600'}`}
                >
                  Processing Dashboard
              </button>
              <button 
-                onClick={() => { setShowPolicies(true); setMobileMenuOpen(false); }}
-                className={`block w-full text-left px-4 py-3 rounded-lg ${showPolicies ? 'bg-blue-50 text-blue-700' : 'text-slate-600'}`}
+                onClick={() => { setView('kb'); setMobileMenuOpen(false); }}
+                className={`block w-full text-left px-4 py-3 rounded-lg ${view === 'kb' ? 'bg-blue-50 text-blue-700' : 'text-slate-600'}`}
                >
                  Knowledge Base
              </button>
+             <button 
+                onClick={() => { setView('review'); setMobileMenuOpen(false); }}
+                className={`block w-full text-left px-4 py-3 rounded-lg ${view === 'review' ? 'bg-blue-50 text-blue-700' : 'text-slate-600'}`}
+               >
+                 Review Queue ({pendingReviews} pending)
+             </button>
           </div>
         )}
       </nav>
 
       {/* Main Content */}
       <main className="flex-1 max-w-7xl mx-auto w-full py-8">
-        {showPolicies ? (
+        {view === 'kb' ? (
           <div className="max-w-5xl mx-auto p-6">
             <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden flex flex-col min-h-[75vh]">
               {/* Header */}
@@ -193,8 +428,19 @@ const App: React.FC = () => {
                     Knowledge Base Manager
                   </h2>
                   <p className="text-slate-500 text-sm mt-1">
-                    Upload multiple policies (20-30 documents). The AI will effectively "learn" all of them instantly.
+                    Upload your policy documents. Large knowledge bases are searched for the sections each claim needs.
                   </p>
+                  {documents.length > 0 && (
+                    <p className="text-xs text-slate-400 mt-1">
+                      About {formatTokens(knowledgeBudget.knowledge_tokens)} tokens of policy context per request
+                    </p>
+                  )}
+                  {storageEstimate && (
+                    <p className="text-xs text-slate-400 mt-1 flex items-center gap-1">
+                      <HardDrive className="w-3 h-3" />
+                      Saved in this browser: {formatBytes(storageEstimate.usage)} of {formatBytes(storageEstimate.quota)} used
+                    </p>
+                  )}
                 </div>
                 <div className="flex gap-2">
                    <button 
@@ -203,6 +449,17 @@ const App: React.FC = () => {
                   >
                     <Plus className="w-4 h-4" /> Add Document
                   </button>
+                  <button 
+                    onClick={() => setShowTextEditor(!showTextEditor)}
+                    className="px-3 py-2 text-sm font-medium text-slate-600 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 flex items-center gap-2"
+                  >
+                    <ClipboardPaste className="w-4 h-4" /> Paste Text
+                  </button>
+                  <KnowledgeBundleControls
+                    documents={documents}
+                    rules={rules}
+                    onImport={(imported, importedRules) => { setDocuments(imported.map(withLocalSummary)); setRules(importedRules); }}
+                  />
                   <button 
                     onClick={resetKnowledgeBase}
                     className="px-3 py-2 text-sm font-medium text-slate-600 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 flex items-center gap-2"
@@ -214,9 +471,36 @@ const App: React.FC = () => {
 
               {/* Document List & Drop Zone */}
               <div className="flex-1 p-6 bg-slate-50/50 flex flex-col">
+                {storageError && (
+                  <div className="mb-4 p-3 rounded-xl bg-red-50 border border-red-200 text-red-700 text-sm flex items-center gap-2">
+                    <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                    {storageError}
+                  </div>
+                )}
                 
+                {appMode === 'cloud' && knowledgeBudget.status !== 'ok' && (
+                  <div className="mb-4 p-3 rounded-xl bg-amber-50 border border-amber-200 text-amber-800 text-sm flex items-start gap-2">
+                    <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                    <span>
+                      {knowledgeBudget.status === 'over_context'
+                        ? `The documents sent whole come to about ${formatTokens(knowledgeBudget.largest_request_tokens)} tokens, more than the model can read in one request.`
+                        : `Each claim needs about ${formatTokens(knowledgeBudget.claim_tokens)} tokens of policy context, ${knowledgeBudget.status === 'over_quota' ? 'over' : 'close to'} the free-tier quota of ${formatTokens(knowledgeBudget.limits.tokens_per_minute || 0)} tokens per minute.`}
+                      {' '}Remove or summarize the largest scanned documents, or trim the Knowledge Base when running a claim.
+                    </span>
+                  </div>
+                )}
+
                 {/* Documents Grid */}
-                {documents.length > 0 ? (
+                {showTextEditor && (
+                  <PolicyTextEditor
+                    onAdd={(name, content) => { addTextDocument(name, content); setShowTextEditor(false); }}
+                    onClose={() => setShowTextEditor(false)}
+                  />
+                )}
+
+                {!kbLoaded ? (
+                  <div className="flex-1 flex items-center justify-center text-slate-400 py-12 text-sm">Loading saved documents...</div>
+                ) : documents.length > 0 ? (
                   <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 mb-8">
                     {documents.map(doc => (
                       <div key={doc.id} className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm flex items-start justify-between group hover:border-blue-300 transition-colors">
@@ -226,7 +510,50 @@ const App: React.FC = () => {
                            </div>
                            <div className="min-w-0">
                              <h4 className="font-medium text-sm text-slate-900 truncate" title={doc.name}>{doc.name}</h4>
-                             <p className="text-xs text-slate-500">{doc.type === 'file' ? 'PDF Document' : 'Text Sample'}</p>
+                             <p className="text-xs text-slate-500">
+                               {doc.type === 'file' ? 'PDF Document' : 'Text Document'}
+                               {doc.size !== undefined && ` · ${formatBytes(doc.size)}`}
+                               {doc.added_at && ` · added ${new Date(doc.added_at).toLocaleDateString()}`}
+                             </p>
+                             <TokenBadge estimate={documentTokens.get(doc.id)} />
+                             {doc.type === 'file' && (
+                               <p className="text-[10px] text-slate-400">
+                                 {doc.pages
+                                   ? doc.pages.some(p => p.trim()) ? `Text extracted (${doc.pages.length} pages)` : 'No text layer: citations cannot be checked'
+                                   : 'Text not extracted: citations cannot be checked'}
+                               </p>
+                             )}
+                             <div className="flex flex-wrap items-center gap-1 mt-2">
+                               {(doc.tags || []).map(tag => (
+                                 <span key={tag} className="text-[10px] px-1.5 py-0.5 rounded bg-indigo-50 text-indigo-700 flex items-center gap-0.5">
+                                   {tag}
+                                   <button onClick={() => removeTag(doc.id, tag)} className="hover:text-red-500" title="Remove tag">
+                                     <X className="w-2.5 h-2.5" />
+                                   </button>
+                                 </span>
+                               ))}
+                               <span className="flex items-center gap-0.5 text-slate-400">
+                                 <Tag className="w-3 h-3" />
+                                 <input
+                                   value={tagDrafts[doc.id] || ''}
+                                   onChange={e => setTagDrafts(prev => ({ ...prev, [doc.id]: e.target.value }))}
+                                   onKeyDown={e => { if (e.key === 'Enter') addTag(doc.id); }}
+                                   placeholder="Add tag"
+                                   className="w-16 text-[10px] bg-transparent outline-none placeholder:text-slate-300"
+                                 />
+                               </span>
+                             </div>
+                             <button
+                               onClick={() => setEditingVersionId(editingVersionId === doc.id ? null : doc.id)}
+                               className="mt-1 text-[10px] text-slate-400 hover:text-blue-600 text-left"
+                               title="Edit product, version and effective dates"
+                             >
+                               {getProduct(doc)}{doc.version ? ` · ${doc.version}` : ''}
+                               {(doc.effective_from || doc.effective_to) && ` · ${doc.effective_from || '…'} → ${doc.effective_to || '…'}`}
+                             </button>
+                             {editingVersionId === doc.id && (
+                               <DocumentVersionEditor doc={doc} onChange={patch => updateDocument(doc.id, patch)} />
+                             )}
                            </div>
                         </div>
                         <button 
@@ -246,6 +573,18 @@ const App: React.FC = () => {
                    </div>
                 )}
 
+                <PolicySummaryCards documents={documents} onSummarize={summarizeDocument} onChange={updateSummaries} />
+
+                <PolicyVersionHistory documents={documents} />
+
+                <PolicyRulesEditor
+                  rules={rules}
+                  documents={documents}
+                  compilingId={compilingId}
+                  onChange={setRules}
+                  onCompile={compileDocumentRules}
+                />
+
                 {/* Drop Zone */}
                 <div 
                   className={`mt-auto border-2 border-dashed rounded-2xl p-8 text-center transition-all duration-300 cursor-pointer ${isDragging ? 'border-blue-500 bg-blue-50' : 'border-slate-300 hover:border-blue-400 hover:bg-white bg-slate-100/50'}`}
@@ -259,13 +598,13 @@ const App: React.FC = () => {
                   </div>
                   <h3 className="font-semibold text-slate-800">Upload More Documents</h3>
                   <p className="text-slate-500 text-sm max-w-xs mx-auto mt-1">
-                    Drag and drop PDF files here to expand the AI's knowledge base.
+                    Drag and drop PDF, DOCX, HTML, Markdown or text files here to expand the AI's knowledge base.
                   </p>
                   <input 
                     type="file" 
                     ref={fileInputRef} 
                     className="hidden" 
-                    accept="application/pdf"
+                    accept={KNOWLEDGE_BASE_ACCEPT}
                     multiple // Allow multiple files
                     onChange={handleFileUpload}
                   />
@@ -273,8 +612,21 @@ const App: React.FC = () => {
               </div>
             </div>
           </div>
+        ) : view === 'review' ? (
+          <ReviewQueue
+            records={claimRecords}
+            thresholds={reviewThresholds}
+            onUpdateRecord={updateClaimRecord}
+            onThresholdsChange={setReviewThresholds}
+          />
         ) : (
-          <ClaimsProcessor documents={documents} mode={appMode} />
+          <ClaimsProcessor
+            documents={documents}
+            rules={rules}
+            mode={appMode}
+            reviewThresholds={reviewThresholds}
+            onClaimRouted={updateClaimRecord}
+          />
         )}
       </main>
 
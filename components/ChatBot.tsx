@@ -1,13 +1,34 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { MessageSquare, X, Send, User, Bot, Sparkles, Loader2 } from 'lucide-react';
-import { createChatSession } from '../services/geminiService';
+import { createChatSession, sendChatMessage } from '../services/geminiService';
 import { ChatMessage, PolicyDocument } from '../types';
-import { GenerateContentResponse, Chat } from "@google/genai";
+import { LlmChat, loadProviderSettings } from '../services/llmProvider';
+import { loadModelSettings } from '../services/modelSettingsService';
+import { describeLlmError } from '../services/llmErrors';
+import { hashContent } from '../services/hashService';
+import KnowledgeSourcesPanel from './KnowledgeSourcesPanel';
 
 interface ChatBotProps {
   documents: PolicyDocument[];
 }
 
+// A session belongs to the provider and chat profile it was created with; saving other
+// settings must not leave questions going to the previous provider (e.g. Google)
+const getSettingsKey = () => JSON.stringify([loadProviderSettings(), loadModelSettings().chat]);
+
+const contentHashes = new WeakMap<PolicyDocument, Promise<string>>();
+
+// Identifies what the chat was preloaded with. Replaced documents, arriving PDF pages or a
+// version edit change it; a finished summary (a new document object, same content) does not
+const getDocumentSetKey = async (documents: PolicyDocument[]): Promise<string> => {
+  const keys = await Promise.all(documents.map(async d => {
+    if (!contentHashes.has(d)) contentHashes.set(d, hashContent(d.content));
+    const hash = await contentHashes.get(d)!;
+    return [d.id, d.name, hash, d.pages?.length ?? 0, d.version, d.effective_from, d.effective_to].join('|');
+  }));
+  return keys.join('\n');
+};
+
 const ChatBot: React.FC<ChatBotProps> = ({ documents }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [messages, setMessages] = useState<ChatMessage[]>([
@@ -20,14 +41,30 @@ const ChatBot: React.FC<ChatBotProps> = ({ documents }) => {
   ]);
   const [inputText, setInputText] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const chatSessionRef = useRef<Chat | null>(null);
+  const [documentsKey, setDocumentsKey] = useState<string | null>(null);
+  const chatSessionRef = useRef<Promise<LlmChat> | null>(null);
+  const sessionSettingsRef = useRef<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   
+  const hasCurrentSession = () => !!chatSessionRef.current && sessionSettingsRef.current === getSettingsKey();
+
+  const startSession = () => {
+    sessionSettingsRef.current = getSettingsKey();
+    chatSessionRef.current = createChatSession(documents);
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    getDocumentSetKey(documents).then(key => { if (!cancelled) setDocumentsKey(key); });
+    return () => { cancelled = true; };
+  }, [documents]);
+
   // Re-initialize chat if Knowledge Base changes
   useEffect(() => {
+    if (documentsKey === null) return;
     chatSessionRef.current = null;
     if (isOpen) {
-       chatSessionRef.current = createChatSession(documents);
+       startSession();
     }
     
     // Notify user in chat if docs change
@@ -42,12 +79,10 @@ const ChatBot: React.FC<ChatBotProps> = ({ documents }) => {
          }
        ]);
     }
-  }, [documents.length]);
+  }, [documentsKey]);
 
   useEffect(() => {
-    if (isOpen && !chatSessionRef.current) {
-      chatSessionRef.current = createChatSession(documents);
-    }
+    if (isOpen && !hasCurrentSession()) startSession();
   }, [isOpen]); 
 
   useEffect(() => {
@@ -55,7 +90,7 @@ const ChatBot: React.FC<ChatBotProps> = ({ documents }) => {
   }, [messages]);
 
   const handleSend = async () => {
-    if (!inputText.trim() || !chatSessionRef.current) return;
+    if (!inputText.trim()) return;
 
     const userMsg: ChatMessage = {
       id: Date.now().toString(),
@@ -69,20 +104,24 @@ const ChatBot: React.FC<ChatBotProps> = ({ documents }) => {
     setIsLoading(true);
 
     try {
-      const result = await chatSessionRef.current.sendMessage({ message: userMsg.text });
+      if (!hasCurrentSession()) startSession();
+      const result = await sendChatMessage(await chatSessionRef.current!, documents, userMsg.text);
       const modelMsg: ChatMessage = {
         id: (Date.now() + 1).toString(),
         role: 'model',
         text: result.text || "I'm sorry, I couldn't generate a response.",
-        timestamp: new Date()
+        timestamp: new Date(),
+        context: result.context
       };
       setMessages(prev => [...prev, modelMsg]);
     } catch (error) {
       console.error(error);
+      // The next message starts a fresh session, in case this one failed to start or its context cache expired
+      chatSessionRef.current = null;
       setMessages(prev => [...prev, {
         id: (Date.now() + 1).toString(),
         role: 'model',
-        text: "Sorry, I encountered an error. Please try again.",
+        text: describeLlmError(error, "Sorry, I encountered an error. Please try again."),
         timestamp: new Date()
       }]);
     } finally {
@@ -141,6 +180,7 @@ const ChatBot: React.FC<ChatBotProps> = ({ documents }) => {
                 }`}
               >
                 {msg.text}
+                {msg.context && <KnowledgeSourcesPanel context={msg.context} compact />}
               </div>
             </div>
           ))}
@@ -0,0 +1,87 @@
+import React from 'react';
+import { ListChecks, CheckCircle2, XCircle, HelpCircle, AlertTriangle, FileText } from 'lucide-react';
+import { ClaimChecklist, ChecklistStatus } from '../types';
+
+interface ChecklistPanelProps {
+  checklist: ClaimChecklist | null;
+  isChecking: boolean;
+  isBlocked: boolean; // verification is waiting on the reviewer
+  onVerifyAnyway: () => void;
+}
+
+const STATUS_STYLES: Record<ChecklistStatus, { icon: React.ReactNode; className: string; label: string }> = {
+  present: { icon: <CheckCircle2 className="w-4 h-4 text-green-600" />, className: 'text-slate-700', label: 'Present' },
+  missing: { icon: <XCircle className="w-4 h-4 text-red-500" />, className: 'text-red-700', label: 'Missing' },
+  ambiguous: { icon: <HelpCircle className="w-4 h-4 text-amber-500" />, className: 'text-amber-700', label: 'Ambiguous' }
+};
+
+const ChecklistPanel: React.FC<ChecklistPanelProps> = ({ checklist, isChecking, isBlocked, onVerifyAnyway }) => {
+  const missingCount = checklist ? checklist.items.filter(i => i.required && i.status === 'missing').length : 0;
+  const ambiguousCount = checklist ? checklist.items.filter(i => i.status === 'ambiguous').length : 0;
+
+  return (
+    <div className={`bg-white rounded-2xl shadow-sm border ${isChecking ? 'border-blue-400 ring-2 ring-blue-100' : isBlocked ? 'border-amber-300' : 'border-slate-200'} overflow-hidden`}>
+      <div className="p-4 border-b border-slate-100 bg-slate-50 flex justify-between items-center">
+        <h3 className="font-semibold text-slate-800 flex items-center gap-2">
+          <ListChecks className="w-4 h-4 text-blue-600" />
+          Evidence Checklist
+        </h3>
+        {isChecking && <span className="text-xs bg-blue-100 text-blue-700 px-2 py-1 rounded-full animate-pulse">Checking Requirements...</span>}
+        {checklist && !isChecking && (
+          <span className={`text-xs px-2 py-1 rounded-full ${checklist.is_complete ? 'bg-green-100 text-green-700' : 'bg-amber-100 text-amber-700'}`}>
+            {checklist.is_complete ? 'Complete' : `${missingCount} missing`}{ambiguousCount > 0 && ` · ${ambiguousCount} unclear`}
+          </span>
+        )}
+      </div>
+
+      {checklist ? (
+        <div className="p-4">
+          <p className="text-xs text-slate-500 mb-3">
+            {checklist.source === 'policy'
+              ? <>Requirements from <strong>{checklist.policy_name || 'the matched policy'}</strong> in the Knowledge Base.</>
+              : 'The Knowledge Base does not list requirements for this claim; standard requirements for this claim type are used.'}
+          </p>
+          <ul className="space-y-1.5">
+            {checklist.items.map(item => (
+              <li key={item.id} className="flex items-start gap-2 text-sm">
+                <span className="mt-0.5 flex-shrink-0">{STATUS_STYLES[item.status].icon}</span>
+                <div className="min-w-0">
+                  <span className={`font-medium ${STATUS_STYLES[item.status].className}`}>
+                    {item.kind === 'document' && <FileText className="w-3 h-3 inline mr-1 text-slate-400" />}
+                    {item.label}
+                  </span>
+                  {!item.required && <span className="ml-1 text-xs text-slate-400">(if applicable)</span>}
+                  {item.note && <span className="block text-xs text-slate-500 break-words">{item.note}</span>}
+                  {item.policy_reference && <span className="block text-xs text-slate-400 italic">{item.policy_reference}</span>}
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          {isBlocked && (
+            <div className="mt-4 p-3 bg-amber-50 border border-amber-200 rounded-xl text-sm text-amber-800">
+              <div className="flex items-start gap-2">
+                <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                <p>Verification is on hold because required evidence is missing. Add the missing information and process again, or verify now and the result will be flagged as based on incomplete evidence.</p>
+              </div>
+              <div className="flex justify-end mt-3">
+                <button
+                  onClick={onVerifyAnyway}
+                  className="px-3 py-1.5 text-xs font-medium bg-white border border-amber-300 text-amber-800 rounded-lg hover:bg-amber-100 transition-colors"
+                >
+                  Verify Anyway
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="p-6 text-center text-slate-400 text-sm">
+          Checklist pending extraction...
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChecklistPanel;
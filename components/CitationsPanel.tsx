@@ -0,0 +1,75 @@
+import React from 'react';
+import { Quote, ShieldCheck, ShieldAlert, ShieldQuestion, AlertTriangle } from 'lucide-react';
+import { CitationStatus, VerificationResult } from '../types';
+
+interface CitationsPanelProps {
+  verification: VerificationResult;
+}
+
+const STATUS_STYLES: Record<CitationStatus, { icon: React.ReactNode; label: string; className: string }> = {
+  verified: { icon: <ShieldCheck className="w-3.5 h-3.5 text-green-600" />, label: 'Found in KB', className: 'text-green-700' },
+  partial: { icon: <ShieldQuestion className="w-3.5 h-3.5 text-amber-500" />, label: 'Close match', className: 'text-amber-700' },
+  unverified: { icon: <ShieldAlert className="w-3.5 h-3.5 text-red-500" />, label: 'Not found', className: 'text-red-700' },
+  unchecked: { icon: <ShieldQuestion className="w-3.5 h-3.5 text-slate-400" />, label: 'No text to check', className: 'text-slate-500' }
+};
+
+const CitationsPanel: React.FC<CitationsPanelProps> = ({ verification }) => {
+  const citations = verification.citations;
+  if (!citations) return null;
+
+  const unverified = citations.filter(c => c.status === 'unverified');
+  // A denial resting on an exclusion nobody can find is the case that must not go out
+  const unsupportedDenial = !verification.is_eligible && (
+    citations.length === 0 || unverified.some(c => c.purpose === 'exclusion' || !c.purpose)
+  );
+
+  return (
+    <div className="mb-4 p-3 rounded-xl border border-slate-200 bg-white">
+      <div className="flex justify-between items-center mb-2">
+        <span className="text-xs font-semibold text-slate-600 flex items-center gap-1">
+          <Quote className="w-3.5 h-3.5 text-indigo-600" />
+          Cited Clauses
+        </span>
+        {unverified.length > 0 && (
+          <span className="text-[10px] px-2 py-0.5 rounded-full font-medium bg-red-100 text-red-700">{unverified.length} unverifiable</span>
+        )}
+      </div>
+
+      {citations.length === 0 ? (
+        <p className="text-xs text-slate-500">The AI did not quote any policy clause for this decision.</p>
+      ) : (
+        <ul className="space-y-2">
+          {citations.map((citation, i) => (
+            <li key={i} className="text-xs">
+              <div className="flex items-start gap-1.5">
+                <span className="mt-0.5 flex-shrink-0">{STATUS_STYLES[citation.status].icon}</span>
+                <div className="min-w-0">
+                  <p className="italic text-slate-700 break-words">"{citation.quote}"</p>
+                  <p className="text-slate-400">
+                    {citation.document_name || `Unknown document "${citation.document_id}"`}
+                    {citation.page && `, page ${citation.page}`}
+                    {citation.purpose && ` · ${citation.purpose}`}
+                    {' · '}
+                    <span className={STATUS_STYLES[citation.status].className}>
+                      {STATUS_STYLES[citation.status].label}
+                      {citation.match_score !== undefined && citation.status !== 'verified' && ` (${Math.round(citation.match_score * 100)}% of words)`}
+                    </span>
+                  </p>
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {unsupportedDenial && (
+        <p className="mt-3 p-2 rounded-lg bg-red-50 border border-red-200 text-xs text-red-700 flex items-start gap-1.5">
+          <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0 mt-0.5" />
+          This denial relies on policy wording that could not be found in the Knowledge Base. Do not send a denial letter without checking the clause.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default CitationsPanel;
@@ -0,0 +1,68 @@
+import React from 'react';
+import { CalendarClock, AlertTriangle, XCircle } from 'lucide-react';
+import { ClaimTimeline, TimelineEventKind } from '../types';
+
+interface ClaimTimelineViewProps {
+  timeline: ClaimTimeline;
+}
+
+const EVENT_COLORS: Record<TimelineEventKind, string> = {
+  policy_start: 'bg-slate-400',
+  policy_end: 'bg-slate-400',
+  incident: 'bg-red-500',
+  admission: 'bg-rose-500',
+  discharge: 'bg-rose-300',
+  trip_start: 'bg-sky-500',
+  trip_end: 'bg-sky-300',
+  filing: 'bg-indigo-500',
+  settlement: 'bg-green-500'
+};
+
+const ClaimTimelineView: React.FC<ClaimTimelineViewProps> = ({ timeline }) => {
+  if (timeline.events.length === 0 && timeline.findings.length === 0) return null;
+
+  // Events named in a violation are highlighted on the line
+  const flagged = new Set(timeline.findings.filter(f => f.severity === 'violation').flatMap(f => f.events));
+
+  return (
+    <div className="mb-4 p-3 rounded-xl border border-slate-200 bg-white">
+      <span className="text-xs font-semibold text-slate-600 flex items-center gap-1 mb-3">
+        <CalendarClock className="w-3.5 h-3.5 text-indigo-600" />
+        Claim Timeline
+      </span>
+
+      {timeline.events.length > 0 && (
+        <ol className="relative border-l-2 border-slate-200 ml-1.5 space-y-2">
+          {timeline.events.map(event => (
+            <li key={event.kind} className="ml-3 flex items-baseline gap-2 text-xs">
+              <span className={`absolute -left-[5px] mt-1 w-2 h-2 rounded-full ${flagged.has(event.kind) ? 'bg-red-600 ring-2 ring-red-200' : EVENT_COLORS[event.kind]}`}></span>
+              <span className="font-mono text-slate-500 w-20 flex-shrink-0">
+                {event.date.precision === 'day' ? event.date.date : event.date.date.slice(0, event.date.precision === 'month' ? 7 : 4)}
+              </span>
+              <span className={flagged.has(event.kind) ? 'font-medium text-red-700' : 'text-slate-700'}>{event.label}</span>
+              {event.date.ambiguous && <span className="text-amber-600">(ambiguous)</span>}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {timeline.findings.length > 0 && (
+        <ul className="mt-3 space-y-1">
+          {timeline.findings.map((finding, i) => (
+            <li key={i} className={`flex items-start gap-1.5 text-xs ${finding.severity === 'violation' ? 'text-red-700' : 'text-amber-700'}`}>
+              {finding.severity === 'violation'
+                ? <XCircle className="w-3.5 h-3.5 flex-shrink-0 mt-0.5" />
+                : <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0 mt-0.5" />}
+              <span>
+                {finding.message}
+                {finding.policy_reference && <span className="text-slate-400 italic"> ({finding.policy_reference})</span>}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ClaimTimelineView;
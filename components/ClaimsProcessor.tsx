@@ -1,30 +1,112 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { FileText, CheckCircle, AlertTriangle, ArrowRight, ScanSearch, FileCheck, ClipboardList, RefreshCw, Library, Upload, X, File, PlayCircle, Cpu, CloudLightning, Settings, HelpCircle, Box, FileJson, Database } from 'lucide-react';
-import { SAMPLE_CLAIM_TEXT, DEMO_SCENARIOS } from '../constants';
-import { extractClaimDetails, verifyClaimEligibility } from '../services/geminiService';
+import { FileText, CheckCircle, AlertTriangle, ArrowRight, ScanSearch, FileCheck, ClipboardList, RefreshCw, Library, Upload, X, File, PlayCircle, Cpu, CloudLightning, Settings, HelpCircle, Box, FileJson, Database, LocateFixed, ClipboardCheck, CalendarClock } from 'lucide-react';
+import { SAMPLE_CLAIM_TEXT, DEMO_SCENARIOS, EVIDENCE_TYPE_LABELS } from '../constants';
+import { extractClaimDetails, verifyClaimEligibility, verifyClaimEligibilityConsistent, identifyClaimRequirements } from '../services/geminiService';
 import { extractClaimDetailsLocal, verifyClaimEligibilityLocal, loadLocalModel, loadCustomModelFromFiles } from '../services/localAiService';
-import { ClaimExtraction, VerificationResult, ProcessingStatus, PolicyDocument } from '../types';
+import { ClaimExtraction, VerificationResult, ProcessingStatus, PolicyDocument, FieldProvenance, EvidenceType, ClaimChecklist, PolicyRuleSet, FraudAssessment, ClaimRecord, ReviewThresholds } from '../types';
+import { CLAIM_DOMAIN_LABELS, COMMON_CLAIM_FIELDS, DOMAIN_CLAIM_FIELDS, getClaimField, getFieldLabel } from '../services/claimSchema';
+import { formatAmount } from '../services/normalizationService';
+import { getTextSpan } from '../services/provenanceService';
+import { buildClaimChecklist } from '../services/checklistService';
+import { withRuleVerdict } from '../services/ruleEngineService';
+import { withRulePayout } from '../services/payoutService';
+import { withTimeline } from '../services/timelineService';
+import { assessFraudRisk } from '../services/fraudService';
+import { createClaimRecord } from '../services/reviewService';
+import { getIncidentDate, rulesForDocuments, selectPolicyVersions, withPolicyVersions } from '../services/policyVersionService';
+import { BudgetChoice, applyBudgetChoice, estimateClaimBudget } from '../services/tokenBudgetService';
+import { getProvider } from '../services/llmProvider';
+import { describeModelSettings } from '../services/modelSettingsService';
+import { describeLlmError } from '../services/llmErrors';
 import ModelConversionHelp from './ModelConversionHelp';
+import ChecklistPanel from './ChecklistPanel';
+import RuleVerdictPanel from './RuleVerdictPanel';
+import PayoutTable from './PayoutTable';
+import ClaimTimelineView from './ClaimTimelineView';
+import CitationsPanel from './CitationsPanel';
+import PolicyVerdictList from './PolicyVerdictList';
+import FraudSignalsPanel from './FraudSignalsPanel';
+import ConsistencyPanel from './ConsistencyPanel';
+import KnowledgeSourcesPanel from './KnowledgeSourcesPanel';
+import TokenBudgetPanel from './TokenBudgetPanel';
 
 interface ClaimsProcessorProps {
   documents: PolicyDocument[];
+  rules: PolicyRuleSet[];
   mode: 'cloud' | 'local';
+  reviewThresholds: ReviewThresholds;
+  onClaimRouted: (record: ClaimRecord) => void;
 }
 
 interface ClaimFile {
+  id: string;
+  evidenceType: EvidenceType;
   file: File;
   previewUrl: string | null;
+  objectUrl: string;
   base64: string;
 }
 
-const ClaimsProcessor: React.FC<ClaimsProcessorProps> = ({ documents, mode }) => {
+/**
+ * Best-effort evidence label from the file name / type; the user can correct it.
+ */
+const guessEvidenceType = (file: File): EvidenceType => {
+  const name = file.name.toLowerCase();
+  if (/invoice|bill|receipt|estimate/.test(name)) return 'invoice';
+  if (/discharge/.test(name)) return 'discharge_summary';
+  if (/police|fir\b/.test(name)) return 'police_report';
+  if (/survey|assessment/.test(name)) return 'surveyor_report';
+  if (/medical|prescription|lab|report|diagnos/.test(name)) return 'medical_report';
+  if (file.type.startsWith('image/')) return 'photo';
+  return 'other';
+};
+
+interface ActiveSource {
+  field: string;
+  provenance: FieldProvenance;
+}
+
+interface SourcedValueProps {
+  field: string;
+  extraction: ClaimExtraction;
+  activeField: string | null;
+  onSelect: (field: string) => void;
+  children: React.ReactNode;
+}
+
+/**
+ * Renders an extracted value; when the field has provenance it becomes a button
+ * that highlights the value's source in the evidence.
+ */
+const SourcedValue: React.FC<SourcedValueProps> = ({ field, extraction, activeField, onSelect, children }) => {
+  if (!extraction.provenance?.[field]) return <>{children}</>;
+  return (
+    <button
+      type="button"
+      onClick={() => onSelect(field)}
+      title="Show source in evidence"
+      className={`text-left inline-flex items-start gap-1 rounded px-0.5 -mx-0.5 transition-colors hover:bg-yellow-50 ${activeField === field ? 'bg-yellow-100 ring-1 ring-yellow-300' : ''}`}
+    >
+      <span>{children}</span>
+      <LocateFixed className="w-3 h-3 mt-1 text-slate-300 flex-shrink-0" />
+    </button>
+  );
+};
+
+const ClaimsProcessor: React.FC<ClaimsProcessorProps> = ({ documents, rules, mode, reviewThresholds, onClaimRouted }) => {
   const [inputText, setInputText] = useState(SAMPLE_CLAIM_TEXT);
-  const [claimFile, setClaimFile] = useState<ClaimFile | null>(null);
+  const [claimFiles, setClaimFiles] = useState<ClaimFile[]>([]);
   
   const [status, setStatus] = useState<ProcessingStatus>(ProcessingStatus.IDLE);
   const [extractionResult, setExtractionResult] = useState<ClaimExtraction | null>(null);
+  const [checklist, setChecklist] = useState<ClaimChecklist | null>(null);
+  const [fraudAssessment, setFraudAssessment] = useState<FraudAssessment | null>(null);
+  const [selfConsistency, setSelfConsistency] = useState(false);
+  const [budgetChoice, setBudgetChoice] = useState<BudgetChoice | null>(null);
   const [verificationResult, setVerificationResult] = useState<VerificationResult | null>(null);
+  const [claimRecord, setClaimRecord] = useState<ClaimRecord | null>(null);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [activeSource, setActiveSource] = useState<ActiveSource | null>(null);
   
   // Local Model Config State
   const [localModelReady, setLocalModelReady] = useState(false);
@@ -38,6 +120,7 @@ const ClaimsProcessor: React.FC<ClaimsProcessorProps> = ({ documents, mode }) =>
   const [modelAssetsFile, setModelAssetsFile] = useState<File | null>(null);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const claimTextRef = useRef<HTMLTextAreaElement>(null);
   const jsonInputRef = useRef<HTMLInputElement>(null);
   const weightsInputRef = useRef<HTMLInputElement>(null);
   const assetsInputRef = useRef<HTMLInputElement>(null);
@@ -50,8 +133,8 @@ const ClaimsProcessor: React.FC<ClaimsProcessorProps> = ({ documents, mode }) =>
   }, [mode, modelSource]);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) processFile(file);
+    const files = e.target.files;
+    if (files) Array.from(files).forEach(processFile);
     if (e.target.value) e.target.value = '';
   };
 
@@ -104,28 +187,64 @@ const ClaimsProcessor: React.FC<ClaimsProcessorProps> = ({ documents, mode }) =>
   const processFile = (file: File) => {
     const validTypes = ['application/pdf', 'image/jpeg', 'image/png', 'image/webp', 'image/heic'];
     if (!validTypes.includes(file.type)) {
-      alert("Unsupported file type. Please upload PDF or Images (JPEG, PNG).");
+      alert(`Skipped "${file.name}": Unsupported file type. Please upload PDF or Images (JPEG, PNG).`);
       return;
     }
     const reader = new FileReader();
     reader.onload = (e) => {
       const base64 = (e.target?.result as string).split(',')[1];
       const isImage = file.type.startsWith('image/');
-      setClaimFile({
+      const objectUrl = URL.createObjectURL(file);
+      const newFile: ClaimFile = {
+        id: Date.now().toString() + Math.random().toString(),
+        evidenceType: guessEvidenceType(file),
         file,
-        previewUrl: isImage ? URL.createObjectURL(file) : null,
+        previewUrl: isImage ? objectUrl : null,
+        objectUrl,
         base64
-      });
+      };
+      setClaimFiles(prev => [...prev, newFile]);
     };
     reader.readAsDataURL(file);
   };
 
-  const handleRemoveFile = () => {
-    setClaimFile(null);
+  const handleRemoveFile = (id: string) => {
+    setClaimFiles(prev => prev.filter(f => f.id !== id));
   };
 
+  const handleEvidenceTypeChange = (id: string, evidenceType: EvidenceType) => {
+    setClaimFiles(prev => prev.map(f => f.id === id ? { ...f, evidenceType } : f));
+  };
+
+  // Highlight where an extracted field came from: select the span in the claim text
+  // box, or point at the attachment (page + quote) for document sources.
+  const handleShowSource = (field: string) => {
+    const provenance = extractionResult?.provenance?.[field];
+    if (!provenance) return;
+    setActiveSource({ field, provenance });
+
+    const span = getTextSpan(provenance);
+    const textarea = claimTextRef.current;
+    if (span && textarea) {
+      textarea.focus();
+      textarea.setSelectionRange(span.start, span.end);
+      const ratio = inputText.length > 0 ? span.start / inputText.length : 0;
+      textarea.scrollTop = Math.max(0, ratio * textarea.scrollHeight - textarea.clientHeight / 2);
+    }
+  };
+
+  // Cloud calls run against the Knowledge Base as cut down by the budget choice
+  const claimDocuments = mode === 'cloud' ? applyBudgetChoice(documents, budgetChoice) : documents;
+  const evidenceForBudget = claimFiles.map(f => ({ mimeType: f.file.type, data: f.base64 }));
+  const baselineBudget = mode === 'cloud' && documents.length > 0
+    ? estimateClaimBudget(selectPolicyVersions(documents).documents, inputText, evidenceForBudget, selfConsistency, getProvider().limits)
+    : null;
+  const budget = baselineBudget && budgetChoice
+    ? estimateClaimBudget(selectPolicyVersions(claimDocuments).documents, inputText, evidenceForBudget, selfConsistency, getProvider().limits)
+    : baselineBudget;
+
   const handleProcess = async () => {
-    if (!inputText.trim() && !claimFile) {
+    if (!inputText.trim() && claimFiles.length === 0) {
       setErrorMsg("Please provide text description or upload evidence.");
       return;
     }
@@ -133,11 +252,19 @@ const ClaimsProcessor: React.FC<ClaimsProcessorProps> = ({ documents, mode }) =>
         setErrorMsg("Please add at least one policy document to the Knowledge Base.");
         return;
     }
+    if (budget?.status === 'over_context') {
+        setErrorMsg("This claim is too large for the model. Choose Trim, Summarize or Retrieval above to send less of the Knowledge Base.");
+        return;
+    }
     
     setStatus(ProcessingStatus.EXTRACTING);
     setErrorMsg(null);
     setExtractionResult(null);
+    setChecklist(null);
+    setFraudAssessment(null);
     setVerificationResult(null);
+    setClaimRecord(null);
+    setActiveSource(null);
 
     try {
       let extraction: ClaimExtraction;
@@ -145,33 +272,114 @@ const ClaimsProcessor: React.FC<ClaimsProcessorProps> = ({ documents, mode }) =>
       if (mode === 'cloud') {
         extraction = await extractClaimDetails({
           text: inputText,
-          file: claimFile ? { mimeType: claimFile.file.type, data: claimFile.base64 } : undefined
-        }, documents);
+          files: claimFiles.map(f => ({
+            name: f.file.name,
+            mimeType: f.file.type,
+            data: f.base64,
+            evidenceType: f.evidenceType
+          }))
+        }, selectPolicyVersions(claimDocuments).documents);
       } else {
         extraction = await extractClaimDetailsLocal(inputText);
       }
       
       setExtractionResult(extraction);
-      
-      setStatus(ProcessingStatus.VERIFYING);
-      
-      let verification: VerificationResult;
+      // Investigation signals run beside the decision and never feed into it
+      const fraud = assessFraudRisk(extraction, inputText, claimFiles.map(f => ({ name: f.file.name, mimeType: f.file.type, data: f.base64 })));
+      setFraudAssessment(fraud);
+
+      // Work out what the matched policy needs before ruling on the claim
+      setStatus(ProcessingStatus.CHECKING);
+      const evidenceTypes = claimFiles.map(f => f.evidenceType);
+      let claimChecklist: ClaimChecklist;
       if (mode === 'cloud') {
-         verification = await verifyClaimEligibility(extraction, documents);
+        try {
+          const requirements = await identifyClaimRequirements(extraction, evidenceTypes, selectPolicyVersions(claimDocuments, getIncidentDate(extraction)).documents);
+          claimChecklist = buildClaimChecklist(extraction, evidenceTypes, inputText, requirements);
+        } catch (e) {
+          console.warn("Falling back to default checklist:", e);
+          claimChecklist = buildClaimChecklist(extraction, evidenceTypes, inputText);
+        }
       } else {
-         verification = await verifyClaimEligibilityLocal(extraction, documents, inputText);
+        claimChecklist = buildClaimChecklist(extraction, evidenceTypes, inputText);
+      }
+      setChecklist(claimChecklist);
+
+      if (!claimChecklist.is_complete) {
+        setStatus(ProcessingStatus.NEEDS_INFO);
+        return;
       }
 
-      setVerificationResult(verification);
-      setStatus(ProcessingStatus.COMPLETED);
+      await runVerification(extraction, claimChecklist, fraud);
 
     } catch (e) {
       console.error(e);
-      setErrorMsg("An error occurred during processing. Please try again.");
+      setErrorMsg(describeLlmError(e, "An error occurred during processing. Please try again."));
       setStatus(ProcessingStatus.ERROR);
     }
   };
 
+  const runVerification = async (extraction: ClaimExtraction, claimChecklist: ClaimChecklist, fraud: FraudAssessment | null) => {
+    setStatus(ProcessingStatus.VERIFYING);
+
+    // Judge the claim against the policy wordings in force on the incident date
+    const incidentDate = getIncidentDate(extraction);
+    const { documents: inForce, selections } = selectPolicyVersions(claimDocuments, incidentDate);
+    if (inForce.length === 0) {
+      setErrorMsg(incidentDate
+        ? `No policy wording in the Knowledge Base was in force on ${incidentDate}.`
+        : "No policy wording in the Knowledge Base is in force today, and the claim has no incident date.");
+      setStatus(ProcessingStatus.ERROR);
+      return;
+    }
+    const inForceRules = rulesForDocuments(rules, inForce);
+
+    let verification: VerificationResult;
+    if (mode === 'cloud') {
+       verification = selfConsistency
+         ? await verifyClaimEligibilityConsistent(extraction, inForce, claimChecklist)
+         : await verifyClaimEligibility(extraction, inForce, claimChecklist);
+    } else {
+       verification = await verifyClaimEligibilityLocal(extraction, inForce, inputText, claimChecklist);
+    }
+
+    // Deterministic check runs on the same extraction so reviewers can see where the two differ
+    const checked = withTimeline(withRuleVerdict(verification, extraction, inForceRules, inputText), extraction, inForceRules);
+    const result = withPolicyVersions(withRulePayout(checked, extraction, inForceRules), selections);
+    setVerificationResult(result);
+
+    // Denials, low-confidence and high-value claims wait for an adjudicator
+    const modelSettings = mode === 'cloud' ? describeModelSettings(getProvider(), selfConsistency) : undefined;
+    const record = createClaimRecord(inputText, extraction, result, fraud, reviewThresholds, modelSettings);
+    setClaimRecord(record);
+    onClaimRouted(record);
+    setStatus(record.status === 'pending_review' ? ProcessingStatus.IN_REVIEW : ProcessingStatus.COMPLETED);
+  };
+
+  // Reviewer chose to rule on incomplete evidence; the result carries the gaps as warnings
+  const handleVerifyAnyway = async () => {
+    if (!extractionResult || !checklist) return;
+    setErrorMsg(null);
+    try {
+      await runVerification(extractionResult, checklist, fraudAssessment);
+    } catch (e) {
+      console.error(e);
+      setErrorMsg(describeLlmError(e, "An error occurred during verification. Please try again."));
+      setStatus(ProcessingStatus.ERROR);
+    }
+  };
+
+  const isBusy = status === ProcessingStatus.EXTRACTING || status === ProcessingStatus.CHECKING || status === ProcessingStatus.VERIFYING;
+
+  // Typed fields for the extracted claim's domain, in display order
+  const typedFields = extractionResult
+    ? [...DOMAIN_CLAIM_FIELDS[extractionResult.claim_domain], ...COMMON_CLAIM_FIELDS]
+        .map(spec => ({ spec, value: getClaimField(extractionResult, spec.key) }))
+        .filter(f => f.value)
+    : [];
+
+  const activeTextSpan = activeSource ? getTextSpan(activeSource.provenance) : null;
+
   return (
     <div className="max-w-6xl mx-auto p-6 relative">
       {showModelHelp && <ModelConversionHelp onClose={() => setShowModelHelp(false)} />}
@@ -357,9 +565,13 @@ const ClaimsProcessor: React.FC<ClaimsProcessorProps> = ({ documents, mode }) =>
                      key={scenario.id}
                      onClick={() => {
                         setInputText(scenario.text);
-                        setClaimFile(null);
+                        setClaimFiles([]);
                         setExtractionResult(null);
+                        setChecklist(null);
+                        setFraudAssessment(null);
                         setVerificationResult(null);
+                        setClaimRecord(null);
+                        setActiveSource(null);
                         setStatus(ProcessingStatus.IDLE);
                      }}
                      className="px-3 py-1.5 bg-slate-100 hover:bg-slate-200 text-slate-700 text-xs font-medium rounded-lg transition-colors flex items-center gap-1 border border-slate-200"
@@ -375,72 +587,146 @@ const ClaimsProcessor: React.FC<ClaimsProcessorProps> = ({ documents, mode }) =>
             <div className="mb-4">
               <label className="block text-xs font-medium text-slate-500 mb-2 uppercase tracking-wide">Description of Incident</label>
               <textarea
+                ref={claimTextRef}
                 value={inputText}
-                onChange={(e) => setInputText(e.target.value)}
+                onChange={(e) => { setInputText(e.target.value); setActiveSource(null); }}
                 className="w-full h-32 p-4 text-sm text-slate-700 bg-slate-50 border border-slate-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 resize-none font-mono transition-all"
                 placeholder="Describe what happened..."
               />
+              {activeSource && activeTextSpan && (
+                <div className="mt-2 text-xs text-slate-600 bg-yellow-50 border border-yellow-200 rounded-lg p-2">
+                  <span className="font-semibold text-yellow-800">{getFieldLabel(activeSource.field)}</span>
+                  {activeSource.provenance.kind === 'tokens' && <span className="text-yellow-700"> (tokens {activeSource.provenance.startToken}–{activeSource.provenance.endToken})</span>}
+                  <span className="text-yellow-700"> · chars {activeTextSpan.start}–{activeTextSpan.end}</span>
+                  <p className="mt-1 font-mono">
+                    …{inputText.slice(Math.max(0, activeTextSpan.start - 60), activeTextSpan.start)}
+                    <mark className="bg-yellow-300 rounded px-0.5">{inputText.slice(activeTextSpan.start, activeTextSpan.end)}</mark>
+                    {inputText.slice(activeTextSpan.end, activeTextSpan.end + 60)}…
+                  </p>
+                </div>
+              )}
             </div>
 
-            {/* File Input */}
+            {/* File Input: evidence bundle */}
             <div className="mb-6">
-              <label className="block text-xs font-medium text-slate-500 mb-2 uppercase tracking-wide">Supporting Documents / Images</label>
-              
-              {!claimFile ? (
-                <div 
-                  onClick={() => fileInputRef.current?.click()}
-                  className="border-2 border-dashed border-slate-200 rounded-xl p-6 text-center cursor-pointer hover:bg-slate-50 hover:border-blue-300 transition-all group"
-                >
-                  <Upload className="w-8 h-8 text-slate-300 group-hover:text-blue-500 mx-auto mb-2 transition-colors" />
-                  <p className="text-sm text-slate-600 font-medium">Upload Evidence</p>
-                  <p className="text-xs text-slate-400 mt-1">PDF Documents or Images (JPG, PNG)</p>
-                  <input 
-                    type="file" 
-                    ref={fileInputRef} 
-                    className="hidden" 
-                    accept="application/pdf,image/jpeg,image/png,image/webp"
-                    onChange={handleFileChange}
-                  />
-                </div>
-              ) : (
-                <div className="relative bg-slate-50 border border-slate-200 rounded-xl p-3 flex items-center gap-3">
-                   {claimFile.previewUrl ? (
-                     <div className="w-12 h-12 rounded-lg bg-slate-200 overflow-hidden flex-shrink-0 border border-slate-300">
-                        <img src={claimFile.previewUrl} alt="Preview" className="w-full h-full object-cover" />
-                     </div>
-                   ) : (
-                     <div className="w-12 h-12 rounded-lg bg-red-50 text-red-500 flex items-center justify-center flex-shrink-0 border border-red-100">
-                        <File className="w-6 h-6" />
-                     </div>
-                   )}
-                   <div className="flex-1 min-w-0">
-                      <p className="text-sm font-medium text-slate-800 truncate">{claimFile.file.name}</p>
-                      <p className="text-xs text-slate-500">{(claimFile.file.size / 1024 / 1024).toFixed(2)} MB</p>
-                   </div>
-                   <button 
-                    onClick={handleRemoveFile}
-                    className="p-2 text-slate-400 hover:text-red-500 transition-colors"
-                   >
-                     <X className="w-5 h-5" />
-                   </button>
+              <label className="block text-xs font-medium text-slate-500 mb-2 uppercase tracking-wide">
+                Supporting Documents / Images {claimFiles.length > 0 && `(${claimFiles.length})`}
+              </label>
+
+              {claimFiles.length > 0 && (
+                <div className="space-y-2 mb-3">
+                  {claimFiles.map(claimFile => {
+                    const isSource = activeSource?.provenance.kind === 'document' && activeSource.provenance.fileName === claimFile.file.name;
+                    return (
+                      <div key={claimFile.id}>
+                        <div className={`relative bg-slate-50 border rounded-xl p-3 flex items-center gap-3 ${isSource ? 'border-yellow-400 ring-2 ring-yellow-100' : 'border-slate-200'}`}>
+                           {claimFile.previewUrl ? (
+                             <div className="w-12 h-12 rounded-lg bg-slate-200 overflow-hidden flex-shrink-0 border border-slate-300">
+                                <img src={claimFile.previewUrl} alt="Preview" className="w-full h-full object-cover" />
+                             </div>
+                           ) : (
+                             <div className="w-12 h-12 rounded-lg bg-red-50 text-red-500 flex items-center justify-center flex-shrink-0 border border-red-100">
+                                <File className="w-6 h-6" />
+                             </div>
+                           )}
+                           <div className="flex-1 min-w-0">
+                              <p className="text-sm font-medium text-slate-800 truncate">{claimFile.file.name}</p>
+                              <div className="flex items-center gap-2 mt-0.5">
+                                <select
+                                  value={claimFile.evidenceType}
+                                  onChange={(e) => handleEvidenceTypeChange(claimFile.id, e.target.value as EvidenceType)}
+                                  className="text-xs bg-white border border-slate-200 rounded px-1.5 py-0.5 text-slate-600 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                                >
+                                  {(Object.keys(EVIDENCE_TYPE_LABELS) as EvidenceType[]).map(type => (
+                                    <option key={type} value={type}>{EVIDENCE_TYPE_LABELS[type]}</option>
+                                  ))}
+                                </select>
+                                <span className="text-xs text-slate-500">{(claimFile.file.size / 1024 / 1024).toFixed(2)} MB</span>
+                              </div>
+                           </div>
+                           <button 
+                            onClick={() => handleRemoveFile(claimFile.id)}
+                            className="p-2 text-slate-400 hover:text-red-500 transition-colors"
+                           >
+                             <X className="w-5 h-5" />
+                           </button>
+                        </div>
+                        {isSource && activeSource?.provenance.kind === 'document' && (
+                          <div className="mt-2 text-xs text-slate-600 bg-yellow-50 border border-yellow-200 rounded-lg p-2">
+                            <span className="font-semibold text-yellow-800">{getFieldLabel(activeSource.field)}</span>
+                            <span className="text-yellow-700">
+                              {' '}· {claimFile.file.name}
+                              {activeSource.provenance.page && `, page ${activeSource.provenance.page}`}
+                            </span>
+                            <p className="mt-1"><mark className="bg-yellow-300 rounded px-0.5">“{activeSource.provenance.quote}”</mark></p>
+                            {claimFile.file.type === 'application/pdf' && (
+                              <a
+                                href={`${claimFile.objectUrl}#page=${activeSource.provenance.page || 1}`}
+                                target="_blank"
+                                rel="noreferrer"
+                                className="inline-block mt-1 text-blue-600 hover:underline"
+                              >
+                                Open PDF at page {activeSource.provenance.page || 1}
+                              </a>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
                 </div>
               )}
+
+              <div 
+                onClick={() => fileInputRef.current?.click()}
+                className={`border-2 border-dashed border-slate-200 rounded-xl text-center cursor-pointer hover:bg-slate-50 hover:border-blue-300 transition-all group ${claimFiles.length > 0 ? 'p-3' : 'p-6'}`}
+              >
+                <Upload className={`text-slate-300 group-hover:text-blue-500 mx-auto transition-colors ${claimFiles.length > 0 ? 'w-5 h-5 mb-1' : 'w-8 h-8 mb-2'}`} />
+                <p className="text-sm text-slate-600 font-medium">{claimFiles.length > 0 ? 'Add More Evidence' : 'Upload Evidence'}</p>
+                <p className="text-xs text-slate-400 mt-1">Discharge summaries, bills, photos, police or surveyor reports (PDF, JPG, PNG)</p>
+                <input 
+                  type="file" 
+                  ref={fileInputRef} 
+                  className="hidden" 
+                  accept="application/pdf,image/jpeg,image/png,image/webp"
+                  multiple
+                  onChange={handleFileChange}
+                />
+              </div>
             </div>
 
+            {baselineBudget && budget && (baselineBudget.status !== 'ok' || budgetChoice) && (
+              <div className="mb-4">
+                <TokenBudgetPanel baseline={baselineBudget} budget={budget} choice={budgetChoice} onChoiceChange={setBudgetChoice} />
+              </div>
+            )}
+
             {/* Actions */}
-            <div className="flex justify-end gap-3 pt-4 border-t border-slate-100">
+            <div className="flex justify-end items-center gap-3 pt-4 border-t border-slate-100">
+              {mode === 'cloud' && (
+                <label className="mr-auto flex items-center gap-2 text-xs text-slate-500 cursor-pointer" title="Run verification 5 times and use the agreement between runs as confidence">
+                  <input
+                    type="checkbox"
+                    checked={selfConsistency}
+                    onChange={e => setSelfConsistency(e.target.checked)}
+                    disabled={isBusy}
+                    className="rounded border-slate-300"
+                  />
+                  Self-consistency (5 runs)
+                </label>
+              )}
               <button 
-                onClick={() => { setInputText(''); setClaimFile(null); }} 
+                onClick={() => { setInputText(''); setClaimFiles([]); }} 
                 className="px-4 py-2 text-sm text-slate-500 hover:text-slate-700 font-medium"
               >
                 Clear All
               </button>
               <button
                 onClick={handleProcess}
-                disabled={(status === ProcessingStatus.EXTRACTING || status === ProcessingStatus.VERIFYING) || (mode === 'local' && !localModelReady)}
+                disabled={isBusy || (mode === 'local' && !localModelReady)}
                 className={`px-6 py-2 text-white rounded-lg font-medium shadow-md hover:shadow-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2 ${mode === 'cloud' ? 'bg-blue-600 hover:bg-blue-700' : 'bg-emerald-600 hover:bg-emerald-700'}`}
               >
-               {(status === ProcessingStatus.EXTRACTING || status === ProcessingStatus.VERIFYING) ? (
+               {isBusy ? (
                  <>
                   <RefreshCw className="w-4 h-4 animate-spin" /> Processing...
                  </>
@@ -473,12 +759,97 @@ const ClaimsProcessor: React.FC<ClaimsProcessorProps> = ({ documents, mode }) =>
                 <div className="p-4 grid grid-cols-2 gap-4 text-sm">
                   <div className="col-span-2 sm:col-span-1">
                     <span className="block text-xs text-slate-400 uppercase tracking-wider font-semibold">Incident Type</span>
-                    <span className="font-medium text-slate-900">{extractionResult.incident_type}</span>
+                    <span className="font-medium text-slate-900">
+                      <SourcedValue field="incident_type" extraction={extractionResult} activeField={activeSource?.field || null} onSelect={handleShowSource}>{extractionResult.incident_type}</SourcedValue>
+                    </span>
                   </div>
                   <div className="col-span-2 sm:col-span-1">
                     <span className="block text-xs text-slate-400 uppercase tracking-wider font-semibold">Date</span>
-                    <span className="font-medium text-slate-900">{extractionResult.incident_date}</span>
+                    <span className="font-medium text-slate-900">
+                      <SourcedValue field="incident_date" extraction={extractionResult} activeField={activeSource?.field || null} onSelect={handleShowSource}>{extractionResult.incident_date}</SourcedValue>
+                    </span>
+                  </div>
+                  <div className="col-span-2 sm:col-span-1">
+                    <span className="block text-xs text-slate-400 uppercase tracking-wider font-semibold">Location</span>
+                    <span className="font-medium text-slate-900">
+                      <SourcedValue field="location" extraction={extractionResult} activeField={activeSource?.field || null} onSelect={handleShowSource}>{extractionResult.location || 'Not specified'}</SourcedValue>
+                    </span>
+                  </div>
+                  <div className="col-span-2 sm:col-span-1">
+                    <span className="block text-xs text-slate-400 uppercase tracking-wider font-semibold">Estimated Cost</span>
+                    <span className="font-medium text-slate-900">
+                      <SourcedValue field="estimated_cost" extraction={extractionResult} activeField={activeSource?.field || null} onSelect={handleShowSource}>{extractionResult.estimated_cost || 'Not specified'}</SourcedValue>
+                    </span>
+                  </div>
+                  <div className="col-span-2">
+                    <span className="block text-xs text-slate-400 uppercase tracking-wider font-semibold mb-1">
+                      {CLAIM_DOMAIN_LABELS[extractionResult.claim_domain]} Details
+                    </span>
+                    {typedFields.length > 0 ? (
+                      <dl className="grid grid-cols-2 gap-x-4 gap-y-2 bg-slate-50 p-3 rounded-lg border border-slate-100">
+                        {typedFields.map(({ spec, value }) => (
+                          <div key={spec.key} className="col-span-2 sm:col-span-1 min-w-0">
+                            <dt className="text-xs text-slate-500">{spec.label}</dt>
+                            <dd className="font-medium text-slate-900 break-words">
+                              <SourcedValue field={spec.key} extraction={extractionResult} activeField={activeSource?.field || null} onSelect={handleShowSource}>{value}</SourcedValue>
+                            </dd>
+                          </div>
+                        ))}
+                      </dl>
+                    ) : (
+                      <p className="text-xs text-slate-400 italic">No domain-specific fields found in the evidence.</p>
+                    )}
                   </div>
+                  {extractionResult.normalized && (
+                    Object.keys(extractionResult.normalized.amounts).length > 0 ||
+                    Object.keys(extractionResult.normalized.dates).length > 0 ||
+                    Object.keys(extractionResult.normalized.ranges).length > 0
+                  ) && (
+                    <div className="col-span-2">
+                      <span className="block text-xs text-slate-400 uppercase tracking-wider font-semibold mb-1">Normalized Values</span>
+                      <div className="flex flex-wrap gap-2">
+                        {Object.entries(extractionResult.normalized.amounts).map(([key, amount]) => (
+                          <span key={key} title={amount.original} className="px-2 py-1 bg-blue-50 text-blue-800 rounded-md text-xs border border-blue-100">
+                            {getFieldLabel(key)}: <strong>{formatAmount(amount)}</strong>
+                          </span>
+                        ))}
+                        {Object.entries(extractionResult.normalized.dates).map(([key, date]) => (
+                          <span key={key} title={date.original} className="px-2 py-1 bg-indigo-50 text-indigo-800 rounded-md text-xs border border-indigo-100">
+                            {getFieldLabel(key)}: <strong>{date.date}</strong>{date.ambiguous && ' (DD/MM?)'}
+                          </span>
+                        ))}
+                        {Object.entries(extractionResult.normalized.ranges).map(([key, range]) => range && (
+                          <span key={key} title={range.original} className="px-2 py-1 bg-indigo-50 text-indigo-800 rounded-md text-xs border border-indigo-100">
+                            {getFieldLabel(key)}: <strong>{range.start?.date || '?'} → {range.end?.date || '?'}</strong>
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                  {extractionResult.conflicts && extractionResult.conflicts.length > 0 && (
+                    <div className="col-span-2">
+                      <span className="block text-xs text-slate-400 uppercase tracking-wider font-semibold mb-1">Reconciled Conflicts</span>
+                      <ul className="space-y-2">
+                        {extractionResult.conflicts.map(conflict => (
+                          <li key={conflict.field} className="bg-orange-50 border border-orange-100 rounded-lg p-2 text-xs text-slate-700">
+                            <div className="flex items-center gap-1 font-semibold text-orange-800">
+                              <AlertTriangle className="w-3 h-3" />
+                              {getFieldLabel(conflict.field)}: {conflict.chosen_value}
+                              <span className="font-normal text-orange-700">(from {conflict.chosen_source === 'claim_text' ? 'claim description' : conflict.chosen_source})</span>
+                            </div>
+                            <ul className="mt-1 ml-4 list-disc text-slate-600">
+                              {conflict.candidates.map((candidate, i) => (
+                                <li key={i}>
+                                  {candidate.value} <span className="text-slate-400">— {candidate.source === 'claim_text' ? 'claim description' : candidate.source}</span>
+                                </li>
+                              ))}
+                            </ul>
+                            <p className="mt-1 text-slate-500 italic">{conflict.resolution}</p>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
                   <div className="col-span-2">
                     <span className="block text-xs text-slate-400 uppercase tracking-wider font-semibold">Key Topics</span>
                     <div className="flex flex-wrap gap-2 mt-1">
@@ -489,7 +860,9 @@ const ClaimsProcessor: React.FC<ClaimsProcessorProps> = ({ documents, mode }) =>
                   </div>
                    <div className="col-span-2">
                     <span className="block text-xs text-slate-400 uppercase tracking-wider font-semibold">Description / Findings</span>
-                    <p className="text-slate-600 mt-1 text-sm bg-slate-50 p-2 rounded border border-slate-100">{extractionResult.damage_description}</p>
+                    <p className="text-slate-600 mt-1 text-sm bg-slate-50 p-2 rounded border border-slate-100">
+                      <SourcedValue field="damage_description" extraction={extractionResult} activeField={activeSource?.field || null} onSelect={handleShowSource}>{extractionResult.damage_description}</SourcedValue>
+                    </p>
                   </div>
                 </div>
               ) : (
@@ -500,9 +873,19 @@ const ClaimsProcessor: React.FC<ClaimsProcessorProps> = ({ documents, mode }) =>
             </div>
           </div>
 
+          {/* Step 1b: Evidence Checklist */}
+          {(checklist || status === ProcessingStatus.CHECKING) && (
+            <ChecklistPanel
+              checklist={checklist}
+              isChecking={status === ProcessingStatus.CHECKING}
+              isBlocked={status === ProcessingStatus.NEEDS_INFO}
+              onVerifyAnyway={handleVerifyAnyway}
+            />
+          )}
+
           {/* Arrow */}
           <div className="flex justify-center">
-             <ArrowRight className={`w-6 h-6 text-slate-300 transform rotate-90 lg:rotate-0 transition-colors duration-300 ${status === ProcessingStatus.VERIFYING || status === ProcessingStatus.COMPLETED ? 'text-blue-500' : ''}`} />
+             <ArrowRight className={`w-6 h-6 text-slate-300 transform rotate-90 lg:rotate-0 transition-colors duration-300 ${status === ProcessingStatus.VERIFYING || status === ProcessingStatus.COMPLETED || status === ProcessingStatus.IN_REVIEW ? 'text-blue-500' : ''}`} />
           </div>
 
           {/* Step 2 Result: Verification */}
@@ -514,6 +897,7 @@ const ClaimsProcessor: React.FC<ClaimsProcessorProps> = ({ documents, mode }) =>
                   Step 2: Eligibility Check
                 </h3>
                  {status === ProcessingStatus.VERIFYING && <span className="text-xs bg-indigo-100 text-indigo-700 px-2 py-1 rounded-full animate-pulse">Reasoning...</span>}
+                 {status === ProcessingStatus.IN_REVIEW && <span className="text-xs bg-amber-100 text-amber-700 px-2 py-1 rounded-full">In Review</span>}
               </div>
 
               {verificationResult ? (
@@ -530,6 +914,65 @@ const ClaimsProcessor: React.FC<ClaimsProcessorProps> = ({ documents, mode }) =>
                     </div>
                   </div>
 
+                  {claimRecord && (
+                    <div className={`mb-4 p-3 rounded-xl text-xs border ${claimRecord.status === 'pending_review' ? 'bg-amber-50 border-amber-200 text-amber-800' : 'bg-slate-50 border-slate-200 text-slate-600'}`}>
+                      <p className="font-semibold flex items-center gap-1">
+                        <ClipboardCheck className="w-3.5 h-3.5" />
+                        {claimRecord.status === 'pending_review' ? 'Sent to the review queue' : 'Approved automatically: no review thresholds were hit'}
+                      </p>
+                      {claimRecord.routing_reasons.length > 0 && (
+                        <ul className="list-disc ml-5 mt-1 space-y-0.5">
+                          {claimRecord.routing_reasons.map(r => <li key={r}>{r}</li>)}
+                        </ul>
+                      )}
+                    </div>
+                  )}
+
+                  {verificationResult.evidence_warnings && verificationResult.evidence_warnings.length > 0 && (
+                    <div className="mb-4 p-3 rounded-xl bg-orange-50 border border-orange-200 text-orange-800 text-xs">
+                      <p className="font-semibold flex items-center gap-1 mb-1">
+                        <AlertTriangle className="w-3.5 h-3.5" /> Ruled on incomplete evidence
+                      </p>
+                      <ul className="list-disc ml-5 space-y-0.5">
+                        {verificationResult.evidence_warnings.map(w => <li key={w}>{w}</li>)}
+                      </ul>
+                    </div>
+                  )}
+
+                  {verificationResult.policy_verdicts && verificationResult.policy_verdicts.length > 0 && (
+                    <PolicyVerdictList verdicts={verificationResult.policy_verdicts} />
+                  )}
+
+                  {verificationResult.payout && <PayoutTable payout={verificationResult.payout} />}
+
+                  <RuleVerdictPanel verification={verificationResult} />
+
+                  <CitationsPanel verification={verificationResult} />
+
+                  <ConsistencyPanel key={verificationResult.reasoning} verification={verificationResult} />
+
+                  {verificationResult.timeline && <ClaimTimelineView timeline={verificationResult.timeline} />}
+
+                  {verificationResult.policy_versions && (
+                    <div className="mb-4 p-3 rounded-xl border border-slate-200 bg-white text-xs">
+                      <p className="font-semibold text-slate-600 flex items-center gap-1 mb-1">
+                        <CalendarClock className="w-3.5 h-3.5 text-indigo-600" /> Policy versions used
+                      </p>
+                      <ul className="space-y-1">
+                        {verificationResult.policy_versions.map(s => (
+                          <li key={s.product} className={s.document_id ? 'text-slate-600' : 'text-amber-700'}>
+                            <span className="font-medium">{s.product}</span>
+                            {s.document_id ? `: ${s.document_name}${s.version ? ` (${s.version})` : ''}` : ': not used'}
+                            {s.version_count > 1 && <span className="text-slate-400"> · {s.version_count} versions</span>}
+                            <span className="block text-slate-400">{s.reason}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  {verificationResult.knowledge_context && <KnowledgeSourcesPanel context={verificationResult.knowledge_context} />}
+
                   <div className="space-y-4">
                      <div>
                         <span className="block text-xs text-slate-400 uppercase tracking-wider font-semibold mb-1">
@@ -550,18 +993,25 @@ const ClaimsProcessor: React.FC<ClaimsProcessorProps> = ({ documents, mode }) =>
                             ></div>
                           </div>
                           <span className="text-xs font-bold text-slate-700">{(verificationResult.confidence_score * 100).toFixed(0)}%</span>
+                          {verificationResult.original_confidence_score !== undefined && (
+                            <span className="text-[10px] text-red-500" title={verificationResult.consistency ? 'Model-reported score; the score shown is based on agreement between runs' : 'Lowered because some cited clauses could not be verified'}>
+                              (AI said {(verificationResult.original_confidence_score * 100).toFixed(0)}%)
+                            </span>
+                          )}
                         </div>
                      </div>
                   </div>
                 </div>
               ) : (
                 <div className="p-8 text-center text-slate-400 text-sm">
-                  Analysis pending extraction...
+                  {status === ProcessingStatus.NEEDS_INFO ? 'On hold: required evidence is missing (see checklist).' : 'Analysis pending extraction...'}
                 </div>
               )}
             </div>
           </div>
 
+          <FraudSignalsPanel assessment={fraudAssessment} />
+
           {errorMsg && (
              <div className="bg-red-50 text-red-700 p-4 rounded-xl border border-red-200 text-sm flex items-center gap-2 animate-pulse">
                 <AlertTriangle className="w-4 h-4" />
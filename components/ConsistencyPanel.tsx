@@ -0,0 +1,81 @@
+import React, { useRef, useState } from 'react';
+import { Repeat2, Upload } from 'lucide-react';
+import { VerificationResult } from '../types';
+import { importCalibrationSet } from '../services/calibrationService';
+
+interface ConsistencyPanelProps {
+  verification: VerificationResult;
+}
+
+const ConsistencyPanel: React.FC<ConsistencyPanelProps> = ({ verification }) => {
+  const [importNote, setImportNote] = useState<string | null>(null);
+  const importRef = useRef<HTMLInputElement>(null);
+
+  const report = verification.consistency;
+  if (!report) return null;
+
+  const runs = report.samples.length;
+  const disagreeing = report.samples.filter(s =>
+    s.is_eligible !== verification.is_eligible
+    || (s.policy_matched || '').trim().toLowerCase() !== (verification.policy_matched || '').trim().toLowerCase());
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (e.target.value) e.target.value = '';
+    if (!file) return;
+    try {
+      const added = importCalibrationSet(JSON.parse(await file.text()));
+      setImportNote(`Imported ${added} labeled decision${added === 1 ? '' : 's'}.`);
+    } catch {
+      setImportNote('Could not read that file. Expected a JSON array of { confidence, predicted_eligible, actual_eligible }.');
+    }
+  };
+
+  return (
+    <div className="mb-4 p-3 rounded-xl border border-slate-200 bg-white">
+      <div className="flex justify-between items-center mb-2">
+        <span className="text-xs font-semibold text-slate-600 flex items-center gap-1">
+          <Repeat2 className="w-3.5 h-3.5 text-indigo-600" />
+          Self-Consistency: {Math.round(report.agreement * runs)}/{runs} runs agree
+        </span>
+        <span className={`text-[10px] px-2 py-0.5 rounded-full font-medium ${report.calibrated ? 'bg-indigo-100 text-indigo-700' : 'bg-slate-100 text-slate-500'}`}>
+          {report.calibrated ? `Calibrated on ${report.calibration_size} decisions` : `Uncalibrated (${report.calibration_size} labeled)`}
+        </span>
+      </div>
+
+      <p className="text-xs text-slate-500 mb-2">
+        {report.eligible_votes} of {runs} runs found the claim eligible.
+        {!report.calibrated && ' Confidence is the raw agreement until at least 10 labeled decisions are available.'}
+      </p>
+
+      {disagreeing.length > 0 && (
+        <ul className="space-y-1.5 mb-2">
+          {disagreeing.map((s, i) => (
+            <li key={i} className="text-xs p-2 rounded-lg bg-amber-50 border border-amber-100 text-amber-800">
+              <span className="font-medium">
+                Run at temperature {s.temperature}: {s.is_eligible ? 'eligible' : 'not eligible'}
+                {s.policy_matched && ` under ${s.policy_matched}`}
+              </span>
+              <span className="block text-amber-700/80 line-clamp-2">{s.reasoning}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 pt-2 border-t border-slate-100">
+        <span className="text-xs text-slate-500">The outcome is recorded for calibration when a reviewer signs off the claim.</span>
+        <button
+          onClick={() => importRef.current?.click()}
+          className="ml-auto px-2 py-1 text-xs text-slate-500 hover:text-slate-700 flex items-center gap-1"
+          title="Import labeled past decisions (JSON)"
+        >
+          <Upload className="w-3 h-3" /> Import labeled set
+        </button>
+        <input type="file" ref={importRef} className="hidden" accept="application/json,.json" onChange={handleImport} />
+      </div>
+      {importNote && <p className="mt-1 text-[10px] text-slate-500">{importNote}</p>}
+    </div>
+  );
+};
+
+export default ConsistencyPanel;
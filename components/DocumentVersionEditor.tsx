@@ -0,0 +1,53 @@
+import React from 'react';
+import { PolicyDocument } from '../types';
+import { getProduct } from '../services/policyVersionService';
+
+interface DocumentVersionEditorProps {
+  doc: PolicyDocument;
+  onChange: (patch: Partial<PolicyDocument>) => void;
+}
+
+// Empty inputs clear the field rather than storing an empty string
+const optional = (value: string) => value.trim() || undefined;
+
+const DocumentVersionEditor: React.FC<DocumentVersionEditorProps> = ({ doc, onChange }) => (
+  <div className="mt-2 grid grid-cols-2 gap-2 text-[10px] text-slate-500">
+    <label className="col-span-2">
+      Product
+      <input
+        defaultValue={getProduct(doc)}
+        onBlur={e => onChange({ product: optional(e.target.value) })}
+        className="mt-0.5 w-full px-2 py-1 text-xs text-slate-800 border border-slate-200 rounded-md"
+      />
+    </label>
+    <label className="col-span-2">
+      Version
+      <input
+        defaultValue={doc.version || ''}
+        onBlur={e => onChange({ version: optional(e.target.value) })}
+        placeholder="e.g. 2024-25"
+        className="mt-0.5 w-full px-2 py-1 text-xs text-slate-800 border border-slate-200 rounded-md"
+      />
+    </label>
+    <label>
+      Effective from
+      <input
+        type="date"
+        value={doc.effective_from || ''}
+        onChange={e => onChange({ effective_from: optional(e.target.value) })}
+        className="mt-0.5 w-full px-1 py-1 text-xs text-slate-800 border border-slate-200 rounded-md"
+      />
+    </label>
+    <label>
+      Effective to
+      <input
+        type="date"
+        value={doc.effective_to || ''}
+        onChange={e => onChange({ effective_to: optional(e.target.value) })}
+        className="mt-0.5 w-full px-1 py-1 text-xs text-slate-800 border border-slate-200 rounded-md"
+      />
+    </label>
+  </div>
+);
+
+export default DocumentVersionEditor;
@@ -0,0 +1,63 @@
+import React from 'react';
+import { Siren, CalendarX, TrendingUp, Clock, FilePen, ImageOff, Repeat } from 'lucide-react';
+import { FraudAssessment, FraudSignalKind } from '../types';
+
+interface FraudSignalsPanelProps {
+  assessment: FraudAssessment | null;
+}
+
+const SIGNAL_ICONS: Record<FraudSignalKind, React.ReactNode> = {
+  inconsistent_dates: <CalendarX className="w-3.5 h-3.5" />,
+  unusual_amount: <TrendingUp className="w-3.5 h-3.5" />,
+  early_claim: <Clock className="w-3.5 h-3.5" />,
+  revised_estimate: <FilePen className="w-3.5 h-3.5" />,
+  document_tampering: <ImageOff className="w-3.5 h-3.5" />,
+  recurring_provider: <Repeat className="w-3.5 h-3.5" />
+};
+
+const LEVEL_STYLES = {
+  low: { label: 'Low risk', badge: 'bg-green-100 text-green-700', bar: 'bg-green-500' },
+  medium: { label: 'Medium risk', badge: 'bg-amber-100 text-amber-700', bar: 'bg-amber-500' },
+  high: { label: 'High risk', badge: 'bg-red-100 text-red-700', bar: 'bg-red-500' }
+};
+
+const SEVERITY_TEXT = { low: 'text-slate-600', medium: 'text-amber-700', high: 'text-red-700' };
+
+const FraudSignalsPanel: React.FC<FraudSignalsPanelProps> = ({ assessment }) => {
+  if (!assessment) return null;
+  const style = LEVEL_STYLES[assessment.level];
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="p-4 border-b border-slate-100 bg-slate-50 flex justify-between items-center">
+        <h3 className="font-semibold text-slate-800 flex items-center gap-2">
+          <Siren className="w-4 h-4 text-rose-600" />
+          Fraud &amp; Anomaly Signals
+        </h3>
+        <span className={`text-xs px-2 py-1 rounded-full ${style.badge}`}>{style.label} · {assessment.risk_score}/100</span>
+      </div>
+      <div className="p-4">
+        <div className="w-full h-1.5 bg-slate-100 rounded-full overflow-hidden mb-3">
+          <div className={`h-full rounded-full ${style.bar}`} style={{ width: `${assessment.risk_score}%` }}></div>
+        </div>
+        {assessment.signals.length === 0 ? (
+          <p className="text-sm text-slate-500">No indicators found.</p>
+        ) : (
+          <ul className="space-y-1.5">
+            {assessment.signals.map((signal, i) => (
+              <li key={i} className={`flex items-start gap-2 text-xs ${SEVERITY_TEXT[signal.severity]}`}>
+                <span className="mt-0.5 flex-shrink-0">{SIGNAL_ICONS[signal.kind]}</span>
+                <span>{signal.explanation}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+        <p className="mt-3 text-[10px] text-slate-400">
+          Signals only flag a claim for investigation. They do not affect the eligibility decision.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default FraudSignalsPanel;
@@ -0,0 +1,151 @@
+import React, { useRef, useState } from 'react';
+import { Download, PackageOpen, X, AlertTriangle, CheckCircle } from 'lucide-react';
+import { PolicyDocument, PolicyRuleSet } from '../types';
+import { ImportMode, KnowledgeBaseBundle, createBundle, importBundle, parseBundle } from '../services/knowledgeBundleService';
+import { hasStorageRoom } from '../services/knowledgeBaseStore';
+
+interface KnowledgeBundleControlsProps {
+  documents: PolicyDocument[];
+  rules: PolicyRuleSet[];
+  onImport: (documents: PolicyDocument[], rules: PolicyRuleSet[]) => void;
+}
+
+const KnowledgeBundleControls: React.FC<KnowledgeBundleControlsProps> = ({ documents, rules, onImport }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pending, setPending] = useState<{ bundle: KnowledgeBaseBundle; fileName: string; size: number } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  const exportBundle = async () => {
+    setBusy(true);
+    try {
+      const bundle = await createBundle(documents, rules);
+      const url = URL.createObjectURL(new Blob([JSON.stringify(bundle)], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `claimguard-kb-${bundle.exported_at.slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      console.error("Export failed:", err);
+      setMessage({ text: err.message || "Failed to export the knowledge base.", error: true });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (event.target.value) event.target.value = '';
+    if (!file) return;
+    setMessage(null);
+    try {
+      let data: unknown;
+      try {
+        data = JSON.parse(await file.text());
+      } catch {
+        throw new Error(`"${file.name}" is not valid JSON.`);
+      }
+      setPending({ bundle: parseBundle(data), fileName: file.name, size: file.size });
+    } catch (err: any) {
+      setMessage({ text: err.message, error: true });
+    }
+  };
+
+  const applyImport = async (mode: ImportMode) => {
+    if (!pending) return;
+    setBusy(true);
+    try {
+      if (!(await hasStorageRoom(pending.size))) {
+        throw new Error("Not enough browser storage left for this bundle. Remove some documents first.");
+      }
+      const result = await importBundle(pending.bundle, { documents, rules }, mode);
+      onImport(result.documents, result.rules);
+      setMessage({
+        text: `Imported ${result.added.length} document${result.added.length === 1 ? '' : 's'}`
+          + (result.duplicates.length > 0 ? `, skipped ${result.duplicates.length} already loaded (${result.duplicates.join(', ')})` : '')
+          + '.',
+        error: false
+      });
+      setPending(null);
+    } catch (err: any) {
+      console.error("Import failed:", err);
+      setMessage({ text: err.message || "Failed to import the knowledge base bundle.", error: true });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="relative flex gap-2">
+      <button
+        onClick={exportBundle}
+        disabled={busy || documents.length === 0}
+        className="px-3 py-2 text-sm font-medium text-slate-600 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 flex items-center gap-2 disabled:opacity-50"
+        title="Download the knowledge base as one bundle file"
+      >
+        <Download className="w-4 h-4" /> Export
+      </button>
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        disabled={busy}
+        className="px-3 py-2 text-sm font-medium text-slate-600 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 flex items-center gap-2 disabled:opacity-50"
+        title="Load documents from a bundle file"
+      >
+        <PackageOpen className="w-4 h-4" /> Import
+      </button>
+      <input type="file" ref={fileInputRef} className="hidden" accept=".json,application/json" onChange={handleFileSelect} />
+
+      {(pending || message) && (
+        <div className="absolute right-0 top-full mt-2 w-80 z-20 bg-white rounded-xl border border-slate-200 shadow-lg p-4 text-sm">
+          <div className="flex justify-between items-start gap-2">
+            {pending ? (
+              <div className="min-w-0">
+                <p className="font-medium text-slate-800 truncate" title={pending.fileName}>{pending.fileName}</p>
+                <p className="text-xs text-slate-500 mt-0.5">
+                  {pending.bundle.documents.length} documents · {pending.bundle.rules.length} rule sets
+                  {pending.bundle.chunk_index ? ' · search index' : ''}
+                  {pending.bundle.exported_at && ` · exported ${pending.bundle.exported_at.slice(0, 10)}`}
+                </p>
+              </div>
+            ) : message && (
+              <p className={`text-xs flex items-start gap-1.5 ${message.error ? 'text-red-700' : 'text-green-700'}`}>
+                {message.error ? <AlertTriangle className="w-4 h-4 flex-shrink-0" /> : <CheckCircle className="w-4 h-4 flex-shrink-0" />}
+                {message.text}
+              </p>
+            )}
+            <button onClick={() => { setPending(null); setMessage(null); }} className="text-slate-400 hover:text-slate-600 flex-shrink-0">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          {pending && (
+            <>
+              {message?.error && <p className="mt-2 text-xs text-red-700">{message.text}</p>}
+              <p className="mt-3 text-xs text-slate-500">
+                Merge adds documents that are not already loaded. Replace removes the current documents and rules first.
+              </p>
+              <div className="mt-3 flex justify-end gap-2">
+                <button
+                  onClick={() => applyImport('replace')}
+                  disabled={busy}
+                  className="px-3 py-1.5 text-xs font-medium text-red-600 border border-red-200 rounded-md hover:bg-red-50 disabled:opacity-50"
+                >
+                  Replace
+                </button>
+                <button
+                  onClick={() => applyImport('merge')}
+                  disabled={busy}
+                  className="px-3 py-1.5 text-xs font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Merge
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default KnowledgeBundleControls;
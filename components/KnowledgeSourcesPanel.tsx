@@ -0,0 +1,57 @@
+import React from 'react';
+import { Layers3 } from 'lucide-react';
+import { KnowledgeContext } from '../types';
+
+interface KnowledgeSourcesPanelProps {
+  context: KnowledgeContext;
+  compact?: boolean; // one-line list for chat messages
+}
+
+const sectionLabel = (chunk: KnowledgeContext['chunks'][number]) =>
+  [chunk.document_name, chunk.page ? `p. ${chunk.page}` : '', chunk.section || ''].filter(Boolean).join(' · ');
+
+const KnowledgeSourcesPanel: React.FC<KnowledgeSourcesPanelProps> = ({ context, compact }) => {
+  if (context.mode === 'full') {
+    return compact ? null : (
+      <p className="mb-4 text-[10px] text-slate-400 flex items-center gap-1">
+        <Layers3 className="w-3 h-3" />
+        Full Knowledge Base used ({context.whole_documents.length} document{context.whole_documents.length === 1 ? '' : 's'}{context.cached ? ', from context cache' : ''}).
+      </p>
+    );
+  }
+
+  if (compact) {
+    return (
+      <p className="mt-1 text-[10px] text-slate-400">
+        Sources: {context.chunks.map(sectionLabel).join('; ')}
+      </p>
+    );
+  }
+
+  return (
+    <details className="mb-4 p-3 rounded-xl border border-slate-200 bg-white">
+      <summary className="text-xs font-semibold text-slate-600 cursor-pointer flex items-center gap-1">
+        <Layers3 className="w-3.5 h-3.5 text-indigo-600" />
+        Based on {context.chunks.length} retrieved Knowledge Base section{context.chunks.length === 1 ? '' : 's'}
+      </summary>
+      <ul className="mt-2 space-y-1.5">
+        {context.chunks.map(chunk => (
+          <li key={chunk.id} className="text-xs">
+            <div className="flex justify-between gap-2">
+              <span className="font-medium text-slate-700">{sectionLabel(chunk)}</span>
+              <span className="text-slate-400">{(chunk.score * 100).toFixed(0)}% match</span>
+            </div>
+            <p className="text-slate-500 line-clamp-2">{chunk.text}</p>
+          </li>
+        ))}
+      </ul>
+      {context.whole_documents.length > 0 && (
+        <p className="mt-2 text-[10px] text-slate-400">
+          Sent in full (no text to index{context.cached ? ', from context cache' : ''}): {context.whole_documents.join(', ')}
+        </p>
+      )}
+    </details>
+  );
+};
+
+export default KnowledgeSourcesPanel;
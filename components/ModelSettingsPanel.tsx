@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { SlidersHorizontal, X } from 'lucide-react';
+import { ModelProfile, ModelSettings, ModelTask } from '../types';
+import { DEFAULT_MODEL_SETTINGS, MODEL_TASK_LABELS, loadModelSettings, saveModelSettings, validateModelProfile } from '../services/modelSettingsService';
+import { getProvider } from '../services/llmProvider';
+
+const TASK_HINTS: Record<ModelTask, string> = {
+  extraction: 'Reading claims and evidence, the requirements lookup and policy summaries',
+  verification: 'The eligibility decision',
+  chat: 'The policy assistant'
+};
+
+// Empty inputs mean "use the provider's default"
+const toNumber = (value: string): number | null => (value.trim() === '' ? null : Number(value));
+
+const ModelSettingsPanel: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<ModelSettings>(loadModelSettings);
+  const [task, setTask] = useState<ModelTask>('verification');
+  const tasks = Object.keys(MODEL_TASK_LABELS) as ModelTask[];
+  const errors = tasks.map(t => validateModelProfile(draft[t], getProvider().model));
+  const error = errors.find(e => e !== null) ?? null;
+  const profile = draft[task];
+
+  const setProfile = (patch: Partial<ModelProfile>) => setDraft({ ...draft, [task]: { ...profile, ...patch } });
+
+  const save = () => {
+    saveModelSettings(Object.fromEntries(tasks.map(t => [t, { ...draft[t], model: draft[t].model.trim() }])) as ModelSettings);
+    setIsOpen(false);
+  };
+
+  const numberField = (label: string, value: number | null, onChange: (value: number | null) => void, step: number) => (
+    <label className="block text-slate-500">
+      {label}
+      <input
+        type="number"
+        step={step}
+        value={value ?? ''}
+        onChange={e => onChange(toNumber(e.target.value))}
+        placeholder="Default"
+        className="mt-0.5 w-full px-2 py-1 border border-slate-200 rounded-md text-slate-800"
+      />
+    </label>
+  );
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => { setDraft(loadModelSettings()); setIsOpen(!isOpen); }}
+        className="p-1.5 rounded-md text-slate-500 hover:text-slate-800 hover:bg-slate-100"
+        title="Model settings"
+      >
+        <SlidersHorizontal className="w-4 h-4" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-2 w-80 z-50 bg-white rounded-xl border border-slate-200 shadow-lg p-4 text-sm space-y-3">
+          <div className="flex justify-between items-center">
+            <h3 className="font-semibold text-slate-800">Model Settings</h3>
+            <button onClick={() => setIsOpen(false)} className="text-slate-400 hover:text-slate-600"><X className="w-4 h-4" /></button>
+          </div>
+          <div className="flex bg-slate-100 p-1 rounded-lg">
+            {tasks.map((t, i) => (
+              <button
+                key={t}
+                onClick={() => setTask(t)}
+                className={`flex-1 px-2 py-1 rounded-md text-xs font-medium ${task === t ? 'bg-white text-blue-600 shadow-sm' : errors[i] ? 'text-red-600' : 'text-slate-500 hover:text-slate-800'}`}
+              >
+                {MODEL_TASK_LABELS[t]}
+              </button>
+            ))}
+          </div>
+          <p className="text-[10px] text-slate-400">{TASK_HINTS[task]}</p>
+
+          <div className="space-y-2 text-xs">
+            <label className="block text-slate-500">
+              Model ID
+              <input
+                value={profile.model}
+                onChange={e => setProfile({ model: e.target.value })}
+                placeholder={getProvider().model}
+                className="mt-0.5 w-full px-2 py-1 border border-slate-200 rounded-md text-slate-800"
+              />
+            </label>
+            <div className="grid grid-cols-3 gap-2">
+              {numberField('Temperature', profile.temperature, temperature => setProfile({ temperature }), 0.1)}
+              {numberField('Max output', profile.max_output_tokens, max_output_tokens => setProfile({ max_output_tokens }), 256)}
+              {numberField('Thinking', profile.thinking_budget, thinking_budget => setProfile({ thinking_budget }), 256)}
+            </div>
+            <p className="text-[10px] text-slate-400">
+              Empty fields use the provider's defaults. The thinking budget only applies to Gemini: 0 turns thinking off (not on Pro models), -1 lets the model decide.
+              {task === 'verification' && ' Self-consistency runs set their own temperatures.'}
+            </p>
+          </div>
+
+          {error && <p className="text-xs text-red-600">{MODEL_TASK_LABELS[tasks[errors.indexOf(error)]]}: {error}</p>}
+          <div className="flex justify-between">
+            <button onClick={() => setDraft(DEFAULT_MODEL_SETTINGS)} className="px-3 py-1 text-xs text-slate-500 hover:text-slate-700">Reset</button>
+            <button onClick={save} disabled={!!error} className="px-3 py-1 text-xs text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50">Save</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ModelSettingsPanel;
@@ -0,0 +1,66 @@
+import React from 'react';
+import { Receipt } from 'lucide-react';
+import { PayoutBreakdown, PayoutLineKind } from '../types';
+import { formatAmount } from '../services/normalizationService';
+
+interface PayoutTableProps {
+  payout: PayoutBreakdown;
+}
+
+const KIND_LABELS: Record<PayoutLineKind, string> = {
+  non_payable: 'Non-payable',
+  sub_limit: 'Sub-limit',
+  co_pay: 'Co-pay',
+  deductible: 'Deductible'
+};
+
+const PayoutTable: React.FC<PayoutTableProps> = ({ payout }) => {
+  const format = (value: number) => formatAmount({ value, currency: payout.currency, approximate: false, original: '' });
+
+  const describe = (kind: PayoutLineKind, amount?: number, percent?: number) => {
+    if (kind === 'sub_limit' && amount !== undefined) return `capped at ${format(amount)}`;
+    if (kind === 'co_pay' && percent !== undefined) return `${percent}% borne by claimant`;
+    return null;
+  };
+
+  return (
+    <div className="mb-4 rounded-xl border border-slate-200 overflow-hidden">
+      <div className="px-3 py-2 bg-slate-50 border-b border-slate-100 text-xs font-semibold text-slate-600 flex items-center gap-1">
+        <Receipt className="w-3.5 h-3.5 text-indigo-600" />
+        Payout Breakdown
+      </div>
+      <table className="w-full text-xs">
+        <tbody className="divide-y divide-slate-100">
+          <tr>
+            <td className="px-3 py-2 align-top">
+              <span className="font-medium text-slate-700">Claimed amount</span>
+              {payout.claimed_clause && <span className="block text-slate-400 italic">{payout.claimed_clause}</span>}
+            </td>
+            <td className="px-3 py-2 text-right font-medium text-slate-700 whitespace-nowrap align-top">{format(payout.claimed_amount)}</td>
+          </tr>
+          {payout.lines.map((line, i) => (
+            <tr key={`${line.kind}-${i}`}>
+              <td className="px-3 py-2 align-top">
+                <span className="text-slate-700">
+                  <span className="text-[10px] uppercase tracking-wide text-slate-400 mr-1">{KIND_LABELS[line.kind]}</span>
+                  {line.label}
+                  {describe(line.kind, line.amount, line.percent) && <span className="text-slate-400"> ({describe(line.kind, line.amount, line.percent)})</span>}
+                </span>
+                {line.clause && <span className="block text-slate-400 italic">{line.clause}</span>}
+              </td>
+              <td className="px-3 py-2 text-right text-red-600 whitespace-nowrap align-top">
+                {line.deduction > 0 ? `− ${format(line.deduction)}` : format(0)}
+              </td>
+            </tr>
+          ))}
+          <tr className="bg-green-50">
+            <td className="px-3 py-2 font-bold text-green-800">Payable amount</td>
+            <td className="px-3 py-2 text-right font-bold text-green-800 whitespace-nowrap">{format(payout.payable_amount)}</td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default PayoutTable;
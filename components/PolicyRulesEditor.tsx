@@ -0,0 +1,207 @@
+import React from 'react';
+import { Scale, Plus, Trash2, Wand2, Loader2 } from 'lucide-react';
+import { ClaimDomain, PolicyDocument, PolicyRuleSet, PolicyRuleTerm } from '../types';
+import { CLAIM_DOMAIN_LABELS } from '../services/claimSchema';
+import { termFromLabel } from '../services/ruleEngineService';
+
+interface PolicyRulesEditorProps {
+  rules: PolicyRuleSet[];
+  documents: PolicyDocument[];
+  compilingId: string | null; // document currently being compiled by the cloud model
+  onChange: (rules: PolicyRuleSet[]) => void;
+  onCompile: (doc: PolicyDocument) => void;
+}
+
+// One term per line: "Label: keyword, keyword"
+const termsToText = (terms: PolicyRuleTerm[]) => terms.map(t => `${t.label}: ${t.keywords.join(', ')}`).join('\n');
+
+const textToTerms = (text: string): PolicyRuleTerm[] =>
+  text.split('\n').map(line => line.trim()).filter(Boolean).map(line => {
+    const colon = line.indexOf(':');
+    if (colon === -1) return termFromLabel(line);
+    const label = line.slice(0, colon).trim();
+    const keywords = line.slice(colon + 1).split(',').map(k => k.trim().toLowerCase()).filter(Boolean);
+    return keywords.length > 0 ? { label, keywords } : termFromLabel(label);
+  });
+
+const parseOptionalNumber = (value: string) => {
+  const n = parseFloat(value);
+  return isNaN(n) ? undefined : n;
+};
+
+const PolicyRulesEditor: React.FC<PolicyRulesEditorProps> = ({ rules, documents, compilingId, onChange, onCompile }) => {
+  const updateRuleSet = (id: string, patch: Partial<PolicyRuleSet>) => {
+    onChange(rules.map(r => (r.id === id ? { ...r, ...patch } : r)));
+  };
+
+  const addRuleSet = () => {
+    onChange([...rules, { id: `manual-${Date.now()}`, policy_name: 'New policy', domain: 'general', covered_incidents: [], exclusions: [] }]);
+  };
+
+  const uncompiledDocs = documents.filter(doc => !rules.some(r => r.document_id === doc.id));
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm mb-8">
+      <div className="p-4 border-b border-slate-100 flex justify-between items-center">
+        <div>
+          <h3 className="font-semibold text-slate-800 flex items-center gap-2">
+            <Scale className="w-4 h-4 text-indigo-600" />
+            Policy Rules ({rules.length})
+          </h3>
+          <p className="text-xs text-slate-500 mt-0.5">
+            Deterministic checks run next to the AI verdict. One term per line as <code>Label: keyword, keyword</code>.
+          </p>
+        </div>
+        <button
+          onClick={addRuleSet}
+          className="px-3 py-1.5 text-xs font-medium text-slate-600 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 flex items-center gap-1"
+        >
+          <Plus className="w-3 h-3" /> Add Rule Set
+        </button>
+      </div>
+
+      {uncompiledDocs.length > 0 && (
+        <div className="px-4 py-3 bg-slate-50 border-b border-slate-100 flex flex-wrap items-center gap-2 text-xs text-slate-600">
+          <span>No rules yet for:</span>
+          {uncompiledDocs.map(doc => (
+            <button
+              key={doc.id}
+              onClick={() => onCompile(doc)}
+              disabled={compilingId !== null}
+              className="flex items-center gap-1 px-2 py-1 bg-white border border-slate-200 rounded-md hover:border-indigo-300 hover:text-indigo-700 disabled:opacity-50"
+              title="Compile rules from this document"
+            >
+              {compilingId === doc.id ? <Loader2 className="w-3 h-3 animate-spin" /> : <Wand2 className="w-3 h-3" />}
+              {doc.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="divide-y divide-slate-100">
+        {rules.map(ruleSet => (
+          <div key={ruleSet.id} className="p-4 space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                value={ruleSet.policy_name}
+                onChange={e => updateRuleSet(ruleSet.id, { policy_name: e.target.value })}
+                className="flex-1 min-w-[12rem] px-2 py-1 text-sm font-medium border border-slate-200 rounded-md"
+              />
+              <input
+                value={ruleSet.policy_number || ''}
+                onChange={e => updateRuleSet(ruleSet.id, { policy_number: e.target.value || undefined })}
+                placeholder="Policy #"
+                className="w-24 px-2 py-1 text-sm border border-slate-200 rounded-md"
+              />
+              <select
+                value={ruleSet.domain}
+                onChange={e => updateRuleSet(ruleSet.id, { domain: e.target.value as ClaimDomain })}
+                className="px-2 py-1 text-sm border border-slate-200 rounded-md bg-white"
+              >
+                {(Object.keys(CLAIM_DOMAIN_LABELS) as ClaimDomain[]).map(domain => (
+                  <option key={domain} value={domain}>{CLAIM_DOMAIN_LABELS[domain]}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => onChange(rules.filter(r => r.id !== ruleSet.id))}
+                className="text-slate-300 hover:text-red-500 transition-colors p-1"
+                title="Delete rule set"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <label className="text-xs font-medium text-slate-500">
+                Covered incidents
+                <textarea
+                  key={`${ruleSet.id}-covered-${termsToText(ruleSet.covered_incidents)}`}
+                  defaultValue={termsToText(ruleSet.covered_incidents)}
+                  onBlur={e => updateRuleSet(ruleSet.id, { covered_incidents: textToTerms(e.target.value) })}
+                  rows={3}
+                  className="mt-1 w-full px-2 py-1 text-xs font-mono text-slate-700 border border-slate-200 rounded-md"
+                />
+              </label>
+              <label className="text-xs font-medium text-slate-500">
+                Exclusions
+                <textarea
+                  key={`${ruleSet.id}-exclusions-${termsToText(ruleSet.exclusions)}`}
+                  defaultValue={termsToText(ruleSet.exclusions)}
+                  onBlur={e => updateRuleSet(ruleSet.id, { exclusions: textToTerms(e.target.value) })}
+                  rows={3}
+                  className="mt-1 w-full px-2 py-1 text-xs font-mono text-slate-700 border border-slate-200 rounded-md"
+                />
+              </label>
+            </div>
+
+            <div className="flex flex-wrap gap-4 text-xs text-slate-500">
+              <label className="flex items-center gap-1">
+                Deductible
+                <input
+                  type="number"
+                  value={ruleSet.deductible?.value ?? ''}
+                  onChange={e => {
+                    const value = parseOptionalNumber(e.target.value);
+                    updateRuleSet(ruleSet.id, { deductible: value !== undefined ? { value, currency: ruleSet.deductible?.currency ?? null } : undefined });
+                  }}
+                  className="w-24 px-2 py-1 border border-slate-200 rounded-md"
+                />
+                {ruleSet.deductible?.currency}
+              </label>
+              <label className="flex items-center gap-1">
+                Waiting period (days)
+                <input
+                  type="number"
+                  value={ruleSet.waiting_period_days ?? ''}
+                  onChange={e => updateRuleSet(ruleSet.id, { waiting_period_days: parseOptionalNumber(e.target.value) })}
+                  className="w-20 px-2 py-1 border border-slate-200 rounded-md"
+                />
+              </label>
+              <label className="flex items-center gap-1">
+                Notify within (days)
+                <input
+                  type="number"
+                  value={ruleSet.notification_window_days ?? ''}
+                  onChange={e => updateRuleSet(ruleSet.id, { notification_window_days: parseOptionalNumber(e.target.value) })}
+                  className="w-20 px-2 py-1 border border-slate-200 rounded-md"
+                />
+              </label>
+              <label className="flex items-center gap-1">
+                Effective
+                <input
+                  type="date"
+                  value={ruleSet.effective_from || ''}
+                  onChange={e => updateRuleSet(ruleSet.id, { effective_from: e.target.value || undefined })}
+                  className="px-2 py-1 border border-slate-200 rounded-md"
+                />
+                to
+                <input
+                  type="date"
+                  value={ruleSet.effective_to || ''}
+                  onChange={e => updateRuleSet(ruleSet.id, { effective_to: e.target.value || undefined })}
+                  className="px-2 py-1 border border-slate-200 rounded-md"
+                />
+              </label>
+              {ruleSet.domain === 'travel' && (
+                <label className="flex items-center gap-1">
+                  Max trip (days)
+                  <input
+                    type="number"
+                    value={ruleSet.max_trip_days ?? ''}
+                    onChange={e => updateRuleSet(ruleSet.id, { max_trip_days: parseOptionalNumber(e.target.value) })}
+                    className="w-20 px-2 py-1 border border-slate-200 rounded-md"
+                  />
+                </label>
+              )}
+            </div>
+          </div>
+        ))}
+        {rules.length === 0 && (
+          <p className="p-6 text-center text-sm text-slate-400">No policy rules. Compile them from a document or add a rule set by hand.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PolicyRulesEditor;
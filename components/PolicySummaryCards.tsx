@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { FileSearch, Pencil, Loader2, RotateCcw, Sparkles } from 'lucide-react';
+import { ClaimDomain, PolicyDocument, PolicySummary } from '../types';
+import { CLAIM_DOMAIN_LABELS } from '../services/claimSchema';
+
+interface PolicySummaryCardsProps {
+  documents: PolicyDocument[];
+  onSummarize: (doc: PolicyDocument) => void;
+  onChange: (documentId: string, summaries: PolicySummary[]) => void;
+}
+
+interface SummaryCardProps {
+  summary: PolicySummary;
+  documentName: string;
+  onSave: (summary: PolicySummary) => void;
+}
+
+const LIST_FIELDS: { key: 'covered_incidents' | 'exclusions' | 'deductibles' | 'limits'; label: string; chip: string }[] = [
+  { key: 'covered_incidents', label: 'Covers', chip: 'bg-green-50 text-green-700' },
+  { key: 'exclusions', label: 'Excludes', chip: 'bg-red-50 text-red-700' },
+  { key: 'deductibles', label: 'Deductibles', chip: 'bg-slate-100 text-slate-700' },
+  { key: 'limits', label: 'Limits', chip: 'bg-amber-50 text-amber-700' }
+];
+
+// One list item per line
+const linesToList = (text: string) => text.split('\n').map(l => l.trim()).filter(Boolean);
+
+const SummaryCard: React.FC<SummaryCardProps> = ({ summary, documentName, onSave }) => {
+  const [draft, setDraft] = useState<PolicySummary | null>(null);
+
+  if (draft) {
+    return (
+      <div className="bg-white p-4 rounded-xl border border-blue-300 shadow-sm space-y-2 text-xs">
+        <div className="grid grid-cols-2 gap-2">
+          <input
+            value={draft.policy_name}
+            onChange={e => setDraft({ ...draft, policy_name: e.target.value })}
+            placeholder="Policy name"
+            className="col-span-2 px-2 py-1 border border-slate-200 rounded-md text-sm font-medium"
+          />
+          <input
+            value={draft.policy_number || ''}
+            onChange={e => setDraft({ ...draft, policy_number: e.target.value || undefined })}
+            placeholder="Policy number"
+            className="px-2 py-1 border border-slate-200 rounded-md"
+          />
+          <select
+            value={draft.line_of_business}
+            onChange={e => setDraft({ ...draft, line_of_business: e.target.value as ClaimDomain })}
+            className="px-2 py-1 border border-slate-200 rounded-md bg-white"
+          >
+            {Object.entries(CLAIM_DOMAIN_LABELS).map(([key, label]) => <option key={key} value={key}>{label}</option>)}
+          </select>
+        </div>
+        {LIST_FIELDS.map(field => (
+          <label key={field.key} className="block text-slate-500">
+            {field.label} (one per line)
+            <textarea
+              defaultValue={draft[field.key].join('\n')}
+              onChange={e => setDraft({ ...draft, [field.key]: linesToList(e.target.value) })}
+              rows={3}
+              className="mt-0.5 w-full px-2 py-1 border border-slate-200 rounded-md text-slate-800"
+            />
+          </label>
+        ))}
+        <input
+          value={draft.territory || ''}
+          onChange={e => setDraft({ ...draft, territory: e.target.value || undefined })}
+          placeholder="Territory"
+          className="w-full px-2 py-1 border border-slate-200 rounded-md"
+        />
+        <div className="flex justify-end gap-2">
+          <button onClick={() => setDraft(null)} className="px-3 py-1 text-slate-600 border border-slate-200 rounded-md hover:bg-slate-50">Cancel</button>
+          <button
+            onClick={() => { onSave(draft); setDraft(null); }}
+            disabled={!draft.policy_name.trim()}
+            className="px-3 py-1 text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm text-xs">
+      <div className="flex justify-between items-start gap-2 mb-2">
+        <div className="min-w-0">
+          <h4 className="font-semibold text-sm text-slate-900">{summary.policy_name}</h4>
+          <p className="text-slate-400 truncate" title={documentName}>
+            {summary.policy_number ? `${summary.policy_number} · ` : ''}{documentName}
+          </p>
+        </div>
+        <div className="flex items-center gap-1 flex-shrink-0">
+          <span className="text-[10px] px-2 py-0.5 rounded-full bg-indigo-50 text-indigo-700">
+            {CLAIM_DOMAIN_LABELS[summary.line_of_business] || summary.line_of_business}
+          </span>
+          <button onClick={() => setDraft(summary)} className="p-1 text-slate-300 hover:text-blue-600" title="Edit summary">
+            <Pencil className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+      <div className="space-y-1.5">
+        {LIST_FIELDS.map(field => summary[field.key].length > 0 && (
+          <div key={field.key} className="flex flex-wrap items-center gap-1">
+            <span className="text-slate-500 w-20 flex-shrink-0">{field.label}</span>
+            {summary[field.key].map(item => (
+              <span key={item} className={`px-1.5 py-0.5 rounded ${field.chip}`}>{item}</span>
+            ))}
+          </div>
+        ))}
+        {summary.territory && (
+          <div className="flex items-center gap-1">
+            <span className="text-slate-500 w-20 flex-shrink-0">Territory</span>
+            <span className="text-slate-700">{summary.territory}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const PolicySummaryCards: React.FC<PolicySummaryCardsProps> = ({ documents, onSummarize, onChange }) => {
+  if (documents.length === 0) return null;
+
+  return (
+    <div className="mb-8">
+      <h3 className="font-semibold text-sm text-slate-800 flex items-center gap-2 mb-3">
+        <FileSearch className="w-4 h-4 text-indigo-600" />
+        Policy Summaries
+      </h3>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {documents.map(doc => {
+          if (doc.summary_status === 'pending') {
+            return (
+              <div key={doc.id} className="p-4 rounded-xl border border-dashed border-slate-300 text-xs text-slate-500 flex items-center gap-2">
+                <Loader2 className="w-4 h-4 animate-spin" /> Summarizing {doc.name}...
+              </div>
+            );
+          }
+          if (!doc.summaries || doc.summaries.length === 0) {
+            return (
+              <div key={doc.id} className="p-4 rounded-xl border border-dashed border-slate-300 text-xs text-slate-500 flex items-center justify-between gap-2">
+                <span className="truncate" title={doc.name}>
+                  {doc.summary_status === 'failed' ? `Could not summarize ${doc.name}.` : `${doc.name} has no summary yet.`}
+                </span>
+                <button
+                  onClick={() => onSummarize(doc)}
+                  className="px-2 py-1 border border-slate-200 rounded-md bg-white hover:bg-slate-50 flex items-center gap-1 flex-shrink-0"
+                >
+                  {doc.summary_status === 'failed' ? <RotateCcw className="w-3 h-3" /> : <Sparkles className="w-3 h-3" />}
+                  {doc.summary_status === 'failed' ? 'Retry' : 'Summarize'}
+                </button>
+              </div>
+            );
+          }
+          return doc.summaries.map((summary, i) => (
+            <SummaryCard
+              key={`${doc.id}-${i}`}
+              summary={summary}
+              documentName={doc.name}
+              onSave={updated => onChange(doc.id, doc.summaries!.map((s, j) => (j === i ? updated : s)))}
+            />
+          ));
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default PolicySummaryCards;
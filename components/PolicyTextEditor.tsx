@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { ClipboardPaste, X } from 'lucide-react';
+
+interface PolicyTextEditorProps {
+  onAdd: (name: string, content: string) => void;
+  onClose: () => void;
+}
+
+const PolicyTextEditor: React.FC<PolicyTextEditorProps> = ({ onAdd, onClose }) => {
+  const [name, setName] = useState('');
+  const [content, setContent] = useState('');
+
+  const handleAdd = () => {
+    if (!content.trim()) return;
+    onAdd(name.trim() || `Pasted_Policy_${new Date().toISOString().slice(0, 10)}.txt`, content.trim());
+    setName('');
+    setContent('');
+  };
+
+  return (
+    <div className="mb-6 bg-white rounded-xl border border-slate-200 shadow-sm p-4">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="font-semibold text-sm text-slate-800 flex items-center gap-2">
+          <ClipboardPaste className="w-4 h-4 text-indigo-600" />
+          Paste Policy Text
+        </h3>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600 p-1" title="Close">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <input
+        value={name}
+        onChange={e => setName(e.target.value)}
+        placeholder="Document name (e.g. MotorSecure_Wording_2024.txt)"
+        className="w-full mb-2 px-3 py-2 text-sm border border-slate-300 rounded-lg"
+      />
+      <textarea
+        value={content}
+        onChange={e => setContent(e.target.value)}
+        rows={10}
+        placeholder={"1. **Policy Name (Policy #AB-101)**\n   - **Coverage:** ...\n   - **Covered Incidents:** ...\n   - **Exclusions:** ..."}
+        className="w-full px-3 py-2 text-sm font-mono border border-slate-300 rounded-lg"
+      />
+      <p className="text-[10px] text-slate-400 mt-1">
+        Policies in the numbered layout above get their rules compiled automatically.
+      </p>
+      <div className="flex justify-end mt-2">
+        <button
+          onClick={handleAdd}
+          disabled={!content.trim()}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+        >
+          Add to Knowledge Base
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PolicyTextEditor;
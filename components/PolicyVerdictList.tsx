@@ -0,0 +1,53 @@
+import React from 'react';
+import { ListOrdered, UserCheck } from 'lucide-react';
+import { PolicyVerdict } from '../types';
+
+interface PolicyVerdictListProps {
+  verdicts: PolicyVerdict[];
+}
+
+const VERDICT_STYLES: Record<PolicyVerdict['verdict'], { label: string; className: string; bar: string }> = {
+  covered: { label: 'Covered', className: 'bg-green-100 text-green-700', bar: 'bg-green-500' },
+  excluded: { label: 'Excluded', className: 'bg-red-100 text-red-700', bar: 'bg-red-400' },
+  not_applicable: { label: 'Not applicable', className: 'bg-slate-100 text-slate-500', bar: 'bg-slate-300' }
+};
+
+const PolicyVerdictList: React.FC<PolicyVerdictListProps> = ({ verdicts }) => (
+  <div className="mb-4 p-3 rounded-xl border border-slate-200 bg-white">
+    <span className="text-xs font-semibold text-slate-600 flex items-center gap-1 mb-2">
+      <ListOrdered className="w-3.5 h-3.5 text-indigo-600" />
+      Candidate Policies ({verdicts.length})
+    </span>
+    <ol className="space-y-2">
+      {verdicts.map((v, i) => (
+        <li
+          key={`${v.policy_name}-${i}`}
+          className={`p-2 rounded-lg text-xs ${v.selected ? 'bg-indigo-50 border border-indigo-200' : 'border border-transparent'}`}
+        >
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-medium text-slate-800 min-w-0 truncate" title={v.policy_name}>
+              <span className="text-slate-400 mr-1">{i + 1}.</span>
+              {v.policy_name}
+            </span>
+            <span className={`flex-shrink-0 px-2 py-0.5 rounded-full text-[10px] font-medium ${VERDICT_STYLES[v.verdict].className}`}>
+              {VERDICT_STYLES[v.verdict].label}
+            </span>
+          </div>
+          <div className="flex items-center gap-2 mt-1">
+            <div className="w-20 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+              <div className={`h-full rounded-full ${VERDICT_STYLES[v.verdict].bar}`} style={{ width: `${v.score * 100}%` }}></div>
+            </div>
+            <span className="text-[10px] text-slate-400">{(v.score * 100).toFixed(0)}% fit</span>
+            {v.named_by_claimant && (
+              <span className="text-[10px] text-indigo-600 flex items-center gap-0.5"><UserCheck className="w-3 h-3" /> Named by claimant</span>
+            )}
+            {v.selected && <span className="text-[10px] font-semibold text-indigo-700">Decision based on this policy</span>}
+          </div>
+          <p className="mt-1 text-slate-600">{v.reason}</p>
+        </li>
+      ))}
+    </ol>
+  </div>
+);
+
+export default PolicyVerdictList;
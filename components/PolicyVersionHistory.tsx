@@ -0,0 +1,59 @@
+import React from 'react';
+import { History } from 'lucide-react';
+import { PolicyDocument } from '../types';
+import { groupByProduct, isInForce } from '../services/policyVersionService';
+
+interface PolicyVersionHistoryProps {
+  documents: PolicyDocument[];
+}
+
+// Only the newest version in force counts; older overlapping ones are superseded by it
+const versionStatus = (doc: PolicyDocument, current: PolicyDocument | undefined, today: string) => {
+  if (doc === current) return { label: 'In force', style: 'bg-green-100 text-green-700' };
+  if (doc.effective_from && doc.effective_from > today) return { label: 'Upcoming', style: 'bg-sky-100 text-sky-700' };
+  return { label: 'Superseded', style: 'bg-slate-100 text-slate-500' };
+};
+
+const PolicyVersionHistory: React.FC<PolicyVersionHistoryProps> = ({ documents }) => {
+  const versioned = groupByProduct(documents).filter(g => g.versions.length > 1);
+  if (versioned.length === 0) return null;
+  const today = new Date().toISOString().slice(0, 10);
+
+  return (
+    <div className="mb-8 bg-white rounded-xl border border-slate-200 shadow-sm p-4">
+      <h3 className="font-semibold text-sm text-slate-800 flex items-center gap-2 mb-3">
+        <History className="w-4 h-4 text-indigo-600" />
+        Version History
+      </h3>
+      <div className="space-y-4">
+        {versioned.map(({ product, versions }) => {
+          const current = versions.find(v => isInForce(v, today));
+          return (
+            <div key={product}>
+              <p className="text-xs font-semibold text-slate-700 mb-1">{product}</p>
+              <ol className="border-l-2 border-slate-100 ml-1 space-y-1">
+                {versions.map(doc => {
+                  const status = versionStatus(doc, current, today);
+                  return (
+                    <li key={doc.id} className="pl-3 text-xs flex flex-wrap items-center gap-2">
+                      <span className="text-slate-700">{doc.version || doc.name}</span>
+                      <span className="text-slate-400">
+                        {doc.effective_from || doc.effective_to ? `${doc.effective_from || '…'} → ${doc.effective_to || '…'}` : 'No effective dates'}
+                      </span>
+                      <span className={`text-[10px] px-1.5 py-0.5 rounded ${status.style}`}>{status.label}</span>
+                    </li>
+                  );
+                })}
+              </ol>
+            </div>
+          );
+        })}
+      </div>
+      <p className="mt-3 text-[10px] text-slate-400">
+        Claims are checked against the version in force on their incident date. Without effective dates the newest version is used.
+      </p>
+    </div>
+  );
+};
+
+export default PolicyVersionHistory;
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { Server, X } from 'lucide-react';
+import { LlmProviderSettings } from '../types';
+import { DEFAULT_PROVIDER_SETTINGS, loadProviderSettings, saveProviderSettings } from '../services/llmProvider';
+
+// Problems that would make every call fail, shown before saving
+const validate = (settings: LlmProviderSettings): string | null => {
+  if (settings.provider !== 'openai') return null;
+  if (!/^https?:\/\/\S+$/.test(settings.openai.base_url.trim())) return 'Base URL must start with http:// or https://';
+  if (!settings.openai.model.trim()) return 'Enter the model name the server expects';
+  if (!(settings.openai.context_tokens >= 1024)) return 'Context window must be at least 1024 tokens';
+  return null;
+};
+
+interface ProviderSettingsPanelProps {
+  onSave: (settings: LlmProviderSettings) => void;
+}
+
+const ProviderSettingsPanel: React.FC<ProviderSettingsPanelProps> = ({ onSave }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<LlmProviderSettings>(loadProviderSettings);
+  const error = validate(draft);
+
+  const setOpenAi = (patch: Partial<LlmProviderSettings['openai']>) => setDraft({ ...draft, openai: { ...draft.openai, ...patch } });
+
+  const save = () => {
+    const settings = { ...draft, openai: { ...draft.openai, base_url: draft.openai.base_url.trim(), model: draft.openai.model.trim() } };
+    saveProviderSettings(settings);
+    onSave(settings);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => { setDraft(loadProviderSettings()); setIsOpen(!isOpen); }}
+        className="p-1.5 rounded-md text-slate-500 hover:text-slate-800 hover:bg-slate-100"
+        title="Model provider"
+      >
+        <Server className="w-4 h-4" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-2 w-80 z-50 bg-white rounded-xl border border-slate-200 shadow-lg p-4 text-sm space-y-3">
+          <div className="flex justify-between items-center">
+            <h3 className="font-semibold text-slate-800">Model Provider</h3>
+            <button onClick={() => setIsOpen(false)} className="text-slate-400 hover:text-slate-600"><X className="w-4 h-4" /></button>
+          </div>
+          <select
+            value={draft.provider}
+            onChange={e => setDraft({ ...draft, provider: e.target.value as LlmProviderSettings['provider'] })}
+            className="w-full px-2 py-1.5 border border-slate-200 rounded-md bg-white"
+          >
+            <option value="gemini">Google Gemini</option>
+            <option value="openai">OpenAI-compatible server</option>
+          </select>
+
+          {draft.provider === 'openai' && (
+            <div className="space-y-2 text-xs">
+              <label className="block text-slate-500">
+                Base URL
+                <input value={draft.openai.base_url} onChange={e => setOpenAi({ base_url: e.target.value })} className="mt-0.5 w-full px-2 py-1 border border-slate-200 rounded-md text-slate-800" />
+              </label>
+              <label className="block text-slate-500">
+                API key (optional)
+                <input type="password" value={draft.openai.api_key} onChange={e => setOpenAi({ api_key: e.target.value })} className="mt-0.5 w-full px-2 py-1 border border-slate-200 rounded-md text-slate-800" />
+              </label>
+              <div className="grid grid-cols-2 gap-2">
+                <label className="block text-slate-500">
+                  Model
+                  <input value={draft.openai.model} onChange={e => setOpenAi({ model: e.target.value })} className="mt-0.5 w-full px-2 py-1 border border-slate-200 rounded-md text-slate-800" />
+                </label>
+                <label className="block text-slate-500">
+                  Context (tokens)
+                  <input
+                    type="number"
+                    min={1024}
+                    value={draft.openai.context_tokens}
+                    onChange={e => setOpenAi({ context_tokens: parseInt(e.target.value, 10) || 0 })}
+                    className="mt-0.5 w-full px-2 py-1 border border-slate-200 rounded-md text-slate-800"
+                  />
+                </label>
+              </div>
+              <label className="block text-slate-500">
+                Embedding model
+                <input
+                  value={draft.openai.embedding_model}
+                  onChange={e => setOpenAi({ embedding_model: e.target.value })}
+                  placeholder="Leave empty to send the whole Knowledge Base"
+                  className="mt-0.5 w-full px-2 py-1 border border-slate-200 rounded-md text-slate-800"
+                />
+              </label>
+              <label className="flex items-center gap-2 text-slate-600">
+                <input type="checkbox" checked={draft.openai.supports_json_schema} onChange={e => setOpenAi({ supports_json_schema: e.target.checked })} className="rounded border-slate-300" />
+                Server supports JSON schema output
+              </label>
+              <label className="flex items-center gap-2 text-slate-600">
+                <input type="checkbox" checked={draft.openai.supports_images} onChange={e => setOpenAi({ supports_images: e.target.checked })} className="rounded border-slate-300" />
+                Model can read images
+              </label>
+              <p className="text-[10px] text-slate-400">
+                PDFs are sent as their extracted text. Nothing is sent to Google while this provider is selected.
+              </p>
+            </div>
+          )}
+
+          {error && <p className="text-xs text-red-600">{error}</p>}
+          <div className="flex justify-between">
+            <button onClick={() => setDraft(DEFAULT_PROVIDER_SETTINGS)} className="px-3 py-1 text-xs text-slate-500 hover:text-slate-700">Reset</button>
+            <button onClick={save} disabled={!!error} className="px-3 py-1 text-xs text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50">Save</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProviderSettingsPanel;
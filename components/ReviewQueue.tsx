@@ -0,0 +1,287 @@
+import React, { useState } from 'react';
+import { ClipboardCheck, CheckCircle, XCircle, HelpCircle, ArrowUpCircle, PenLine, Settings, History, ShieldAlert } from 'lucide-react';
+import { ClaimRecord, CurrencyCode, ReviewStatus, ReviewThresholds } from '../types';
+import { REVIEW_STATUS_LABELS, editExtractionField, setReviewStatus, signOffClaim } from '../services/reviewService';
+import { formatModelProfile } from '../services/modelSettingsService';
+import { COMMON_CLAIM_FIELDS, DOMAIN_CLAIM_FIELDS, getClaimField, getFieldLabel } from '../services/claimSchema';
+
+interface ReviewQueueProps {
+  records: ClaimRecord[];
+  thresholds: ReviewThresholds;
+  onUpdateRecord: (record: ClaimRecord) => void;
+  onThresholdsChange: (thresholds: ReviewThresholds) => void;
+}
+
+const STATUS_STYLES: Record<ReviewStatus, string> = {
+  pending_review: 'bg-amber-100 text-amber-700',
+  approved: 'bg-green-100 text-green-700',
+  denied: 'bg-red-100 text-red-700',
+  more_info_requested: 'bg-sky-100 text-sky-700',
+  escalated: 'bg-purple-100 text-purple-700'
+};
+
+const REVIEWER_KEY = 'claimguard.reviewerName';
+const BASE_FIELDS = ['incident_type', 'incident_date', 'location', 'damage_description', 'estimated_cost'];
+const THRESHOLD_CURRENCIES: CurrencyCode[] = ['INR', 'USD'];
+
+const ReviewQueue: React.FC<ReviewQueueProps> = ({ records, thresholds, onUpdateRecord, onThresholdsChange }) => {
+  const [filter, setFilter] = useState<ReviewStatus | 'all'>('pending_review');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [reviewer, setReviewer] = useState(() => localStorage.getItem(REVIEWER_KEY) || '');
+  const [note, setNote] = useState('');
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [showSettings, setShowSettings] = useState(false);
+
+  const visible = records
+    .filter(r => filter === 'all' || r.status === filter)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+  const selected = records.find(r => r.id === selectedId) || null;
+
+  const act = (update: () => ClaimRecord) => {
+    try {
+      onUpdateRecord(update());
+      setNote('');
+      setActionError(null);
+    } catch (e: any) {
+      setActionError(e.message);
+    }
+  };
+
+  const handleReviewerChange = (name: string) => {
+    setReviewer(name);
+    localStorage.setItem(REVIEWER_KEY, name);
+  };
+
+  const editableFields = selected
+    ? Array.from(new Set([...BASE_FIELDS, ...DOMAIN_CLAIM_FIELDS[selected.extraction.claim_domain].map(f => f.key), ...COMMON_CLAIM_FIELDS.map(f => f.key)]))
+    : [];
+
+  return (
+    <div className="max-w-6xl mx-auto p-6">
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="p-6 border-b border-slate-100 bg-slate-50 flex justify-between items-center">
+          <div>
+            <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+              <ClipboardCheck className="w-5 h-5 text-indigo-600" />
+              Review Queue
+            </h2>
+            <p className="text-slate-500 text-sm mt-1">
+              Denials, low-confidence and high-value claims wait here for an adjudicator.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              value={reviewer}
+              onChange={e => handleReviewerChange(e.target.value)}
+              placeholder="Your name"
+              className="px-3 py-2 text-sm border border-slate-300 rounded-lg w-40"
+            />
+            <button
+              onClick={() => setShowSettings(!showSettings)}
+              className={`p-2 rounded-lg border ${showSettings ? 'bg-indigo-50 border-indigo-200 text-indigo-700' : 'border-slate-300 text-slate-500 hover:bg-white'}`}
+              title="Routing thresholds"
+            >
+              <Settings className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        {showSettings && (
+          <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50 flex flex-wrap gap-6 text-xs text-slate-600">
+            <label className="flex items-center gap-2">
+              Review below confidence
+              <input
+                type="number" min={0} max={100}
+                value={Math.round(thresholds.min_confidence * 100)}
+                onChange={e => onThresholdsChange({ ...thresholds, min_confidence: Math.min(100, Math.max(0, Number(e.target.value))) / 100 })}
+                className="w-16 px-2 py-1 border border-slate-200 rounded-md"
+              />%
+            </label>
+            {THRESHOLD_CURRENCIES.map(currency => (
+              <label key={currency} className="flex items-center gap-2">
+                High value from
+                <input
+                  type="number" min={0}
+                  value={thresholds.high_value[currency] ?? ''}
+                  onChange={e => onThresholdsChange({ ...thresholds, high_value: { ...thresholds.high_value, [currency]: Number(e.target.value) } })}
+                  className="w-28 px-2 py-1 border border-slate-200 rounded-md"
+                />
+                {currency}
+              </label>
+            ))}
+            <label className="flex items-center gap-2">
+              Review fraud risk from
+              <select
+                value={thresholds.fraud_level}
+                onChange={e => onThresholdsChange({ ...thresholds, fraud_level: e.target.value as ReviewThresholds['fraud_level'] })}
+                className="px-2 py-1 border border-slate-200 rounded-md bg-white"
+              >
+                <option value="medium">Medium</option>
+                <option value="high">High</option>
+              </select>
+            </label>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 min-h-[60vh]">
+          {/* Queue */}
+          <div className="border-r border-slate-100">
+            <div className="p-3 flex flex-wrap gap-1 border-b border-slate-100">
+              {(['all', ...Object.keys(REVIEW_STATUS_LABELS)] as (ReviewStatus | 'all')[]).map(s => (
+                <button
+                  key={s}
+                  onClick={() => setFilter(s)}
+                  className={`px-2 py-1 text-xs rounded-md ${filter === s ? 'bg-slate-800 text-white' : 'text-slate-500 hover:bg-slate-100'}`}
+                >
+                  {s === 'all' ? 'All' : REVIEW_STATUS_LABELS[s]} ({records.filter(r => s === 'all' || r.status === s).length})
+                </button>
+              ))}
+            </div>
+            <ul className="divide-y divide-slate-100">
+              {visible.map(record => (
+                <li key={record.id}>
+                  <button
+                    onClick={() => { setSelectedId(record.id); setActionError(null); setNote(''); }}
+                    className={`w-full text-left p-3 hover:bg-slate-50 ${record.id === selectedId ? 'bg-indigo-50' : ''}`}
+                  >
+                    <div className="flex justify-between items-center gap-2">
+                      <span className="text-sm font-medium text-slate-800 truncate">{record.extraction.incident_type}</span>
+                      <span className={`text-[10px] px-2 py-0.5 rounded-full flex-shrink-0 ${STATUS_STYLES[record.status]}`}>{REVIEW_STATUS_LABELS[record.status]}</span>
+                    </div>
+                    <p className="text-xs text-slate-400 mt-0.5">
+                      {new Date(record.created_at).toLocaleString()} · AI: {record.verification.is_eligible ? 'eligible' : 'not eligible'} ({(record.verification.confidence_score * 100).toFixed(0)}%)
+                    </p>
+                  </button>
+                </li>
+              ))}
+              {visible.length === 0 && <li className="p-6 text-center text-sm text-slate-400">No claims here.</li>}
+            </ul>
+          </div>
+
+          {/* Detail */}
+          <div className="lg:col-span-2 p-6">
+            {!selected ? (
+              <div className="h-full flex items-center justify-center text-slate-400 text-sm">Select a claim to review.</div>
+            ) : (
+              <div className="space-y-5">
+                <div className="flex justify-between items-start gap-4">
+                  <div>
+                    <h3 className="font-semibold text-slate-800">{selected.extraction.incident_type}</h3>
+                    <p className="text-xs text-slate-500">
+                      AI verdict: <strong>{selected.verification.is_eligible ? 'Eligible' : 'Not eligible'}</strong>
+                      {selected.verification.policy_matched && ` under ${selected.verification.policy_matched}`}
+                      {` · confidence ${(selected.verification.confidence_score * 100).toFixed(0)}%`}
+                      {selected.fraud && ` · fraud risk ${selected.fraud.level}`}
+                    </p>
+                  </div>
+                  <span className={`text-xs px-2 py-1 rounded-full ${STATUS_STYLES[selected.status]}`}>{REVIEW_STATUS_LABELS[selected.status]}</span>
+                </div>
+
+                {selected.routing_reasons.length > 0 && (
+                  <div className="p-3 rounded-xl bg-amber-50 border border-amber-200 text-xs text-amber-800">
+                    <p className="font-semibold flex items-center gap-1 mb-1"><ShieldAlert className="w-3.5 h-3.5" /> Sent for review because</p>
+                    <ul className="list-disc ml-5 space-y-0.5">{selected.routing_reasons.map(r => <li key={r}>{r}</li>)}</ul>
+                  </div>
+                )}
+
+                {selected.stale_verdict && (
+                  <div className="p-3 rounded-xl bg-slate-50 border border-slate-200 text-xs text-slate-600">
+                    Extracted fields were edited after verification. The AI verdict and payout are based on the original values; re-run the claim to update them.
+                  </div>
+                )}
+
+                {selected.override && (
+                  <div className="p-3 rounded-xl bg-purple-50 border border-purple-200 text-xs text-purple-800">
+                    <strong>Override by {selected.override.reviewer}:</strong> {selected.override.final_eligible ? 'approved' : 'denied'} against the AI verdict. Reason: {selected.override.reason}
+                  </div>
+                )}
+
+                <details className="text-xs">
+                  <summary className="cursor-pointer text-slate-500">Claim text and AI reasoning</summary>
+                  <p className="mt-2 p-3 bg-slate-50 rounded-lg border border-slate-100 whitespace-pre-wrap text-slate-700">{selected.claim_text}</p>
+                  <p className="mt-2 p-3 bg-slate-50 rounded-lg border border-slate-100 whitespace-pre-wrap text-slate-700">{selected.verification.reasoning}</p>
+                  {selected.model_settings && (
+                    <p className="mt-2 text-slate-400">
+                      {selected.model_settings.provider}: extraction {formatModelProfile(selected.model_settings.extraction)};
+                      verification {formatModelProfile(selected.model_settings.verification)}
+                      {selected.model_settings.self_consistency && ', self-consistency'}.
+                    </p>
+                  )}
+                </details>
+
+                <div>
+                  <h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2 flex items-center gap-1"><PenLine className="w-3 h-3" /> Extracted fields</h4>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    {editableFields.map(field => {
+                      const value = getClaimField(selected.extraction, field) || '';
+                      return (
+                        <label key={`${selected.id}-${field}-${value}`} className="text-xs text-slate-500">
+                          {getFieldLabel(field)}
+                          <input
+                            defaultValue={value}
+                            onBlur={e => {
+                              if (e.target.value !== value) act(() => editExtractionField(selected, field, e.target.value, reviewer, thresholds));
+                            }}
+                            className="mt-0.5 w-full px-2 py-1 text-sm text-slate-800 border border-slate-200 rounded-md"
+                          />
+                        </label>
+                      );
+                    })}
+                  </div>
+                </div>
+
+                <div>
+                  <textarea
+                    value={note}
+                    onChange={e => setNote(e.target.value)}
+                    rows={2}
+                    placeholder="Note or reason (required when overriding the AI verdict)"
+                    className="w-full px-3 py-2 text-sm border border-slate-200 rounded-lg"
+                  />
+                  {actionError && <p className="text-xs text-red-600 mt-1">{actionError}</p>}
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    <button onClick={() => act(() => setReviewStatus(selected, 'approved', reviewer, note))} className="px-3 py-1.5 text-xs font-medium rounded-lg bg-green-600 text-white hover:bg-green-700 flex items-center gap-1">
+                      <CheckCircle className="w-3.5 h-3.5" /> Approve
+                    </button>
+                    <button onClick={() => act(() => setReviewStatus(selected, 'denied', reviewer, note))} className="px-3 py-1.5 text-xs font-medium rounded-lg bg-red-600 text-white hover:bg-red-700 flex items-center gap-1">
+                      <XCircle className="w-3.5 h-3.5" /> Deny
+                    </button>
+                    <button onClick={() => act(() => setReviewStatus(selected, 'more_info_requested', reviewer, note))} className="px-3 py-1.5 text-xs font-medium rounded-lg border border-slate-300 text-slate-700 hover:bg-slate-50 flex items-center gap-1">
+                      <HelpCircle className="w-3.5 h-3.5" /> Request Info
+                    </button>
+                    <button onClick={() => act(() => setReviewStatus(selected, 'escalated', reviewer, note))} className="px-3 py-1.5 text-xs font-medium rounded-lg border border-slate-300 text-slate-700 hover:bg-slate-50 flex items-center gap-1">
+                      <ArrowUpCircle className="w-3.5 h-3.5" /> Escalate
+                    </button>
+                    {(selected.status === 'approved' || selected.status === 'denied') && (
+                      selected.signed_off_by ? (
+                        <span className="ml-auto text-xs text-slate-500 self-center">Signed off by {selected.signed_off_by} on {new Date(selected.signed_off_at!).toLocaleString()}</span>
+                      ) : (
+                        <button onClick={() => act(() => signOffClaim(selected, reviewer))} className="ml-auto px-3 py-1.5 text-xs font-medium rounded-lg bg-slate-800 text-white hover:bg-slate-900">
+                          Sign Off
+                        </button>
+                      )
+                    )}
+                  </div>
+                </div>
+
+                <div>
+                  <h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2 flex items-center gap-1"><History className="w-3 h-3" /> History</h4>
+                  <ol className="space-y-1 text-xs text-slate-600">
+                    {selected.history.map((event, i) => (
+                      <li key={i}>
+                        <span className="text-slate-400">{new Date(event.at).toLocaleString()}</span> · <strong>{event.actor}</strong> {event.action.replace('_', ' ')} → {REVIEW_STATUS_LABELS[event.status]}
+                        {event.note && <span className="text-slate-500">: {event.note}</span>}
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReviewQueue;
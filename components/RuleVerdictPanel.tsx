@@ -0,0 +1,62 @@
+import React from 'react';
+import { Scale, CheckCircle2, XCircle, HelpCircle, AlertTriangle } from 'lucide-react';
+import { RuleOutcome, VerificationResult } from '../types';
+
+interface RuleVerdictPanelProps {
+  verification: VerificationResult;
+}
+
+const OUTCOME_ICONS: Record<RuleOutcome, React.ReactNode> = {
+  pass: <CheckCircle2 className="w-3.5 h-3.5 text-green-600" />,
+  fail: <XCircle className="w-3.5 h-3.5 text-red-500" />,
+  unknown: <HelpCircle className="w-3.5 h-3.5 text-slate-400" />
+};
+
+const AGREEMENT_STYLES = {
+  agree: { label: 'Agrees with AI', className: 'bg-green-100 text-green-700' },
+  disagree: { label: 'Disagrees with AI', className: 'bg-red-100 text-red-700' },
+  inconclusive: { label: 'Inconclusive', className: 'bg-slate-100 text-slate-600' }
+};
+
+const RuleVerdictPanel: React.FC<RuleVerdictPanelProps> = ({ verification }) => {
+  const rule = verification.rule_result;
+  if (!rule) return null;
+
+  const agreement = AGREEMENT_STYLES[verification.verdict_agreement || 'inconclusive'];
+  // A denial must be traceable to an explicit rule before it goes out
+  const unbackedDenial = !verification.is_eligible && rule.verdict !== 'ineligible';
+  const unbackedApproval = verification.is_eligible && rule.verdict === 'ineligible';
+
+  return (
+    <div className="mb-4 p-3 rounded-xl border border-slate-200 bg-white">
+      <div className="flex justify-between items-center mb-2">
+        <span className="text-xs font-semibold text-slate-600 flex items-center gap-1">
+          <Scale className="w-3.5 h-3.5 text-indigo-600" />
+          Rule Engine: <span className="capitalize">{rule.verdict}</span>
+          {rule.policy_name && <span className="font-normal text-slate-400">· {rule.policy_name}</span>}
+        </span>
+        <span className={`text-[10px] px-2 py-0.5 rounded-full font-medium ${agreement.className}`}>{agreement.label}</span>
+      </div>
+
+      <ul className="space-y-1">
+        {rule.checks.map((check, i) => (
+          <li key={`${check.rule}-${i}`} className="flex items-start gap-2 text-xs text-slate-600">
+            <span className="mt-0.5 flex-shrink-0">{OUTCOME_ICONS[check.outcome]}</span>
+            <span>{check.detail}</span>
+          </li>
+        ))}
+      </ul>
+
+      {(unbackedDenial || unbackedApproval) && (
+        <p className="mt-3 p-2 rounded-lg bg-red-50 border border-red-200 text-xs text-red-700 flex items-start gap-1.5">
+          <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0 mt-0.5" />
+          {unbackedDenial
+            ? 'Denial is not backed by any explicit policy rule. Requires human review before it is sent.'
+            : 'The AI approved a claim that fails an explicit policy rule. Requires human review.'}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default RuleVerdictPanel;
@@ -0,0 +1,74 @@
+import React from 'react';
+import { Gauge } from 'lucide-react';
+import { BudgetChoice, ClaimTokenBudget, formatTokens, suggestTrim } from '../services/tokenBudgetService';
+
+interface TokenBudgetPanelProps {
+  baseline: ClaimTokenBudget; // the whole Knowledge Base
+  budget: ClaimTokenBudget; // after the current choice
+  choice: BudgetChoice | null;
+  onChoiceChange: (choice: BudgetChoice | null) => void;
+}
+
+const statusText = ({ status, limits }: ClaimTokenBudget): string => {
+  switch (status) {
+    case 'ok': return limits.tokens_per_minute ? 'fits the model and the free-tier quota' : 'fits the model';
+    case 'near_limit': return 'is close to the limits';
+    case 'over_quota': return `is over the free-tier quota of ${formatTokens(limits.tokens_per_minute || 0)} tokens per minute`;
+    case 'over_context': return `is over the model's limit of ${formatTokens(limits.context_tokens)} tokens per request`;
+  }
+};
+
+const TokenBudgetPanel: React.FC<TokenBudgetPanelProps> = ({ baseline, budget, choice, onChoiceChange }) => {
+  const excluded = choice?.kind === 'trim' ? choice.excluded : [];
+  const options: { label: string; hint: string; choice: BudgetChoice | null }[] = [
+    { label: 'Send everything', hint: 'Use the whole Knowledge Base', choice: null },
+    { label: 'Trim', hint: 'Leave the largest documents out of this claim', choice: { kind: 'trim', excluded: suggestTrim(baseline) } },
+    { label: 'Summarize', hint: 'Send summary cards instead of the full wording where one exists', choice: { kind: 'summarize' } },
+    { label: 'Retrieval', hint: 'Send extracted text so only the relevant sections of PDFs are used', choice: { kind: 'retrieval' } }
+  ];
+
+  const toggleExcluded = (id: string) =>
+    onChoiceChange({ kind: 'trim', excluded: excluded.includes(id) ? excluded.filter(e => e !== id) : [...excluded, id] });
+
+  return (
+    <div className={`p-3 rounded-xl border text-xs ${budget.status === 'ok' ? 'bg-slate-50 border-slate-200 text-slate-600' : 'bg-amber-50 border-amber-200 text-amber-800'}`}>
+      <p className="font-semibold flex items-center gap-1.5">
+        <Gauge className="w-4 h-4" />
+        This claim needs about {formatTokens(budget.claim_tokens)} tokens
+        ({formatTokens(budget.largest_request_tokens)} in the largest request) and {statusText(budget)}.
+      </p>
+      <div className="flex flex-wrap gap-1.5 mt-2">
+        {options.map(option => (
+          <button
+            key={option.label}
+            onClick={() => onChoiceChange(option.choice)}
+            title={option.hint}
+            className={`px-2 py-1 rounded-md border ${(choice?.kind ?? null) === (option.choice?.kind ?? null) ? 'bg-white border-blue-400 text-blue-700' : 'bg-white/60 border-slate-200 text-slate-600 hover:bg-white'}`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      {choice?.kind === 'trim' && (
+        <ul className="mt-2 space-y-0.5">
+          {baseline.documents.filter(d => d.sent_whole).map(doc => (
+            <li key={doc.id}>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input type="checkbox" checked={!excluded.includes(doc.id)} onChange={() => toggleExcluded(doc.id)} className="rounded border-slate-300" />
+                <span className="truncate" title={doc.name}>{doc.name}</span>
+                <span className="ml-auto text-slate-400">~{formatTokens(doc.tokens)}</span>
+              </label>
+            </li>
+          ))}
+        </ul>
+      )}
+      {choice && (
+        <p className="mt-2 text-[10px] text-slate-500">
+          Without this choice the claim would need about {formatTokens(baseline.claim_tokens)} tokens.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default TokenBudgetPanel;
@@ -1,4 +1,4 @@
-import { PolicyDocument } from "./types";
+import { EvidenceType, PolicyDocument } from "./types";
 
 const SAMPLE_TEXT = `
 1. **AutoGuard Standard (Policy #AG-101)**
@@ -34,6 +34,16 @@ export const SAMPLE_DOCUMENTS: PolicyDocument[] = [
   }
 ];
 
+export const EVIDENCE_TYPE_LABELS: Record<EvidenceType, string> = {
+  invoice: 'Invoice / Bill',
+  medical_report: 'Medical Report',
+  discharge_summary: 'Discharge Summary',
+  photo: 'Photo',
+  police_report: 'Police Report / FIR',
+  surveyor_report: 'Surveyor Report',
+  other: 'Other'
+};
+
 export const SAMPLE_CLAIM_TEXT = `I am submitting a health insurance claim of around  Rs 48500 under my ShieldPlus Health Plan, which is active for a period of three years from 2022 to 2025. I was hospitalized due to dengue fever after persistent high fever and weakness. I was admitted to City MultiCare Hospital on 12 June 2024 and discharged on 16 June 2024 after four nights in a shared room. The treatment included blood tests, IV fluids, and continuous monitoring. This was a cashless claim submitted on 17 June 2024, and the final settlement was completed on 5 July 2024.
 `;
 
@@ -0,0 +1,67 @@
+/**
+ * A past decision with its known outcome, used to calibrate confidence scores.
+ * `confidence` is the uncalibrated agreement score the decision was made with.
+ */
+export interface CalibrationRecord {
+  confidence: number;
+  predicted_eligible: boolean;
+  actual_eligible: boolean;
+}
+
+const CALIBRATION_KEY = 'claimguard.calibrationSet';
+const BIN_COUNT = 5;
+const MIN_RECORDS = 10;
+// Pseudo-observations pulling sparse bins towards the raw score
+const PRIOR_WEIGHT = 2;
+
+export const loadCalibrationSet = (): CalibrationRecord[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(CALIBRATION_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveCalibrationSet = (records: CalibrationRecord[]) => {
+  try {
+    localStorage.setItem(CALIBRATION_KEY, JSON.stringify(records));
+  } catch (e) {
+    console.warn("Could not save calibration set:", e);
+  }
+};
+
+/**
+ * Records whether a decision turned out to be right, once an adjudicator has ruled on it.
+ */
+export const recordDecisionOutcome = (record: CalibrationRecord) => {
+  saveCalibrationSet([...loadCalibrationSet(), record]);
+};
+
+/**
+ * Adds labeled decisions from an exported file. Entries that do not look like
+ * calibration records are skipped; returns how many were added.
+ */
+export const importCalibrationSet = (data: unknown): number => {
+  const valid = (Array.isArray(data) ? data : []).filter((r: any): r is CalibrationRecord =>
+    r && typeof r.confidence === 'number' && typeof r.predicted_eligible === 'boolean' && typeof r.actual_eligible === 'boolean');
+  saveCalibrationSet([...loadCalibrationSet(), ...valid]);
+  return valid.length;
+};
+
+const binOf = (confidence: number) => Math.min(BIN_COUNT - 1, Math.floor(Math.max(0, confidence) * BIN_COUNT));
+
+/**
+ * Maps a raw agreement score to the share of past decisions with a similar score
+ * that were correct (histogram binning). Until enough labeled decisions exist the
+ * raw score is returned unchanged.
+ */
+export const calibrateConfidence = (raw: number, records: CalibrationRecord[] = loadCalibrationSet()): { value: number; calibrated: boolean; size: number } => {
+  if (records.length < MIN_RECORDS) return { value: raw, calibrated: false, size: records.length };
+
+  const bin = binOf(raw);
+  const inBin = records.filter(r => binOf(r.confidence) === bin);
+  const correct = inBin.filter(r => r.predicted_eligible === r.actual_eligible).length;
+  const value = (correct + raw * PRIOR_WEIGHT) / (inBin.length + PRIOR_WEIGHT);
+  return { value: Math.round(value * 100) / 100, calibrated: true, size: records.length };
+};
@@ -0,0 +1,180 @@
+import { ChecklistItem, ChecklistStatus, ClaimChecklist, ClaimDomain, ClaimExtraction, EvidenceType } from "../types";
+import { EVIDENCE_TYPE_LABELS } from "../constants";
+import { getClaimField, getFieldLabel } from "./claimSchema";
+
+/**
+ * A requirement before its status is known.
+ * Produced either from the matched policy (cloud) or from the domain defaults below.
+ */
+export interface ChecklistRequirement {
+  kind: 'fact' | 'document';
+  label: string;
+  fields?: string[];
+  evidence_type?: EvidenceType;
+  required: boolean;
+  policy_reference?: string;
+  // Model's own assessment, only used for facts that map to no extraction field
+  assessed_status?: ChecklistStatus;
+  assessed_note?: string;
+}
+
+const fact = (label: string, fields: string[], required = true): ChecklistRequirement => ({ kind: 'fact', label, fields, required });
+const doc = (evidence_type: EvidenceType, label: string, required = true): ChecklistRequirement => ({ kind: 'document', label, evidence_type, required });
+
+// Used when the knowledge base does not spell out what a claim must contain
+export const DEFAULT_REQUIREMENTS: Record<ClaimDomain, ChecklistRequirement[]> = {
+  health: [
+    fact('Policy name', ['policy_name']),
+    fact('Hospital name', ['hospital_name']),
+    fact('Diagnosis', ['disease', 'claim_cause']),
+    fact('Admission date', ['admission_date', 'incident_date']),
+    fact('Discharge date', ['discharge_date']),
+    fact('Claimed amount', ['claim_amount', 'estimated_cost']),
+    doc('discharge_summary', 'Discharge summary'),
+    doc('invoice', 'Hospital bills'),
+    doc('medical_report', 'Medical / lab reports', false)
+  ],
+  motor: [
+    fact('Policy name', ['policy_name']),
+    fact('Vehicle', ['vehicle_type']),
+    fact('Accident date', ['incident_date']),
+    fact('Accident location', ['location']),
+    fact('Parts damaged', ['part_damaged', 'damage_description']),
+    fact('Repair estimate / claimed amount', ['repair_estimate', 'claim_amount', 'estimated_cost']),
+    doc('invoice', 'Repair estimate or invoice'),
+    doc('photo', 'Photos of the damage'),
+    doc('surveyor_report', 'Surveyor report'),
+    doc('police_report', 'Police report / FIR (third-party or theft)', false)
+  ],
+  travel: [
+    fact('Policy name', ['policy_name']),
+    fact('Trip destination', ['trip_destination', 'location']),
+    fact('Trip start date', ['trip_start_date']),
+    fact('Trip end date', ['trip_end_date']),
+    fact('Type of travel claim', ['travel_claim_type', 'reason_for_claim']),
+    fact('Claimed amount', ['claim_amount', 'estimated_cost']),
+    doc('invoice', 'Bills / payment proofs'),
+    doc('other', 'Booking confirmations or tickets')
+  ],
+  property: [
+    fact('Policy name', ['policy_name']),
+    fact('Type of damage', ['property_damage_type', 'incident_type']),
+    fact('Date of loss', ['incident_date']),
+    fact('Property location', ['location']),
+    fact('Estimated loss', ['estimated_loss_value', 'claim_amount', 'estimated_cost']),
+    doc('photo', 'Photos of the damage'),
+    doc('invoice', 'Repair quotes or invoices'),
+    doc('surveyor_report', 'Assessment / surveyor report', false),
+    doc('police_report', 'Police report (theft or vandalism)', false)
+  ],
+  general: [
+    fact('Incident type', ['incident_type']),
+    fact('Incident date', ['incident_date']),
+    fact('Claimed amount', ['claim_amount', 'estimated_cost']),
+    doc('other', 'Supporting documents', false)
+  ]
+};
+
+// Words in the claim text suggesting a document exists even though it was not attached
+const DOCUMENT_MENTIONS: Record<EvidenceType, RegExp> = {
+  invoice: /\b(bills?|invoices?|receipts?|payment proofs?|estimates?)\b/i,
+  medical_report: /\b(medical reports?|lab reports?|prescriptions?|test results?)\b/i,
+  discharge_summary: /\bdischarge summary\b/i,
+  photo: /\b(photos?|photographs?|pictures?|images?)\b/i,
+  police_report: /\b(police|fir)\b/i,
+  surveyor_report: /\b(surveyor|survey report|assessment report|inspection)\b/i,
+  other: /\b(confirmation|emails?|tickets?|booking)\b/i
+};
+
+const DATE_FIELDS = new Set(['incident_date', 'admission_date', 'discharge_date', 'trip_start_date', 'trip_end_date', 'claim_submission_date', 'settlement_date']);
+const AMOUNT_FIELDS = new Set(['claim_amount', 'estimated_cost', 'approved_amount', 'repair_estimate', 'estimated_loss_value']);
+const PLACEHOLDER_VALUES = /^(not specified|unknown|n\/a|none|-)$/i;
+
+// List fields (involved_parties) count as present when they hold at least one entry
+const factValue = (extraction: ClaimExtraction, field: string): string | undefined => {
+  const value = (extraction as unknown as Record<string, unknown>)[field];
+  if (Array.isArray(value)) return value.filter(v => typeof v === 'string' && v.trim()).join(', ') || undefined;
+  return getClaimField(extraction, field);
+};
+
+const factStatus = (extraction: ClaimExtraction, fields: string[]): { status: ChecklistStatus; note?: string } => {
+  const found = fields
+    .map(field => ({ field, value: factValue(extraction, field) }))
+    .find(f => f.value && !PLACEHOLDER_VALUES.test(f.value.trim()));
+  if (!found) return { status: 'missing' };
+
+  const conflict = extraction.conflicts?.find(c => c.field === found.field);
+  if (conflict) return { status: 'ambiguous', note: `Evidence disagrees: ${conflict.candidates.map(c => c.value).join(' vs ')}` };
+
+  const normalized = extraction.normalized;
+  if (DATE_FIELDS.has(found.field)) {
+    const date = normalized?.dates[found.field];
+    if (!date) return { status: 'ambiguous', note: `"${found.value}" is not a recognisable date` };
+    if (date.ambiguous) return { status: 'ambiguous', note: `"${found.value}" could be DD/MM or MM/DD` };
+    if (date.precision !== 'day') return { status: 'ambiguous', note: `Only the ${date.precision} is known` };
+  }
+  if (AMOUNT_FIELDS.has(found.field) && !normalized?.amounts[found.field]) {
+    return { status: 'ambiguous', note: `"${found.value}" is not a recognisable amount` };
+  }
+
+  const label = fields.length > 1 && found.field !== fields[0] ? ` (from ${getFieldLabel(found.field)})` : '';
+  return { status: 'present', note: `${found.value}${label}` };
+};
+
+const documentStatus = (evidenceType: EvidenceType, attachedTypes: EvidenceType[], claimText: string): { status: ChecklistStatus; note?: string } => {
+  const count = attachedTypes.filter(t => t === evidenceType).length;
+  if (count > 0) return { status: 'present', note: `${count} attached` };
+  if (DOCUMENT_MENTIONS[evidenceType].test(claimText)) {
+    return { status: 'ambiguous', note: 'Mentioned in the claim description but not attached' };
+  }
+  return { status: 'missing' };
+};
+
+/**
+ * Works out which required facts and documents are present, missing or ambiguous.
+ * `requirements` come from the matched policy when available; otherwise the
+ * defaults for the claim's domain are used.
+ */
+export const buildClaimChecklist = (
+  extraction: ClaimExtraction,
+  attachedTypes: EvidenceType[],
+  claimText: string,
+  policyRequirements?: { policy_name?: string; requirements: ChecklistRequirement[] }
+): ClaimChecklist => {
+  const fromPolicy = !!policyRequirements && policyRequirements.requirements.length > 0;
+  const requirements = fromPolicy ? policyRequirements!.requirements : DEFAULT_REQUIREMENTS[extraction.claim_domain];
+
+  const items: ChecklistItem[] = requirements.map((req, index) => {
+    const { assessed_status, assessed_note, ...rest } = req;
+    let assessment: { status: ChecklistStatus; note?: string };
+    if (req.kind === 'document') {
+      assessment = documentStatus(req.evidence_type || 'other', attachedTypes, claimText);
+    } else if (req.fields && req.fields.length > 0) {
+      assessment = factStatus(extraction, req.fields);
+    } else {
+      assessment = { status: assessed_status || 'missing', note: assessed_note };
+    }
+    return {
+      id: `${req.kind}-${index}`,
+      ...rest,
+      label: req.label || (req.evidence_type ? EVIDENCE_TYPE_LABELS[req.evidence_type] : 'Requirement'),
+      status: assessment.status,
+      ...(assessment.note ? { note: assessment.note } : {})
+    };
+  });
+
+  return {
+    ...(fromPolicy && policyRequirements!.policy_name ? { policy_name: policyRequirements!.policy_name } : {}),
+    source: fromPolicy ? 'policy' : 'default',
+    items,
+    is_complete: !items.some(item => item.required && item.status === 'missing')
+  };
+};
+
+/**
+ * Human-readable warnings for a checklist, passed to verification and shown with its result.
+ */
+export const getChecklistWarnings = (checklist: ClaimChecklist): string[] =>
+  checklist.items
+    .filter(item => item.status !== 'present' && (item.required || item.status === 'ambiguous'))
+    .map(item => `${item.status === 'missing' ? 'Missing' : 'Unclear'}: ${item.label}${item.note ? ` (${item.note})` : ''}`);
@@ -0,0 +1,115 @@
+import { CitationStatus, PolicyCitation, PolicyDocument, VerificationResult } from "../types";
+import { getDocumentText } from "./documentTextService";
+
+/**
+ * Citation as returned by the model, before it is checked.
+ */
+export type ModelCitation = Pick<PolicyCitation, 'document_id' | 'quote' | 'purpose'>;
+
+const VERIFIED_SCORE = 0.9;
+const PARTIAL_SCORE = 0.6;
+
+// Lower-case words with markdown, punctuation and quote marks removed
+const tokenize = (text: string): string[] =>
+  text.toLowerCase().replace(/[*_`#>"'“”‘’]/g, ' ').match(/[a-z0-9$₹%.]+/g)?.map(t => t.replace(/\.+$/, '')).filter(Boolean) || [];
+
+/**
+ * Finds the stretch of the document that best matches the quote.
+ * Slides a window the length of the quote over the document and counts how many of
+ * the quote's words fall inside it, so reworded or re-punctuated quotes still match.
+ */
+const bestMatch = (quoteTokens: string[], docTokens: string[]): { score: number; start: number; end: number } => {
+  const n = quoteTokens.length;
+  if (n === 0 || docTokens.length === 0) return { score: 0, start: 0, end: 0 };
+
+  const wanted = new Map<string, number>();
+  quoteTokens.forEach(t => wanted.set(t, (wanted.get(t) || 0) + 1));
+
+  const inWindow = new Map<string, number>();
+  let hits = 0;
+  const add = (t: string) => {
+    const count = (inWindow.get(t) || 0) + 1;
+    inWindow.set(t, count);
+    if (count <= (wanted.get(t) || 0)) hits++;
+  };
+  const remove = (t: string) => {
+    const count = inWindow.get(t) || 0;
+    if (count <= (wanted.get(t) || 0)) hits--;
+    inWindow.set(t, count - 1);
+  };
+
+  let best = { score: 0, start: 0, end: 0 };
+  for (let i = 0; i < docTokens.length; i++) {
+    add(docTokens[i]);
+    if (i >= n) remove(docTokens[i - n]);
+    const score = hits / n;
+    if (score > best.score) best = { score, start: Math.max(0, i - n + 1), end: i + 1 };
+    if (score === 1) break;
+  }
+  return best;
+};
+
+const statusFor = (score: number): CitationStatus =>
+  score >= VERIFIED_SCORE ? 'verified' : score >= PARTIAL_SCORE ? 'partial' : 'unverified';
+
+const findDocument = (id: string, documents: PolicyDocument[]) => {
+  const wanted = id.trim().toLowerCase();
+  return documents.find(d => d.id.toLowerCase() === wanted) || documents.find(d => d.name.toLowerCase() === wanted);
+};
+
+/**
+ * Checks each quoted clause against the text of the document it claims to come from.
+ * Quotes attributed to a document that does not exist are unverified outright.
+ */
+export const verifyCitations = (citations: ModelCitation[], documents: PolicyDocument[]): PolicyCitation[] =>
+  citations.filter(c => c.quote && c.quote.trim()).map(citation => {
+    const doc = findDocument(citation.document_id || '', documents);
+    if (!doc) return { ...citation, status: 'unverified', match_score: 0 };
+
+    const base = { ...citation, document_id: doc.id, document_name: doc.name };
+    const text = getDocumentText(doc);
+    if (!text) return { ...base, status: 'unchecked' };
+
+    const quoteTokens = tokenize(citation.quote);
+    // Match page by page for PDFs so the citation can point at the right page
+    const pages = doc.type === 'file' && doc.pages ? doc.pages : [text];
+    let best = { score: 0, page: 0, tokens: [] as string[], start: 0, end: 0 };
+    pages.forEach((pageText, page) => {
+      const tokens = tokenize(pageText);
+      const match = bestMatch(quoteTokens, tokens);
+      if (match.score > best.score) best = { ...match, page, tokens };
+    });
+
+    const status = statusFor(best.score);
+    return {
+      ...base,
+      status,
+      match_score: Math.round(best.score * 100) / 100,
+      ...(status !== 'unverified' ? { matched_text: best.tokens.slice(best.start, best.end).join(' ') } : {}),
+      ...(doc.type === 'file' && status !== 'unverified' ? { page: best.page + 1 } : {})
+    };
+  });
+
+// How much each kind of citation problem costs in confidence
+const CONFIDENCE_PENALTY: Record<CitationStatus, number> = {
+  verified: 0,
+  partial: 0.1,
+  unchecked: 0.05,
+  unverified: 0.3
+};
+
+/**
+ * Verifies the citations of a verification result and lowers its confidence for
+ * every clause that could not be found. A result without citations is itself
+ * unsupported and is penalised like one unverified citation.
+ */
+export const withVerifiedCitations = (result: VerificationResult, citations: ModelCitation[], documents: PolicyDocument[]): VerificationResult => {
+  const checked = verifyCitations(citations, documents);
+  const penalty = checked.length === 0
+    ? CONFIDENCE_PENALTY.unverified
+    : checked.reduce((sum, c) => sum + CONFIDENCE_PENALTY[c.status], 0);
+  if (penalty === 0) return { ...result, citations: checked };
+
+  const confidence = Math.max(0.05, Math.round(result.confidence_score * Math.max(0, 1 - penalty) * 100) / 100);
+  return { ...result, citations: checked, confidence_score: confidence, original_confidence_score: result.confidence_score };
+};
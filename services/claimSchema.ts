@@ -0,0 +1,129 @@
+import { ClaimDomain, ClaimExtraction } from "../types";
+
+/**
+ * Describes one typed extraction field.
+ * `label` matches the NER label used by the local model (see BASE_LABELS in localAiService)
+ * where the model has one; the rest are only filled by the cloud extractor.
+ */
+export interface ClaimFieldSpec {
+  key: string;
+  label: string;
+  description: string;
+}
+
+export const CLAIM_DOMAIN_LABELS: Record<ClaimDomain, string> = {
+  health: "Medical / Health Claim",
+  motor: "Motor / Auto Claim",
+  travel: "Travel Insurance Claim",
+  property: "Home / Property Claim",
+  general: "General Claim"
+};
+
+// Fields every claim can carry, regardless of domain
+export const COMMON_CLAIM_FIELDS: ClaimFieldSpec[] = [
+  { key: 'policy_name', label: 'Policy Name', description: "Name of the policy the claimant is claiming under" },
+  { key: 'policy_duration', label: 'Policy Duration', description: "Policy period or term as stated (e.g., 2022 to 2025)" },
+  { key: 'claim_amount', label: 'Claim Amount', description: "Amount claimed, as written" },
+  { key: 'approved_amount', label: 'Approved Amount', description: "Amount approved or settled by the insurer, if mentioned" },
+  { key: 'claim_cause', label: 'Claim Cause', description: "Direct cause of the loss (e.g., dengue fever, highway accident)" },
+  { key: 'reason_for_claim', label: 'Reason for Claim', description: "Why the claimant is claiming (e.g., hospitalization, hotel overbooking)" },
+  { key: 'reimbursement_type', label: 'Reimbursement Type', description: "Cashless or reimbursement" },
+  { key: 'claim_submission_date', label: 'Claim Submission Date', description: "Date the claim was submitted" },
+  { key: 'settlement_date', label: 'Settlement Date', description: "Date the claim was settled, if mentioned" }
+];
+
+// Fields specific to each claim domain
+export const DOMAIN_CLAIM_FIELDS: Record<ClaimDomain, ClaimFieldSpec[]> = {
+  health: [
+    { key: 'hospital_name', label: 'Hospital Name', description: "Name of the hospital or clinic" },
+    { key: 'disease', label: 'Disease', description: "Diagnosed disease, illness or injury" },
+    { key: 'treatment_type', label: 'Treatment Type', description: "Treatment received (e.g., surgery, IV fluids, diagnostics)" },
+    { key: 'room_type', label: 'Room Type', description: "Hospital room category (e.g., shared, private, ICU)" },
+    { key: 'hospital_stay_duration', label: 'Hospital Stay Duration', description: "Length of the hospital stay (e.g., four nights)" },
+    { key: 'admission_date', label: 'Admission Date', description: "Date of hospital admission" },
+    { key: 'discharge_date', label: 'Discharge Date', description: "Date of hospital discharge" }
+  ],
+  motor: [
+    { key: 'vehicle_type', label: 'Vehicle Type', description: "Type or model of the vehicle" },
+    { key: 'part_damaged', label: 'Part Damaged', description: "Vehicle parts that were damaged" },
+    { key: 'garage_name', label: 'Garage Name', description: "Garage or workshop that carried out repairs" },
+    { key: 'repair_estimate', label: 'Repair Estimate', description: "Repair estimate amount or status (including revisions)" }
+  ],
+  travel: [
+    { key: 'trip_destination', label: 'Trip Destination', description: "Destination of the trip" },
+    { key: 'travel_claim_type', label: 'Travel Claim Type', description: "Kind of travel claim (e.g., trip cancellation, lost luggage, hotel overbooking)" },
+    { key: 'airline_hotel_name', label: 'Airline/Hotel Name', description: "Airline or hotel involved" },
+    { key: 'trip_start_date', label: 'Trip Start Date', description: "First day of the trip" },
+    { key: 'trip_end_date', label: 'Trip End Date', description: "Last day of the trip" }
+  ],
+  property: [
+    { key: 'property_damage_type', label: 'Property Damage Type', description: "Kind of property damage (e.g., fire, water damage, theft)" },
+    { key: 'estimated_loss_value', label: 'Estimated Loss Value', description: "Estimated value of the loss" },
+    { key: 'assessment_report_summary', label: 'Assessment Report Summary', description: "Summary of the surveyor or assessor report" }
+  ],
+  general: []
+};
+
+// Keywords used to pick a domain schema from free text before extraction
+const DOMAIN_KEYWORDS: Record<Exclude<ClaimDomain, 'general'>, string[]> = {
+  health: ["health", "hospital", "hospitalized", "admitted", "discharged", "disease", "treatment", "medical", "surgery", "fever"],
+  motor: ["motor", "vehicle", "car", "van", "truck", "garage", "collision", "bumper", "chassis", "engine", "repair estimate"],
+  travel: ["travel", "trip", "flight", "airline", "luggage", "baggage", "tour", "hotel", "passport"],
+  property: ["home", "house", "property", "residence", "roof", "burglary", "windstorm", "flood", "water damage", "building"]
+};
+
+/**
+ * Picks the most likely claim domain from free text using keyword hits.
+ * Returns null when no domain keyword is found so the caller can fall back to the model.
+ */
+export const classifyClaimDomain = (text: string): ClaimDomain | null => {
+  const lower = text.toLowerCase();
+  let best: ClaimDomain | null = null;
+  let bestScore = 0;
+
+  (Object.keys(DOMAIN_KEYWORDS) as (keyof typeof DOMAIN_KEYWORDS)[]).forEach(domain => {
+    const score = DOMAIN_KEYWORDS[domain].reduce((acc, kw) => {
+      const matches = lower.match(new RegExp(`\\b${kw}\\b`, 'g'));
+      return acc + (matches ? matches.length : 0);
+    }, 0);
+    if (score > bestScore) {
+      bestScore = score;
+      best = domain;
+    }
+  });
+
+  return best;
+};
+
+/**
+ * Resolves an NER label (e.g., "Hospital Name") to the extraction field it fills.
+ * `domain` is null for fields shared by all domains.
+ */
+export const findFieldForLabel = (label: string): { key: string; domain: ClaimDomain | null } | null => {
+  const normalized = label.trim().toLowerCase();
+  const common = COMMON_CLAIM_FIELDS.find(f => f.label.toLowerCase() === normalized);
+  if (common) return { key: common.key, domain: null };
+
+  for (const domain of Object.keys(DOMAIN_CLAIM_FIELDS) as ClaimDomain[]) {
+    const spec = DOMAIN_CLAIM_FIELDS[domain].find(f => f.label.toLowerCase() === normalized);
+    if (spec) return { key: spec.key, domain };
+  }
+  return null;
+};
+
+/**
+ * Reads a typed field from an extraction without narrowing the union first.
+ */
+export const getClaimField = (extraction: ClaimExtraction, key: string): string | undefined => {
+  const value = (extraction as unknown as Record<string, unknown>)[key];
+  return typeof value === 'string' && value.trim() ? value : undefined;
+};
+
+/**
+ * Display label for any extraction field key, e.g. "hospital_name" -> "Hospital Name".
+ */
+export const getFieldLabel = (key: string): string => {
+  const spec = [...COMMON_CLAIM_FIELDS, ...Object.values(DOMAIN_CLAIM_FIELDS).flat()].find(f => f.key === key);
+  if (spec) return spec.label;
+  return key.split('_').map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(' ');
+};
@@ -0,0 +1,135 @@
+import { GoogleGenAI, Part } from "@google/genai";
+import { PolicyDocument } from "../types";
+import { getDocumentText } from "./documentTextService";
+import { hashContent } from "./hashService";
+
+// Caches live for an hour and are extended while they are in use
+const CACHE_TTL_SECONDS = 3600;
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+// A set of documents that could not be cached is sent inline for a while before trying again
+const RETRY_AFTER_MS = 10 * 60 * 1000;
+// Live caches kept per model and system instruction. A claim whose incident date falls
+// under an older policy version uses two document sets (today's and the one in force),
+// so a few are kept side by side; unused ones are left to expire.
+const MAX_LIVE_CACHES = 4;
+// Gemini rejects caches below this size; about 4 characters per token
+const MIN_CACHE_TOKENS = 1024;
+
+interface CacheEntry {
+  name: string | null; // null: caching failed or is not possible for this set
+  expiresAt: number;
+}
+
+// Cache per document set (see getCacheKey). Promises are kept so concurrent calls create one cache.
+const entries = new Map<string, Promise<CacheEntry>>();
+// Document sets per model and system instruction, least recently used first
+const recentKeys = new Map<string, string[]>();
+const documentHashes = new WeakMap<PolicyDocument, Promise<string>>();
+
+const hashDocument = (doc: PolicyDocument): Promise<string> => {
+  if (!documentHashes.has(doc)) documentHashes.set(doc, hashContent(`${doc.id}\n${doc.mimeType}\n${doc.content}`));
+  return documentHashes.get(doc)!;
+};
+
+const getCacheKey = async (model: string, documents: PolicyDocument[], systemInstruction = ''): Promise<string> => {
+  const hashes = (await Promise.all(documents.map(hashDocument))).sort();
+  return hashContent([model, systemInstruction, ...hashes].join('\n'));
+};
+
+// Files without extracted text are scanned PDFs and images, which are always large enough
+const isLargeEnough = (documents: PolicyDocument[]) =>
+  documents.some(d => d.type === 'file' && !getDocumentText(d))
+  || documents.reduce((total, d) => total + (getDocumentText(d)?.length ?? 0), 0) / 4 >= MIN_CACHE_TOKENS;
+
+const createEntry = async (ai: GoogleGenAI, model: string, parts: Part[], systemInstruction?: string): Promise<CacheEntry> => {
+  try {
+    const cache = await ai.caches.create({
+      model,
+      config: {
+        displayName: 'claimguard-knowledge-base',
+        contents: [{ role: 'user', parts }],
+        ...(systemInstruction ? { systemInstruction } : {}),
+        ttl: `${CACHE_TTL_SECONDS}s`
+      }
+    });
+    if (!cache.name) throw new Error("The cache was created without a name.");
+    return { name: cache.name, expiresAt: cache.expireTime ? Date.parse(cache.expireTime) : Date.now() + CACHE_TTL_SECONDS * 1000 };
+  } catch (e) {
+    console.warn("Context caching unavailable, sending the Knowledge Base inline:", e);
+    return { name: null, expiresAt: Date.now() + RETRY_AFTER_MS };
+  }
+};
+
+// Extends a cache that is about to expire; an expired or missing one is created again
+const refreshEntry = async (ai: GoogleGenAI, entry: CacheEntry, rebuild: () => Promise<CacheEntry>): Promise<CacheEntry> => {
+  if (!entry.name || entry.expiresAt <= Date.now()) return rebuild();
+  try {
+    const cache = await ai.caches.update({ name: entry.name, config: { ttl: `${CACHE_TTL_SECONDS}s` } });
+    return { name: entry.name, expiresAt: cache.expireTime ? Date.parse(cache.expireTime) : Date.now() + CACHE_TTL_SECONDS * 1000 };
+  } catch (e) {
+    console.warn("Could not extend the context cache, creating it again:", e);
+    return rebuild();
+  }
+};
+
+/**
+ * Name of a context cache holding `parts` (the given documents), created on first
+ * use and shared by later calls with the same documents, model and system
+ * instruction. Beyond MAX_LIVE_CACHES document sets the least recently used cache
+ * is deleted. Returns null when caching is unavailable; callers then send the parts inline.
+ */
+export const getKnowledgeCache = async (
+  ai: GoogleGenAI,
+  model: string,
+  documents: PolicyDocument[],
+  parts: Part[],
+  systemInstruction?: string
+): Promise<string | null> => {
+  if (documents.length === 0 || !isLargeEnough(documents)) return null;
+
+  let key: string;
+  try {
+    key = await getCacheKey(model, documents, systemInstruction);
+  } catch (e) {
+    console.warn("Could not hash the Knowledge Base for caching:", e);
+    return null;
+  }
+
+  const slot = `${model}|${systemInstruction || ''}`;
+  const recent = [...(recentKeys.get(slot) || []).filter(k => k !== key), key];
+  recent.splice(0, Math.max(0, recent.length - MAX_LIVE_CACHES)).forEach(oldKey => {
+    const old = entries.get(oldKey);
+    entries.delete(oldKey);
+    old?.then(entry => { if (entry.name) return ai.caches.delete({ name: entry.name }); })
+      .catch(e => console.warn("Could not delete an unused context cache:", e));
+  });
+  recentKeys.set(slot, recent);
+
+  const rebuild = () => createEntry(ai, model, parts, systemInstruction);
+  let pending = entries.get(key);
+  if (!pending) {
+    pending = rebuild();
+    entries.set(key, pending);
+  }
+  let entry = await pending;
+
+  if (entry.expiresAt - Date.now() < REFRESH_MARGIN_MS && entries.get(key) === pending) {
+    // Failed entries are retried once RETRY_AFTER_MS has passed
+    const refreshed = entry.name ? refreshEntry(ai, entry, rebuild) : entry.expiresAt <= Date.now() ? rebuild() : pending;
+    entries.set(key, refreshed);
+    entry = await refreshed;
+  }
+  return entry.name;
+};
+
+/**
+ * Drops a cache the API no longer accepts (e.g. it expired early or was deleted),
+ * so the next call creates it again.
+ */
+export const forgetKnowledgeCache = (name: string) => {
+  entries.forEach((pending, key) => {
+    pending.then(entry => {
+      if (entry.name === name && entries.get(key) === pending) entries.delete(key);
+    });
+  });
+};
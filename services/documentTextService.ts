@@ -0,0 +1,149 @@
+import { PolicyDocument } from "../types";
+
+const PDFJS_WORKER_URL = "https://cdn.jsdelivr.net/npm/pdfjs-dist@3.11.174/build/pdf.worker.min.js";
+
+// Helper to safely access the PDF.js global loaded in index.html
+const getPdfJs = () => {
+  const pdfjsLib = (window as any).pdfjsLib;
+  if (typeof pdfjsLib === 'undefined') {
+    throw new Error("PDF.js library not loaded. Please check your internet connection.");
+  }
+  if (!pdfjsLib.GlobalWorkerOptions.workerSrc) {
+    pdfjsLib.GlobalWorkerOptions.workerSrc = PDFJS_WORKER_URL;
+  }
+  return pdfjsLib;
+};
+
+// Helper to safely access the Mammoth global (DOCX to HTML) loaded in index.html
+const getMammoth = () => {
+  const mammoth = (window as any).mammoth;
+  if (typeof mammoth === 'undefined') {
+    throw new Error("Mammoth library not loaded. Please check your internet connection.");
+  }
+  return mammoth;
+};
+
+export type TextDocumentFormat = 'txt' | 'md' | 'html' | 'docx';
+
+const FORMAT_BY_EXTENSION: Record<string, TextDocumentFormat> = {
+  txt: 'txt', text: 'txt', md: 'md', markdown: 'md', html: 'html', htm: 'html', docx: 'docx'
+};
+
+const FORMAT_BY_MIME: Record<string, TextDocumentFormat> = {
+  'text/plain': 'txt',
+  'text/markdown': 'md',
+  'text/html': 'html',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx'
+};
+
+// File picker filter for every format the Knowledge Base accepts
+export const KNOWLEDGE_BASE_ACCEPT = 'application/pdf,.pdf,.txt,.md,.markdown,.html,.htm,.docx';
+
+/**
+ * Which text format an uploaded file is in, or null if it cannot be converted to text.
+ * Browsers often leave the MIME type empty for .md, so the extension wins.
+ */
+export const getTextDocumentFormat = (file: File): TextDocumentFormat | null => {
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  return FORMAT_BY_EXTENSION[extension] || FORMAT_BY_MIME[file.type] || null;
+};
+
+/**
+ * Converts HTML to plain text, keeping headings and lists in the markdown-like
+ * layout the sample policies use so rules can still be compiled from it.
+ */
+export const htmlToText = (html: string): string => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  doc.querySelectorAll('script, style, noscript').forEach(el => el.remove());
+
+  const lines: string[] = [];
+  const textOf = (el: Element) => (el.textContent || '').replace(/\s+/g, ' ').trim();
+
+  const walkList = (list: Element, depth: number) => {
+    const ordered = list.tagName.toLowerCase() === 'ol';
+    Array.from(list.children).forEach((li, i) => {
+      // Nested lists become indented items of their own
+      const nested = Array.from(li.children).filter(c => /^(ul|ol)$/i.test(c.tagName));
+      nested.forEach(n => n.remove());
+      const text = textOf(li);
+      if (text) lines.push(`${'   '.repeat(depth)}${ordered ? `${i + 1}.` : '-'} ${text}`);
+      nested.forEach(n => walkList(n, depth + 1));
+    });
+  };
+
+  const walk = (node: Element) => {
+    Array.from(node.children).forEach(el => {
+      const tag = el.tagName.toLowerCase();
+      if (/^h[1-6]$/.test(tag)) {
+        if (textOf(el)) lines.push('', `${'#'.repeat(Number(tag[1]))} ${textOf(el)}`);
+      } else if (tag === 'ul' || tag === 'ol') {
+        walkList(el, 0);
+      } else if (tag === 'tr') {
+        const cells = Array.from(el.children).map(textOf);
+        if (cells.some(Boolean)) lines.push(cells.join(' | '));
+      } else if (el.querySelector('p, ul, ol, h1, h2, h3, h4, h5, h6, tr, div, pre, blockquote')) {
+        walk(el);
+      } else if (textOf(el)) {
+        lines.push(textOf(el));
+      }
+    });
+  };
+  walk(doc.body);
+  if (lines.length === 0) return textOf(doc.body);
+
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+};
+
+/**
+ * Reads a .txt, .md, .html or .docx file as plain text for a text-type
+ * Knowledge Base document.
+ */
+export const convertFileToText = async (file: File): Promise<string> => {
+  const format = getTextDocumentFormat(file);
+  switch (format) {
+    case 'txt':
+    case 'md':
+      return (await file.text()).trim();
+    case 'html':
+      return htmlToText(await file.text());
+    case 'docx': {
+      const { value } = await getMammoth().convertToHtml({ arrayBuffer: await file.arrayBuffer() });
+      return htmlToText(value);
+    }
+    default:
+      throw new Error(`Unsupported document format: ${file.name}`);
+  }
+};
+
+const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+/**
+ * Extracts the text of a base64 encoded PDF, one string per page.
+ * Scanned PDFs without a text layer come back as empty pages.
+ */
+export const extractPdfText = async (base64: string): Promise<string[]> => {
+  const pdfjsLib = getPdfJs();
+  const pdf = await pdfjsLib.getDocument({ data: base64ToBytes(base64) }).promise;
+
+  const pages: string[] = [];
+  for (let i = 1; i <= pdf.numPages; i++) {
+    const page = await pdf.getPage(i);
+    const content = await page.getTextContent();
+    pages.push(content.items.map((item: any) => item.str + (item.hasEOL ? '\n' : ' ')).join('').trim());
+  }
+  return pages;
+};
+
+/**
+ * Searchable text of a knowledge base document, or null if none has been extracted.
+ */
+export const getDocumentText = (doc: PolicyDocument): string | null => {
+  if (doc.type === 'text') return doc.content;
+  if (doc.pages && doc.pages.some(p => p.trim().length > 0)) return doc.pages.join('\n\n');
+  return null;
+};
@@ -0,0 +1,202 @@
+import { ClaimDomain, ClaimExtraction, CurrencyCode, EvidenceAttachment, FraudAssessment, FraudSignal } from "../types";
+import { getClaimField } from "./claimSchema";
+import { formatAmount, getClaimedAmount } from "./normalizationService";
+import { buildClaimTimeline, validateTimeline } from "./timelineService";
+
+const SEVERITY_WEIGHT: Record<FraudSignal['severity'], number> = { low: 10, medium: 25, high: 40 };
+
+// Rough upper end of a typical claim per domain; anything well above is worth a second look
+const TYPICAL_MAX_AMOUNT: Record<ClaimDomain, Partial<Record<CurrencyCode, number>>> = {
+  health: { INR: 300000, USD: 25000, EUR: 20000, GBP: 18000 },
+  motor: { INR: 200000, USD: 15000, EUR: 12000, GBP: 10000 },
+  travel: { INR: 100000, USD: 5000, EUR: 4000, GBP: 3500 },
+  property: { INR: 1000000, USD: 50000, EUR: 40000, GBP: 35000 },
+  general: { INR: 300000, USD: 20000, EUR: 16000, GBP: 14000 }
+};
+
+// Days after policy inception in which a claim is considered early
+const EARLY_CLAIM_DAYS = 30;
+
+const REVISION_PATTERN = /\b(revised|re-?estimated|re-?assessed|supplementary (?:estimate|claim)|additional damage (?:was )?found|updated (?:estimate|bill|invoice))\b/i;
+
+// Editing tools that leave their name in file metadata
+const EDITOR_SIGNATURES = /photoshop|gimp|lightroom|snapseed|picsart|canva|pixelmator|affinity|ilovepdf|smallpdf|sejda|pdfescape|pdf-?xchange|foxit phantom|nitro pro|pdfelement/i;
+
+const PROVIDER_FIELDS = ['hospital_name', 'garage_name', 'airline_hotel_name'];
+const PROVIDER_HISTORY_KEY = 'claimguard.providerHistory';
+const RECURRING_THRESHOLD = 2; // earlier claims naming the same provider
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const dateSignals = (extraction: ClaimExtraction): FraudSignal[] => {
+  const signals: FraudSignal[] = validateTimeline(buildClaimTimeline(extraction))
+    .filter(f => f.severity === 'violation')
+    .map(f => ({ kind: 'inconsistent_dates', severity: 'medium', explanation: f.message }));
+
+  (extraction.conflicts || [])
+    .filter(c => /date/.test(c.field))
+    .forEach(c => signals.push({
+      kind: 'inconsistent_dates',
+      severity: 'medium',
+      explanation: `The evidence gives different dates for ${c.field.replace(/_/g, ' ')}: ${c.candidates.map(x => `${x.value} (${x.source})`).join(' vs ')}.`
+    }));
+  return signals;
+};
+
+const amountSignals = (extraction: ClaimExtraction): FraudSignal[] => {
+  const claimed = getClaimedAmount(extraction);
+  const typical = claimed?.currency ? TYPICAL_MAX_AMOUNT[extraction.claim_domain][claimed.currency] : undefined;
+  if (!claimed || !typical || claimed.value <= typical * 2) return [];
+
+  const ratio = claimed.value / typical;
+  return [{
+    kind: 'unusual_amount',
+    severity: ratio > 5 ? 'high' : 'medium',
+    explanation: `${formatAmount(claimed)} is ${ratio.toFixed(1)}× the typical upper end for a ${extraction.claim_domain} claim (${formatAmount({ value: typical, currency: claimed.currency, approximate: false, original: '' })}).`
+  }];
+};
+
+const earlyClaimSignals = (extraction: ClaimExtraction): FraudSignal[] => {
+  const start = extraction.normalized?.ranges.policy_period?.start;
+  const loss = buildClaimTimeline(extraction).find(e => e.kind === 'incident' || e.kind === 'admission' || e.kind === 'trip_start');
+  // A policy start known only to the year says nothing about how soon the claim followed
+  if (!start || start.precision !== 'day' || !loss) return [];
+
+  const days = Math.round((Date.parse(loss.date.date) - Date.parse(start.date)) / DAY_MS);
+  if (days < 0 || days > EARLY_CLAIM_DAYS) return [];
+  return [{
+    kind: 'early_claim',
+    severity: days <= 7 ? 'high' : 'medium',
+    explanation: `${loss.label} on ${loss.date.original} is only ${days} day${days === 1 ? '' : 's'} after the policy started (${start.original}).`
+  }];
+};
+
+const revisionSignals = (extraction: ClaimExtraction, claimText: string): FraudSignal[] => {
+  const signals: FraudSignal[] = [];
+  const mention = claimText.match(REVISION_PATTERN);
+  if (mention) {
+    const twice = /\b(twice|multiple times|several times|again)\b/i.test(claimText);
+    signals.push({
+      kind: 'revised_estimate',
+      severity: twice ? 'medium' : 'low',
+      explanation: `The claim says the estimate was changed ("${mention[0]}"${twice ? ', more than once' : ''}). Compare the original and revised figures.`
+    });
+  }
+  (extraction.conflicts || [])
+    .filter(c => /amount|cost|estimate|value/.test(c.field))
+    .forEach(c => signals.push({
+      kind: 'revised_estimate',
+      severity: 'medium',
+      explanation: `The evidence gives different figures for ${c.field.replace(/_/g, ' ')}: ${c.candidates.map(x => `${x.value} (${x.source})`).join(' vs ')}.`
+    }));
+  return signals;
+};
+
+/**
+ * Looks for traces of editing software and, for PDFs, edits saved after creation.
+ * Metadata can be stripped, so a clean result proves nothing.
+ */
+const tamperingSignals = (files: Pick<EvidenceAttachment, 'name' | 'mimeType' | 'data'>[]): FraudSignal[] =>
+  files.flatMap(file => {
+    let raw: string;
+    try {
+      raw = atob(file.data);
+    } catch {
+      return [];
+    }
+    const signals: FraudSignal[] = [];
+    const editor = raw.match(EDITOR_SIGNATURES);
+    if (editor) {
+      signals.push({ kind: 'document_tampering', severity: 'medium', explanation: `"${file.name}" was saved by ${editor[0]}, an editing tool.` });
+    }
+    if (file.mimeType === 'application/pdf') {
+      const revisions = (raw.match(/%%EOF/g) || []).length;
+      const created = raw.match(/\/CreationDate\s*\(D:(\d{8})/);
+      const modified = raw.match(/\/ModDate\s*\(D:(\d{8})/);
+      if (revisions > 1) {
+        signals.push({ kind: 'document_tampering', severity: 'low', explanation: `"${file.name}" was changed ${revisions - 1} time${revisions > 2 ? 's' : ''} after it was first saved.` });
+      }
+      if (created && modified && created[1] !== modified[1]) {
+        signals.push({ kind: 'document_tampering', severity: 'low', explanation: `"${file.name}" was modified on a different day from its creation (${created[1]} vs ${modified[1]}).` });
+      }
+    }
+    return signals;
+  });
+
+type ProviderHistory = Record<string, string[]>; // provider -> keys of claims naming it
+
+const loadProviderHistory = (): ProviderHistory => {
+  try {
+    return JSON.parse(localStorage.getItem(PROVIDER_HISTORY_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+// Cheap stable key so re-processing the same claim is not counted as a new one
+const claimKey = (text: string) => {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) hash = (hash * 31 + text.charCodeAt(i)) | 0;
+  return hash.toString(36);
+};
+
+const normalizeProvider = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * Checks the hospital / garage / hotel against providers seen in earlier claims on this
+ * device, then records this claim.
+ */
+const recurringProviderSignals = (extraction: ClaimExtraction, claimText: string): FraudSignal[] => {
+  const providers = PROVIDER_FIELDS
+    .map(field => getClaimField(extraction, field))
+    .filter((v): v is string => !!v && !/^(not specified|unknown)$/i.test(v));
+  if (providers.length === 0) return [];
+
+  const history = loadProviderHistory();
+  const key = claimKey(claimText.trim());
+  const signals: FraudSignal[] = [];
+  providers.forEach(provider => {
+    const id = normalizeProvider(provider);
+    const earlier = (history[id] || []).filter(k => k !== key);
+    if (earlier.length >= RECURRING_THRESHOLD) {
+      signals.push({
+        kind: 'recurring_provider',
+        severity: earlier.length >= RECURRING_THRESHOLD * 2 ? 'medium' : 'low',
+        explanation: `${provider} also appears in ${earlier.length} earlier claims processed here.`
+      });
+    }
+    history[id] = [...earlier, key];
+  });
+
+  try {
+    localStorage.setItem(PROVIDER_HISTORY_KEY, JSON.stringify(history));
+  } catch (e) {
+    console.warn("Could not save provider history:", e);
+  }
+  return signals;
+};
+
+/**
+ * Runs every fraud indicator over an extracted claim and its attachments.
+ * The score only ranks claims for investigation; it plays no part in eligibility.
+ */
+export const assessFraudRisk = (
+  extraction: ClaimExtraction,
+  claimText: string,
+  files: Pick<EvidenceAttachment, 'name' | 'mimeType' | 'data'>[] = []
+): FraudAssessment => {
+  const signals = [
+    ...dateSignals(extraction),
+    ...amountSignals(extraction),
+    ...earlyClaimSignals(extraction),
+    ...revisionSignals(extraction, claimText),
+    ...tamperingSignals(files),
+    ...recurringProviderSignals(extraction, claimText)
+  ];
+  const risk_score = Math.min(100, signals.reduce((sum, s) => sum + SEVERITY_WEIGHT[s.severity], 0));
+  return {
+    risk_score,
+    level: risk_score >= 50 ? 'high' : risk_score >= 25 ? 'medium' : 'low',
+    signals
+  };
+};
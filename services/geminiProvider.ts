@@ -0,0 +1,99 @@
+import { GenerateContentResponse, GoogleGenAI } from "@google/genai";
+import { Embedder } from "./retrievalService";
+import { forgetKnowledgeCache, getKnowledgeCache } from "./contextCacheService";
+import { GEMINI_LIMITS } from "./tokenBudgetService";
+import { LlmProvider } from "./llmProvider";
+import { LlmError, REQUEST_TIMEOUT_MS } from "./llmErrors";
+
+const MODEL_ID = "gemini-2.5-flash";
+const EMBEDDING_MODEL = "text-embedding-004";
+const EMBED_BATCH_SIZE = 100;
+
+// Helper to get the AI client lazily
+// This prevents the app from crashing at startup if the API_KEY is missing
+const getAiClient = () => {
+  const apiKey = process.env.API_KEY;
+  if (!apiKey) {
+    console.error("API_KEY is missing in environment variables.");
+    throw new LlmError('auth', 'the API key is missing; add API_KEY to the .env file and restart the app');
+  }
+  return new GoogleGenAI({ apiKey, httpOptions: { timeout: REQUEST_TIMEOUT_MS } });
+};
+
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII'];
+
+// A blocked prompt or answer comes back as a normal response with no text
+const getResponseText = (response: GenerateContentResponse): string => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+    throw new LlmError('safety', `Gemini blocked this request (${(blockReason || finishReason || '').toLowerCase()}); remove graphic or personal details from the claim text or evidence and try again`);
+  }
+  return response.text || '';
+};
+
+const geminiEmbedder: Embedder = {
+  model: EMBEDDING_MODEL,
+  embed: async (texts, task) => {
+    const ai = getAiClient();
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += EMBED_BATCH_SIZE) {
+      const response = await ai.models.embedContent({
+        model: EMBEDDING_MODEL,
+        contents: texts.slice(i, i + EMBED_BATCH_SIZE),
+        config: { taskType: task === 'query' ? 'RETRIEVAL_QUERY' : 'RETRIEVAL_DOCUMENT' }
+      });
+      vectors.push(...(response.embeddings || []).map(e => e.values || []));
+    }
+    return vectors;
+  }
+};
+
+/**
+ * Google Gemini through @google/genai: native PDFs, images, JSON schemas,
+ * thinking budgets and context caching.
+ */
+export const createGeminiProvider = (): LlmProvider => ({
+  label: 'Google Gemini',
+  model: MODEL_ID,
+  limits: GEMINI_LIMITS,
+  capabilities: { images: true, pdfs: true, jsonSchema: true },
+  embedder: geminiEmbedder,
+
+  generate: async ({ parts, model, schema, temperature, seed, maxOutputTokens, thinkingBudget, cachedContent }) => {
+    const response = await getAiClient().models.generateContent({
+      model: model || MODEL_ID,
+      contents: { parts },
+      config: {
+        ...(schema ? { responseMimeType: "application/json", responseSchema: schema } : {}),
+        ...(temperature !== undefined ? { temperature } : {}),
+        ...(seed !== undefined ? { seed } : {}),
+        ...(maxOutputTokens ? { maxOutputTokens } : {}),
+        ...(thinkingBudget !== undefined ? { thinkingConfig: { thinkingBudget } } : {}),
+        ...(cachedContent ? { cachedContent } : {})
+      }
+    });
+    return getResponseText(response);
+  },
+
+  createChat: async ({ history, systemInstruction, cachedContent, model, temperature, maxOutputTokens, thinkingBudget }) => {
+    const chat = getAiClient().chats.create({
+      model: model || MODEL_ID,
+      history,
+      config: {
+        // Requests using a cache cannot set a system instruction; the cache holds it
+        ...(cachedContent ? { cachedContent } : { systemInstruction }),
+        ...(temperature !== undefined ? { temperature } : {}),
+        ...(maxOutputTokens ? { maxOutputTokens } : {}),
+        ...(thinkingBudget !== undefined ? { thinkingConfig: { thinkingBudget } } : {})
+      }
+    });
+    return { send: async parts => getResponseText(await chat.sendMessage({ message: parts })) };
+  },
+
+  countTokens: async parts =>
+    (await getAiClient().models.countTokens({ model: MODEL_ID, contents: { parts } })).totalTokens ?? 0,
+
+  cacheKnowledge: (documents, parts, systemInstruction, model) => getKnowledgeCache(getAiClient(), model || MODEL_ID, documents, parts, systemInstruction),
+  forgetCache: forgetKnowledgeCache
+});
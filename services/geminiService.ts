@@ -1,25 +1,35 @@
-import { GoogleGenAI, Type, Part, Content } from "@google/genai";
-import { ClaimExtraction, VerificationResult, PolicyDocument } from "../types";
-
-// Helper to get the AI client lazily
-// This prevents the app from crashing at startup if the API_KEY is missing
-const getAiClient = () => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) {
-    console.error("API_KEY is missing in environment variables.");
-    throw new Error("API Key is missing. Please check your configuration.");
-  }
-  return new GoogleGenAI({ apiKey });
-};
+import { Type, Part } from "@google/genai";
+import { ClaimExtraction, ClaimChecklist, ClaimDomain, ConsistencySample, CurrencyCode, EvidenceAttachment, EvidenceType, FieldConflict, VerificationResult, PolicyDocument, PolicyRuleSet, PolicySummary, KnowledgeContext } from "../types";
+import { EVIDENCE_TYPE_LABELS } from "../constants";
+import { CLAIM_DOMAIN_LABELS, COMMON_CLAIM_FIELDS, DOMAIN_CLAIM_FIELDS, classifyClaimDomain } from "./claimSchema";
+import { normalizeExtraction } from "./normalizationService";
+import { ModelFieldSource, matchAttachmentName, resolveProvenance } from "./provenanceService";
+import { ChecklistRequirement, getChecklistWarnings } from "./checklistService";
+import { PayoutAdjustment, buildPayout } from "./payoutService";
+import { ModelCitation, withVerifiedCitations } from "./citationService";
+import { withPolicyVerdicts } from "./policyRankingService";
+import { calibrateConfidence } from "./calibrationService";
+import { getDocumentText } from "./documentTextService";
+import { retrieveKnowledge, shouldUseFullContext } from "./retrievalService";
+import { formatPolicyIndex } from "./policySummaryService";
+import { estimatePartsTokens, formatTokens } from "./tokenBudgetService";
+import { GenerateRequest, LlmChat, LlmProvider, getProvider } from "./llmProvider";
+import { getTaskRequest } from "./modelSettingsService";
+import { LlmError, classifyLlmError, toLlmError } from "./llmErrors";
 
 /**
  * Helper to construct parts from the entire Knowledge Base (multiple documents)
+ * PDFs go as files to models that read them, otherwise as their extracted text.
  */
-const getKnowledgeBaseParts = (documents: PolicyDocument[]): Part[] => {
+const getKnowledgeBaseParts = (documents: PolicyDocument[], readsPdfs = true): Part[] => {
   const parts: Part[] = [];
   
   documents.forEach(doc => {
-    if (doc.type === 'file') {
+    const text = doc.type === 'file' && !readsPdfs ? getDocumentText(doc) : null;
+    if (text) {
+      parts.push({ text: `\n--- Document: ${doc.name} (id: ${doc.id}, extracted text) ---\n${text}\n----------------\n` });
+    } else if (doc.type === 'file') {
+      parts.push({ text: `\n--- Document: ${doc.name} (id: ${doc.id}) ---` });
       parts.push({
         inlineData: {
           mimeType: doc.mimeType,
@@ -28,7 +38,7 @@ const getKnowledgeBaseParts = (documents: PolicyDocument[]): Part[] => {
       });
     } else {
       parts.push({
-        text: `\n--- Document: ${doc.name} ---\n${doc.content}\n----------------\n`
+        text: `\n--- Document: ${doc.name} (id: ${doc.id}) ---\n${doc.content}\n----------------\n`
       });
     }
   });
@@ -36,6 +46,99 @@ const getKnowledgeBaseParts = (documents: PolicyDocument[]): Part[] => {
   return parts;
 };
 
+const getChunkParts = (chunks: KnowledgeContext['chunks']): Part[] => chunks.map(chunk => {
+  const location = [chunk.page ? `page ${chunk.page}` : '', chunk.section ? `section "${chunk.section}"` : ''].filter(Boolean).join(', ');
+  return {
+    text: `\n--- Document: ${chunk.document_name} (id: ${chunk.document_id})${location ? `, ${location}` : ''} ---\n${chunk.text}\n----------------\n`
+  };
+});
+
+interface KnowledgeParts {
+  parts: Part[];
+  context: KnowledgeContext;
+  // Set when the documents sent whole are in a context cache; `parts` then holds `cacheNote` in their place
+  cache?: { name: string; cacheNote: Part; inlineParts: Part[] };
+}
+
+const CACHED_KNOWLEDGE_INTRO = "Reference Policy Documents (Knowledge Base):";
+
+/**
+ * Knowledge Base parts for a request about `query`. Large knowledge bases are cut
+ * down to the most relevant sections (see retrievalService); small ones go in whole.
+ * Documents sent whole are put in a context cache where possible (see contextCacheService).
+ */
+const getKnowledgeContextParts = async (provider: LlmProvider, documents: PolicyDocument[], query: string, model?: string): Promise<KnowledgeParts> => {
+  const { context, wholeDocuments } = await retrieveKnowledge(documents, query, provider.embedder);
+  // Summaries give an overview of every policy, including ones whose sections were not retrieved
+  const policyIndex = formatPolicyIndex(documents);
+  const indexParts: Part[] = policyIndex
+    ? [{ text: `\nPolicy index (summaries only; rely on the policy wording below for decisions and citations):\n${policyIndex}` }]
+    : [];
+  const inlineParts = getKnowledgeBaseParts(wholeDocuments, provider.capabilities.pdfs);
+  const cacheName = provider.cacheKnowledge ? await provider.cacheKnowledge(wholeDocuments, [{ text: CACHED_KNOWLEDGE_INTRO }, ...inlineParts], undefined, model) : null;
+  const cacheNote: Part = { text: `\n(The documents ${wholeDocuments.map(d => `"${d.name}"`).join(', ')} are in the cached context at the start of this request.)` };
+  const wholeParts = cacheName ? [cacheNote] : inlineParts;
+  const cache = cacheName ? { name: cacheName, cacheNote, inlineParts } : undefined;
+  const cachedContext = cacheName ? { ...context, cached: true } : context;
+
+  if (context.mode === 'full') return { parts: [...indexParts, ...wholeParts], context: cachedContext, cache };
+
+  const parts: Part[] = [
+    ...indexParts,
+    { text: `\n(Only the ${context.chunks.length} Knowledge Base sections most relevant to this request are included.)` },
+    ...getChunkParts(context.chunks),
+    ...wholeParts
+  ];
+  return { parts, context: cachedContext, cache };
+};
+
+// Requests estimated above this share of the context window are counted by the API before sending
+const COUNT_TOKENS_SHARE = 0.8;
+
+/**
+ * Pre-flight check: fails before sending a request the model would reject for its size.
+ * The local estimate is confirmed with the API's token count when it comes close.
+ */
+const checkRequestSize = async (provider: LlmProvider, parts: Part[]) => {
+  let tokens = estimatePartsTokens(parts);
+  if (tokens > provider.limits.context_tokens * COUNT_TOKENS_SHARE && provider.countTokens) {
+    try {
+      tokens = await provider.countTokens(parts) || tokens;
+    } catch (e) {
+      console.warn("Token count failed, using the local estimate:", e);
+    }
+  }
+  if (tokens > provider.limits.context_tokens) {
+    throw new LlmError('too_large', `the request is about ${formatTokens(tokens)} tokens, over the model's limit of ${formatTokens(provider.limits.context_tokens)}; trim the Knowledge Base, use policy summaries or switch to retrieval`);
+  }
+};
+
+/**
+ * A model call with the Knowledge Base cache applied. If the cache has expired or
+ * been deleted the request is sent once more with the documents inline, and the
+ * cache is rebuilt by the next call. Other failures are passed on.
+ */
+const generateWithKnowledge = async (provider: LlmProvider, knowledge: KnowledgeParts, request: GenerateRequest): Promise<string> => {
+  const cache = knowledge.cache;
+  // Cached documents still count towards the context window
+  const inline = cache ? request.parts.flatMap(p => (p === cache.cacheNote ? cache.inlineParts : [p])) : request.parts;
+  await checkRequestSize(provider, inline);
+  if (!cache) return provider.generate(request);
+  try {
+    return await provider.generate({ ...request, cachedContent: cache.name });
+  } catch (e) {
+    if (classifyLlmError(e).kind !== 'cache') throw e;
+    console.warn("Context cache is gone, retrying inline:", e);
+    provider.forgetCache?.(cache.name);
+    return provider.generate({ ...request, parts: inline });
+  }
+};
+
+// Retrieval query for a claim: what happened and the policy it is claimed under
+const getClaimQuery = (extraction: ClaimExtraction) =>
+  [extraction.incident_type, extraction.damage_description, extraction.policy_name, ...(extraction.key_topics || [])]
+    .filter(Boolean).join('. ');
+
 /**
  * Helper to clean and parse JSON from model response.
  * Handles Markdown code blocks and empty whitespace.
@@ -70,28 +173,47 @@ const cleanAndParseJson = <T>(text: string | undefined, fallback: T): T => {
          console.error("Substring JSON Parse Error:", innerError);
        }
     }
-    throw new Error("Failed to parse model response as JSON.");
+    throw new LlmError('bad_json', 'the model returned malformed JSON; try again, or lower the temperature in the model settings');
   }
 };
 
 export interface ClaimInput {
   text: string;
-  file?: {
-    mimeType: string;
-    data: string; // Base64
-  };
+  files?: EvidenceAttachment[];
 }
 
 /**
- * Step 1: Extraction Model
- * Uses gemini-2.5-flash.
- * Injects ALL knowledge base documents + Claim Evidence (Text/Image/PDF).
+ * Helper to construct parts for the evidence bundle.
+ * Each file is preceded by a label so the model can cite it by name.
  */
-export const extractClaimDetails = async (input: ClaimInput, documents: PolicyDocument[]): Promise<ClaimExtraction> => {
-  const ai = getAiClient();
-  const modelId = "gemini-2.5-flash";
-  
-  const extractionSchema = {
+const getEvidenceParts = (files: EvidenceAttachment[]): Part[] => {
+  const parts: Part[] = [];
+
+  files.forEach((file, index) => {
+    parts.push({
+      text: `\n--- Evidence ${index + 1}: "${file.name}" (${EVIDENCE_TYPE_LABELS[file.evidenceType]}) ---`
+    });
+    parts.push({
+      inlineData: {
+        mimeType: file.mimeType,
+        data: file.data
+      }
+    });
+  });
+
+  return parts;
+};
+
+/**
+ * Builds the response schema for a claim domain: generic fields + shared labels + domain-specific labels.
+ */
+const buildExtractionSchema = (domain: ClaimDomain) => {
+  const typedProperties: Record<string, { type: Type; description: string }> = {};
+  [...COMMON_CLAIM_FIELDS, ...DOMAIN_CLAIM_FIELDS[domain]].forEach(field => {
+    typedProperties[field.key] = { type: Type.STRING, description: field.description };
+  });
+
+  return {
     type: Type.OBJECT,
     properties: {
       incident_type: { type: Type.STRING, description: "Type of incident (e.g., Car Accident, House Fire)" },
@@ -107,13 +229,109 @@ export const extractClaimDetails = async (input: ClaimInput, documents: PolicyDo
       key_topics: { 
         type: Type.ARRAY, 
         items: { type: Type.STRING },
-        description: "Key topics extracted from the claim evidence that are specifically relevant to the provided Knowledge Base context."
+        description: "Key topics extracted from the claim evidence that are specifically relevant to the provided Knowledge Base context. Do not repeat values already captured in the typed fields."
+      },
+      ...typedProperties,
+      conflicts: {
+        type: Type.ARRAY,
+        description: "Fields where the evidence documents disagree (e.g., different amounts on the bill and the claim form).",
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            field: { type: Type.STRING, description: "Name of the field in conflict" },
+            chosen_value: { type: Type.STRING, description: "Value you put in the field" },
+            chosen_source: { type: Type.STRING, description: "'claim_text' or the file name the chosen value came from" },
+            candidates: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  value: { type: Type.STRING },
+                  source: { type: Type.STRING, description: "'claim_text' or the file name" }
+                },
+                required: ["value", "source"]
+              }
+            },
+            resolution: { type: Type.STRING, description: "Why the chosen value was preferred" }
+          },
+          required: ["field", "chosen_value", "chosen_source", "candidates", "resolution"]
+        }
+      },
+      field_sources: {
+        type: Type.ARRAY,
+        description: "For every field you filled, the exact evidence it came from.",
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            field: { type: Type.STRING, description: "Name of the field (e.g., incident_date, hospital_name)" },
+            quote: { type: Type.STRING, description: "Short verbatim quote from the evidence that supports the value" },
+            source: { type: Type.STRING, description: "'claim_text' or the exact file name of the evidence the quote is from" },
+            page: { type: Type.INTEGER, description: "1-based page number in that file, if applicable" }
+          },
+          required: ["field", "quote", "source"]
+        }
       }
     },
-    required: ["incident_type", "damage_description", "key_topics"]
+    required: ["incident_type", "damage_description", "key_topics", "field_sources"]
   };
+};
+
+/**
+ * Decides which domain schema to use for the claim.
+ * Keyword heuristics on the claim text come first; if they are inconclusive
+ * (e.g., evidence is only attached files) a small classification call is made.
+ */
+const resolveClaimDomain = async (provider: LlmProvider, input: ClaimInput): Promise<ClaimDomain> => {
+  const heuristic = classifyClaimDomain(input.text);
+  if (heuristic) return heuristic;
+  if (!input.files || input.files.length === 0) return 'general';
+
+  const domains = Object.keys(CLAIM_DOMAIN_LABELS) as ClaimDomain[];
+  const responseText = await provider.generate({
+    parts: [
+      ...getEvidenceParts(input.files),
+      { text: `Classify this insurance claim evidence into one line of business: ${domains.join(', ')}.\n\nClaim notes: "${input.text}"` }
+    ],
+    schema: {
+      type: Type.OBJECT,
+      properties: {
+        claim_domain: { type: Type.STRING, enum: domains }
+      },
+      required: ["claim_domain"]
+    },
+    ...getTaskRequest('extraction'),
+    temperature: 0
+  });
+
+  const parsed = cleanAndParseJson<{ claim_domain?: ClaimDomain }>(responseText, {});
+  return parsed.claim_domain && domains.includes(parsed.claim_domain) ? parsed.claim_domain : 'general';
+};
+
+/**
+ * Snaps the source names in reported conflicts to the real attachment names.
+ */
+const normalizeConflictSources = (conflicts: FieldConflict[], fileNames: string[]): FieldConflict[] => {
+  const snap = (source: string) => matchAttachmentName(source, fileNames) || source;
+  return conflicts.map(c => ({
+    ...c,
+    chosen_source: snap(c.chosen_source),
+    candidates: (c.candidates || []).map(cand => ({ ...cand, source: snap(cand.source) }))
+  }));
+};
+
+/**
+ * Step 1: Extraction Model
+ * Uses the configured provider with the extraction profile (gemini-2.5-flash by default).
+ * Injects ALL knowledge base documents + Claim Evidence bundle (Text + labelled Images/PDFs).
+ * The response schema is chosen per claim domain (health, motor, travel, property).
+ * Amounts and dates are normalized before returning (see normalizationService).
+ */
+export const extractClaimDetails = async (input: ClaimInput, documents: PolicyDocument[]): Promise<ClaimExtraction> => {
+  const provider = getProvider();
 
   try {
+    const domain = await resolveClaimDomain(provider, input);
+    const extractionSchema = buildExtractionSchema(domain);
     const parts: Part[] = [];
 
     // 1. Add System Instruction / Context Setup
@@ -124,22 +342,21 @@ export const extractClaimDetails = async (input: ClaimInput, documents: PolicyDo
       Use these documents to understand what information is "relevant" or "required" for a claim.`
     });
 
-    // 2. Add All Knowledge Base Documents
-    parts.push(...getKnowledgeBaseParts(documents));
+    // 2. Add the Knowledge Base (or its most relevant sections)
+    const request = getTaskRequest('extraction');
+    const knowledge = await getKnowledgeContextParts(provider, documents, [input.text, ...(input.files || []).map(f => f.name)].join('\n'), request.model);
+    parts.push(...knowledge.parts);
 
-    // 3. Add Claim Evidence (File) if present
-    if (input.file) {
-      parts.push({
-        inlineData: {
-          mimeType: input.file.mimeType,
-          data: input.file.data
-        }
-      });
-    }
+    // 3. Add Claim Evidence bundle (all attachments, labelled by name and type)
+    const files = input.files || [];
+    parts.push(...getEvidenceParts(files));
 
     // 4. Add Claim Text and Task
     parts.push({
         text: `Task: Analyze the provided claim evidence (text description and/or attached files). Identify key topics and facts that are specifically relevant or required based on the Reference Policy Documents provided above.
+        This is a ${CLAIM_DOMAIN_LABELS[domain]}. Fill every typed field you can find evidence for; leave the rest empty.
+        For each filled field add an entry to field_sources quoting the evidence word-for-word.
+        ${files.length > 1 ? `There are ${files.length} evidence documents. When they disagree on a value, prefer the most authoritative document for that fact (bills/invoices for amounts, medical/discharge reports for diagnosis and dates, police/surveyor reports for incident facts) and record the disagreement in conflicts.` : ''}
         
         If an image is provided, describe the visible damage relevant to the claim.
 
@@ -147,45 +364,322 @@ export const extractClaimDetails = async (input: ClaimInput, documents: PolicyDo
         "${input.text}"`
     });
 
-    const response = await ai.models.generateContent({
-      model: modelId,
-      contents: { parts },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: extractionSchema,
-        temperature: 0.1,
-      }
+    const responseText = await generateWithKnowledge(provider, knowledge, {
+      parts,
+      schema: extractionSchema,
+      ...request
     });
 
-    return cleanAndParseJson<ClaimExtraction>(response.text, {} as ClaimExtraction);
+    const { field_sources, conflicts, ...parsed } = cleanAndParseJson<Partial<ClaimExtraction> & { field_sources?: ModelFieldSource[] }>(responseText, {});
+    const fileNames = files.map(f => f.name);
+    const extraction = {
+      ...parsed,
+      key_topics: parsed.key_topics || [],
+      involved_parties: parsed.involved_parties || [],
+      claim_domain: domain
+    } as ClaimExtraction;
+    extraction.provenance = resolveProvenance(extraction, field_sources, input.text, fileNames);
+    extraction.conflicts = normalizeConflictSources(conflicts || [], fileNames);
+
+    return normalizeExtraction(extraction, input.text);
 
   } catch (error) {
     console.error("Extraction failed:", error);
-    throw new Error("Failed to extract claim details.");
+    throw toLlmError(error, "Failed to extract claim details");
+  }
+};
+
+/**
+ * Step 1b: Requirements Lookup
+ * Uses the configured provider with the extraction profile.
+ * Reads the Knowledge Base to find which facts and supporting documents the matched
+ * policy requires for this kind of claim. Statuses are worked out locally by
+ * checklistService; the model only assesses facts that map to no extraction field.
+ */
+export const identifyClaimRequirements = async (
+  extraction: ClaimExtraction,
+  evidenceTypes: EvidenceType[],
+  documents: PolicyDocument[]
+): Promise<{ policy_name?: string; requirements: ChecklistRequirement[] }> => {
+  const provider = getProvider();
+
+  const fieldKeys = ['incident_type', 'incident_date', 'location', 'involved_parties', 'damage_description', 'estimated_cost',
+    ...COMMON_CLAIM_FIELDS.map(f => f.key), ...DOMAIN_CLAIM_FIELDS[extraction.claim_domain].map(f => f.key)];
+  const evidenceTypeKeys = Object.keys(EVIDENCE_TYPE_LABELS);
+
+  const requirementsSchema = {
+    type: Type.OBJECT,
+    properties: {
+      policy_name: { type: Type.STRING, description: "Policy in the Knowledge Base this claim falls under, or empty if none matches" },
+      requirements: {
+        type: Type.ARRAY,
+        description: "Facts and supporting documents that policy requires for this type of claim. Empty if the policy does not state any.",
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            kind: { type: Type.STRING, enum: ["fact", "document"] },
+            label: { type: Type.STRING, description: "Short name of the requirement" },
+            fields: { type: Type.ARRAY, items: { type: Type.STRING, enum: fieldKeys }, description: "For facts: extraction fields that satisfy it (any one)" },
+            evidence_type: { type: Type.STRING, enum: evidenceTypeKeys, description: "For documents: the kind of document" },
+            required: { type: Type.BOOLEAN, description: "False if the policy only needs it in some situations" },
+            policy_reference: { type: Type.STRING, description: "Section or wording of the policy that asks for it" },
+            assessed_status: { type: Type.STRING, enum: ["present", "missing", "ambiguous"], description: "For facts with no matching field: is it in the extracted claim?" },
+            assessed_note: { type: Type.STRING }
+          },
+          required: ["kind", "label", "required"]
+        }
+      }
+    },
+    required: ["requirements"]
+  };
+
+  const parts: Part[] = [];
+
+  parts.push({
+    text: `You are an insurance claims intake specialist.
+    
+    You have access to the following Reference Policy Documents (Knowledge Base).`
+  });
+
+  const request = getTaskRequest('extraction');
+  const knowledge = await getKnowledgeContextParts(provider, documents, getClaimQuery(extraction), request.model);
+  parts.push(...knowledge.parts);
+
+  parts.push({
+    text: `Here are the extracted details from a new ${CLAIM_DOMAIN_LABELS[extraction.claim_domain]}:
+    ${JSON.stringify(extraction, null, 2)}
+
+    Attached supporting documents: ${evidenceTypes.length > 0 ? evidenceTypes.map(t => EVIDENCE_TYPE_LABELS[t]).join(', ') : 'none'}
+
+    Task:
+    1. Find the policy in the Reference Policy Documents this claim falls under.
+    2. List the facts and supporting documents that policy requires before a claim of this type can be decided.
+    3. Only list requirements the policy wording supports; do not invent generic ones.`
+  });
+
+  try {
+    const responseText = await generateWithKnowledge(provider, knowledge, {
+      parts,
+      schema: requirementsSchema,
+      ...request
+    });
+
+    const parsed = cleanAndParseJson<{ policy_name?: string; requirements?: ChecklistRequirement[] }>(responseText, {});
+    return { policy_name: parsed.policy_name || undefined, requirements: parsed.requirements || [] };
+  } catch (error) {
+    console.error("Requirements lookup failed:", error);
+    throw toLlmError(error, "Failed to identify policy requirements");
+  }
+};
+
+/**
+ * Summarizes every policy described in an uploaded document into a card: name, number,
+ * line of business, cover, exclusions, deductibles, limits and territory.
+ * The result is meant to be reviewed and edited in the Knowledge Base Manager.
+ */
+export const summarizePolicyDocument = async (doc: PolicyDocument): Promise<PolicySummary[]> => {
+  const provider = getProvider();
+
+  const listSchema = (description: string) => ({ type: Type.ARRAY, items: { type: Type.STRING }, description });
+  const summarySchema = {
+    type: Type.OBJECT,
+    properties: {
+      policies: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            policy_name: { type: Type.STRING },
+            policy_number: { type: Type.STRING, description: "Policy or product code, omit if none" },
+            line_of_business: { type: Type.STRING, enum: Object.keys(CLAIM_DOMAIN_LABELS) },
+            covered_incidents: listSchema("Short labels, e.g. 'Collision', 'Theft'"),
+            exclusions: listSchema("Short labels, e.g. 'Racing', 'Wear and tear'"),
+            deductibles: listSchema("Each deductible or excess with its amount, e.g. '$500 per claim'"),
+            limits: listSchema("Sum insured, sub-limits, caps and maximum durations, each with its amount"),
+            territory: { type: Type.STRING, description: "Where cover applies, omit if not stated" }
+          },
+          required: ["policy_name", "line_of_business", "covered_incidents", "exclusions", "deductibles", "limits"]
+        }
+      }
+    },
+    required: ["policies"]
+  };
+
+  const parts: Part[] = [
+    { text: "You are an insurance policy analyst. Read the policy document below." },
+    ...getKnowledgeBaseParts([doc], provider.capabilities.pdfs),
+    {
+      text: `Task: Summarize every policy described in the document. Keep each list item short and use the document's own terms.
+    Only record what the wording states; leave lists empty rather than guessing.`
+    }
+  ];
+
+  try {
+    const responseText = await provider.generate({ parts, schema: summarySchema, ...getTaskRequest('extraction') });
+
+    const parsed = cleanAndParseJson<{ policies?: PolicySummary[] }>(responseText, {});
+    return (parsed.policies || []).map(p => ({
+      ...p,
+      covered_incidents: p.covered_incidents || [],
+      exclusions: p.exclusions || [],
+      deductibles: p.deductibles || [],
+      limits: p.limits || []
+    }));
+  } catch (error) {
+    console.error("Policy summary failed:", error);
+    throw toLlmError(error, "Failed to summarize the policy document");
+  }
+};
+
+/**
+ * Compiles explicit rules from a policy document the local parser cannot read (e.g. PDFs).
+ * The result is meant to be reviewed and edited in the Knowledge Base Manager.
+ */
+export const compilePolicyRules = async (doc: PolicyDocument): Promise<PolicyRuleSet[]> => {
+  const provider = getProvider();
+
+  const termSchema = {
+    type: Type.ARRAY,
+    items: {
+      type: Type.OBJECT,
+      properties: {
+        label: { type: Type.STRING, description: "Wording used by the policy" },
+        keywords: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Lower-case words or short phrases a claim would use for it, including common synonyms" }
+      },
+      required: ["label", "keywords"]
+    }
+  };
+
+  const rulesSchema = {
+    type: Type.OBJECT,
+    properties: {
+      rule_sets: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            policy_name: { type: Type.STRING },
+            policy_number: { type: Type.STRING },
+            domain: { type: Type.STRING, enum: Object.keys(CLAIM_DOMAIN_LABELS) },
+            covered_incidents: termSchema,
+            exclusions: termSchema,
+            deductible_amount: { type: Type.NUMBER, description: "Deductible per claim, omit if none" },
+            deductible_currency: { type: Type.STRING, enum: ["INR", "USD", "EUR", "GBP"] },
+            waiting_period_days: { type: Type.NUMBER, description: "Days after policy start before claims are payable, omit if none" },
+            max_trip_days: { type: Type.NUMBER, description: "Travel policies: longest trip covered, omit if none" },
+            effective_from: { type: Type.STRING, description: "Date the policy wording takes effect, YYYY-MM-DD, omit if not stated" },
+            effective_to: { type: Type.STRING, description: "Date the policy wording expires, YYYY-MM-DD, omit if not stated" },
+            notification_window_days: { type: Type.NUMBER, description: "Days after the incident within which a claim must be notified, omit if not stated" }
+          },
+          required: ["policy_name", "domain", "covered_incidents", "exclusions"]
+        }
+      }
+    },
+    required: ["rule_sets"]
+  };
+
+  const parts: Part[] = [
+    { text: "You are an insurance policy analyst. Read the policy document below." },
+    ...getKnowledgeBaseParts([doc], provider.capabilities.pdfs),
+    {
+      text: `Task: For every policy described in the document, list the covered incidents, the exclusions and any
+    deductible, waiting period, maximum trip length, effective dates and claim notification deadline. Only record what the wording states; do not add generic terms.`
+    }
+  ];
+
+  try {
+    const responseText = await provider.generate({ parts, schema: rulesSchema, ...getTaskRequest('extraction') });
+
+    type CompiledRuleSet = Omit<PolicyRuleSet, 'id' | 'document_id' | 'deductible'> & {
+      deductible_amount?: number;
+      deductible_currency?: CurrencyCode;
+    };
+    const parsed = cleanAndParseJson<{ rule_sets?: CompiledRuleSet[] }>(responseText, {});
+
+    return (parsed.rule_sets || []).map(({ deductible_amount, deductible_currency, ...rest }, index) => ({
+      ...rest,
+      id: `${doc.id}-rules-${index}`,
+      document_id: doc.id,
+      ...(deductible_amount ? { deductible: { value: deductible_amount, currency: deductible_currency || null } } : {})
+    }));
+  } catch (error) {
+    console.error("Rule compilation failed:", error);
+    throw toLlmError(error, "Failed to compile policy rules");
   }
 };
 
 /**
  * Step 2: Verification Model
- * Uses gemini-2.5-flash with Thinking Config enabled.
+ * Uses the configured provider with the verification profile; by default Thinking is enabled.
  * This ensures high reasoning capabilities (similar to Pro) while maintaining high rate limits.
  */
-export const verifyClaimEligibility = async (extraction: ClaimExtraction, documents: PolicyDocument[]): Promise<VerificationResult> => {
-  const ai = getAiClient();
-  const modelId = "gemini-2.5-flash";
+export const verifyClaimEligibility = async (
+  extraction: ClaimExtraction,
+  documents: PolicyDocument[],
+  checklist?: ClaimChecklist,
+  sampling?: { temperature: number; seed?: number }
+): Promise<VerificationResult> => {
+  const provider = getProvider();
 
   const verificationSchema = {
     type: Type.OBJECT,
     properties: {
-      is_eligible: { type: Type.BOOLEAN, description: "Is the claim eligible under any of the provided policy documents?" },
+      is_eligible: { type: Type.BOOLEAN, description: "Is the claim eligible under the policy it falls under?" },
       policy_matched: { type: Type.STRING, description: "The specific Policy Name and Section that covers this" },
       reasoning: { type: Type.STRING, description: "Detailed explanation referencing specific terms from the Knowledge Base" },
       suggested_policy: { type: Type.STRING, description: "If ineligible, suggest which type of insurance from the Knowledge Base might apply, or 'None'" },
-      confidence_score: { type: Type.NUMBER, description: "Confidence score between 0 and 1" }
+      confidence_score: { type: Type.NUMBER, description: "Confidence score between 0 and 1" },
+      policy_verdicts: {
+        type: Type.ARRAY,
+        description: "One entry per candidate policy: every policy that could apply to this kind of claim, plus the policy the claimant named",
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            policy_name: { type: Type.STRING },
+            document_id: { type: Type.STRING, description: "The id shown in the document header" },
+            verdict: { type: Type.STRING, enum: ["covered", "excluded", "not_applicable"] },
+            reason: { type: Type.STRING, description: "One or two sentences on why, referring to the policy wording" },
+            score: { type: Type.NUMBER, description: "How well this policy fits the claim, 0 to 1" }
+          },
+          required: ["policy_name", "verdict", "reason", "score"]
+        }
+      },
+      claimed_clause: { type: Type.STRING, description: "If eligible: the policy clause granting cover for this claim" },
+      citations: {
+        type: Type.ARRAY,
+        description: "Every policy clause the decision relies on, quoted word for word",
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            document_id: { type: Type.STRING, description: "The id shown in the document header" },
+            quote: { type: Type.STRING, description: "Exact text copied from the document, one clause or bullet" },
+            purpose: { type: Type.STRING, enum: ["coverage", "exclusion", "limit", "condition"] }
+          },
+          required: ["document_id", "quote"]
+        }
+      },
+      payout_adjustments: {
+        type: Type.ARRAY,
+        description: "If eligible: every deductible, sub-limit, co-pay and non-payable item the matched policy applies to this claim. Empty if none apply.",
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            kind: { type: Type.STRING, enum: ["non_payable", "sub_limit", "co_pay", "deductible"] },
+            label: { type: Type.STRING, description: "What the adjustment is, e.g. 'Room rent cap' or 'Consumables'" },
+            amount: { type: Type.NUMBER, description: "non_payable / deductible: amount removed. sub_limit: the cap. As stated in the policy; never convert currencies." },
+            currency: { type: Type.STRING, enum: ["INR", "USD", "EUR", "GBP"], description: "Currency of amount and applies_to as stated in the policy" },
+            percent: { type: Type.NUMBER, description: "co_pay only: percentage borne by the claimant" },
+            applies_to: { type: Type.NUMBER, description: "sub_limit only: the part of the claimed amount the cap applies to, if known" },
+            clause: { type: Type.STRING, description: "Policy name and the exact clause wording this is based on" }
+          },
+          required: ["kind", "label", "clause"]
+        }
+      }
     },
     required: ["is_eligible", "reasoning", "confidence_score"]
   };
 
+  const warnings = checklist ? getChecklistWarnings(checklist) : [];
   const parts: Part[] = [];
 
   parts.push({
@@ -194,7 +688,9 @@ export const verifyClaimEligibility = async (extraction: ClaimExtraction, docume
     You have access to the following Reference Policy Documents (Knowledge Base).`
   });
 
-  parts.push(...getKnowledgeBaseParts(documents));
+  const request = getTaskRequest('verification');
+  const knowledge = await getKnowledgeContextParts(provider, documents, getClaimQuery(extraction), request.model);
+  parts.push(...knowledge.parts);
 
   parts.push({
     text: `Here are the extracted details from a new claim:
@@ -202,61 +698,191 @@ export const verifyClaimEligibility = async (extraction: ClaimExtraction, docume
 
     Task:
     1. Analyze the claim details STRICTLY against the Reference Policy Documents provided above.
-    2. Determine if the claim is eligible for coverage under ANY of the documents.
-    3. Check for any exclusions mentioned in the matched policy.
+    2. Assess every candidate policy separately: is the claim covered, excluded, or is the policy not applicable?
+       Always include the policy the claimant names${extraction.policy_name ? ` ("${extraction.policy_name}")` : ''}, even if it is not in the documents.
+    3. Check for any exclusions mentioned in each candidate policy.
+       The overall decision is based on the policy the claimant named if it is in the documents, otherwise on the best fit.
     4. Provide reasoning based only on the text provided in the Reference Policy Documents.
-    5. If the claim is eligible, cite the specific policy name.`
+       Quote every clause you rely on word for word in "citations", with the id of its document.
+       Citations are checked against the documents; never paraphrase or cite a section that is not there.
+    5. If the claim is eligible, cite the specific policy name.
+    6. If the claim is eligible, list the deductibles, sub-limits, co-pay and non-payable items the policy applies,
+       each with the clause it comes from. Do not compute the final amount; it is calculated from your list.${warnings.length > 0 ? `
+
+    The intake checklist found gaps in the evidence:
+    ${warnings.map(w => `- ${w}`).join('\n    ')}
+    Do not treat missing facts as satisfied. If a gap prevents a decision, say so and lower your confidence.` : ''}`
   });
 
   try {
-    const response = await ai.models.generateContent({
-      model: modelId,
-      contents: { parts },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: verificationSchema,
-        // Enable Thinking to improve reasoning quality for complex policy logic
-        // We reserve tokens for the JSON output by setting a budget.
-        maxOutputTokens: 8192,
-        thinkingConfig: { thinkingBudget: 2048 }
-      }
+    const responseText = await generateWithKnowledge(provider, knowledge, {
+      parts,
+      schema: verificationSchema,
+      ...request,
+      // Self-consistency runs vary the sampling on purpose
+      ...(sampling ? { temperature: sampling.temperature, seed: sampling.seed } : {})
     });
 
-    return cleanAndParseJson<VerificationResult>(response.text, {} as VerificationResult);
+    const { payout_adjustments, claimed_clause, citations, policy_verdicts, ...parsed } = cleanAndParseJson<Omit<VerificationResult, 'citations'> & {
+      payout_adjustments?: PayoutAdjustment[];
+      claimed_clause?: string;
+      citations?: ModelCitation[];
+    }>(responseText, {} as VerificationResult);
+    const ranked = withPolicyVerdicts(parsed, policy_verdicts || [], extraction);
+    const result = withVerifiedCitations(ranked, citations || [], documents);
+    if (checklist && !checklist.is_complete) result.evidence_warnings = warnings;
+    result.knowledge_context = knowledge.context;
+    if (result.is_eligible) {
+      const payout = buildPayout(extraction, payout_adjustments || [], claimed_clause);
+      if (payout) result.payout = payout;
+    }
+    return result;
   } catch (error) {
     console.error("Verification failed:", error);
-    throw new Error("Failed to verify claim.");
+    throw toLlmError(error, "Failed to verify claim");
   }
 };
 
+// Spread of sampling temperatures for self-consistency runs
+const CONSISTENCY_TEMPERATURES = [0.2, 0.5, 0.7, 0.9, 1.0];
+
+const policyKey = (policy?: string) => (policy || '').trim().toLowerCase();
+
+/**
+ * Self-consistency mode: runs verification several times with varied sampling and
+ * keeps the answer most runs agree on. The confidence score becomes the share of runs
+ * that agree (verdict and policy), calibrated against labeled past decisions, and
+ * still lowered for unverifiable citations.
+ */
+export const verifyClaimEligibilityConsistent = async (
+  extraction: ClaimExtraction,
+  documents: PolicyDocument[],
+  checklist?: ClaimChecklist,
+  runs = CONSISTENCY_TEMPERATURES.length
+): Promise<VerificationResult> => {
+  const temperatures = Array.from({ length: runs }, (_, i) => CONSISTENCY_TEMPERATURES[i % CONSISTENCY_TEMPERATURES.length]);
+  const settled = await Promise.allSettled(
+    temperatures.map((temperature, i) => verifyClaimEligibility(extraction, documents, checklist, { temperature, seed: i + 1 }))
+  );
+
+  const results = settled
+    .map((s, i) => (s.status === 'fulfilled' ? { result: s.value, temperature: temperatures[i] } : null))
+    .filter((r): r is { result: VerificationResult; temperature: number } => r !== null);
+  if (results.length === 0) {
+    const failure = settled.find((s): s is PromiseRejectedResult => s.status === 'rejected');
+    throw toLlmError(failure?.reason, "Failed to verify claim");
+  }
+
+  const eligibleVotes = results.filter(r => r.result.is_eligible).length;
+  // A split vote is not a majority for paying out, so ties count as not eligible
+  const majorityEligible = eligibleVotes * 2 > results.length;
+  const majority = results.filter(r => r.result.is_eligible === majorityEligible);
+
+  // Most common policy among the runs with the majority verdict
+  const policyCounts = new Map<string, number>();
+  majority.forEach(r => policyCounts.set(policyKey(r.result.policy_matched), (policyCounts.get(policyKey(r.result.policy_matched)) || 0) + 1));
+  const [topPolicy, topCount] = Array.from(policyCounts.entries()).sort((a, b) => b[1] - a[1])[0];
+
+  const chosen = majority
+    .filter(r => policyKey(r.result.policy_matched) === topPolicy)
+    .sort((a, b) => (b.result.original_confidence_score ?? b.result.confidence_score) - (a.result.original_confidence_score ?? a.result.confidence_score))[0].result;
+
+  const agreement = Math.round((topCount / results.length) * 100) / 100;
+  const calibration = calibrateConfidence(agreement);
+  // Keep whatever share of confidence the citation check removed from the chosen run
+  const citationFactor = chosen.original_confidence_score ? chosen.confidence_score / chosen.original_confidence_score : 1;
+
+  const samples: ConsistencySample[] = results.map(r => ({
+    is_eligible: r.result.is_eligible,
+    policy_matched: r.result.policy_matched,
+    confidence_score: r.result.original_confidence_score ?? r.result.confidence_score,
+    reasoning: r.result.reasoning,
+    temperature: r.temperature
+  }));
+
+  return {
+    ...chosen,
+    confidence_score: Math.round(calibration.value * citationFactor * 100) / 100,
+    original_confidence_score: chosen.original_confidence_score ?? chosen.confidence_score,
+    consistency: {
+      samples,
+      agreement,
+      eligible_votes: eligibleVotes,
+      calibrated: calibration.calibrated,
+      calibration_size: calibration.size
+    }
+  };
+};
+
+// Without an embedder nothing can be retrieved per question, so the chat starts with everything
+const preloadsKnowledgeBase = (provider: LlmProvider, documents: PolicyDocument[]) =>
+    !provider.embedder || shouldUseFullContext(documents);
+
+const CHAT_SYSTEM_INSTRUCTION = `You are a helpful Insurance Assistant named "ClaimGuard AI". 
+            Answer questions based ONLY on the policy documents provided in the chat history.
+            If the answer is not in the documents, state that clearly.`;
+
 /**
  * Chatbot Interaction
- * Uses gemini-2.5-flash (switched from pro to avoid limits)
+ * Uses the configured provider with the chat profile; on Gemini, gemini-2.5-flash by default (switched from pro to avoid limits)
+ * The preloaded documents and system instruction come from a context cache where possible.
  */
-export const createChatSession = (documents: PolicyDocument[]) => {
-    const ai = getAiClient();
-    // Construct the history with the documents pre-loaded as the first turn
-    const kbParts = getKnowledgeBaseParts(documents);
+export const createChatSession = async (documents: PolicyDocument[]): Promise<LlmChat> => {
+    const provider = getProvider();
+    const request = getTaskRequest('chat');
+    // Construct the history with the documents pre-loaded as the first turn. Large knowledge
+    // bases only preload what cannot be indexed; questions bring their own sections (sendChatMessage)
+    const preloaded = preloadsKnowledgeBase(provider, documents) ? documents : documents.filter(d => !getDocumentText(d));
+    const kbParts = getKnowledgeBaseParts(preloaded, provider.capabilities.pdfs);
+    const intro: Part = { text: "Here is the Knowledge Base containing all active insurance policy documents. Please read them carefully." };
+    // A cache holds the system instruction too, since requests using a cache cannot set one
+    await checkRequestSize(provider, [intro, ...kbParts]);
+    const cacheName = provider.cacheKnowledge ? await provider.cacheKnowledge(preloaded, [intro, ...kbParts], CHAT_SYSTEM_INSTRUCTION, request.model) : null;
 
-    return ai.chats.create({
-        model: 'gemini-2.5-flash',
+    const chat = await provider.createChat({
+        ...request,
         history: [
             {
                 role: 'user',
-                parts: [
-                    { text: "Here is the Knowledge Base containing all active insurance policy documents. Please read them carefully." },
-                    ...kbParts
-                ]
+                parts: cacheName ? [{ text: "The Knowledge Base is in the cached context above." }] : [intro, ...kbParts]
             },
             {
                 role: 'model',
                 parts: [{ text: `I have read and indexed the ${documents.length} provided policy documents. I am ready to answer questions based on this Knowledge Base.` }]
             }
         ],
-        config: {
-            systemInstruction: `You are a helpful Insurance Assistant named "ClaimGuard AI". 
-            Answer questions based ONLY on the policy documents provided in the chat history.
-            If the answer is not in the documents, state that clearly.`
-        }
+        systemInstruction: CHAT_SYSTEM_INSTRUCTION,
+        ...(cacheName ? { cachedContent: cacheName } : {})
     });
+    if (!cacheName) return chat;
+    // A dead cache is dropped so the session the caller starts next builds a new one
+    return {
+        send: async parts => {
+            try {
+                return await chat.send(parts);
+            } catch (e) {
+                if (classifyLlmError(e).kind === 'cache') provider.forgetCache?.(cacheName);
+                throw e;
+            }
+        }
+    };
+};
+
+/**
+ * Sends a chat question. For large knowledge bases the sections most relevant to
+ * the question are attached to it; the returned context lists them.
+ */
+export const sendChatMessage = async (chat: LlmChat, documents: PolicyDocument[], message: string): Promise<{ text: string; context: KnowledgeContext }> => {
+    const provider = getProvider();
+    const preloaded = preloadsKnowledgeBase(provider, documents);
+    const { context } = await retrieveKnowledge(documents, preloaded ? '' : message, provider.embedder);
+    let parts: Part[] = [{ text: message }];
+    if (context.mode === 'retrieved') {
+        parts = [{ text: "Relevant Knowledge Base sections for this question:" }, ...getChunkParts(context.chunks), { text: `\nQuestion: ${message}` }];
+    } else if (!preloaded) {
+        // Retrieval failed: send the documents the chat history does not hold
+        parts = [{ text: "Knowledge Base documents for this question:" }, ...getKnowledgeBaseParts(documents.filter(d => getDocumentText(d)), provider.capabilities.pdfs), { text: `\nQuestion: ${message}` }];
+    }
+    await checkRequestSize(provider, parts);
+    return { text: await chat.send(parts), context };
 };
\ No newline at end of file
@@ -0,0 +1,8 @@
+/**
+ * SHA-256 of a string as hex. Used to detect the same document under another name
+ * or id, and to tell document versions apart in the chunk index and context caches.
+ */
+export const hashContent = async (content: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
@@ -0,0 +1,270 @@
+import { KnowledgeChunk, PolicyDocument, PolicyRuleSet } from "../types";
+
+const DB_NAME = 'claimguard';
+const DB_VERSION = 3;
+const DOCUMENTS_STORE = 'documents';
+const CHUNK_INDEX_STORE = 'chunkIndex';
+const RULES_STORE = 'rules';
+// Rule sets added by hand belong to no document; they are stored under this key
+const MANUAL_RULES_KEY = '';
+// Space kept free so the rest of the app (localStorage, model cache) still has room
+const QUOTA_HEADROOM_BYTES = 5 * 1024 * 1024;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Embedded chunks of one document. `signature` identifies the document version
+ * and embedding model the chunks were built from, so stale entries are rebuilt.
+ */
+export interface ChunkIndexEntry {
+  document_id: string;
+  signature: string;
+  chunks: (KnowledgeChunk & { embedding: number[] })[];
+}
+
+/**
+ * Opens the knowledge base database. The first time it is created it is seeded
+ * with `seed`, so a knowledge base the user has emptied stays empty.
+ */
+const openDatabase = (seed: PolicyDocument[]): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(DOCUMENTS_STORE)) {
+          const store = db.createObjectStore(DOCUMENTS_STORE, { keyPath: 'id' });
+          if (event.oldVersion === 0) seed.forEach(doc => store.put(withStorageInfo(doc)));
+        }
+        if (!db.objectStoreNames.contains(CHUNK_INDEX_STORE)) {
+          db.createObjectStore(CHUNK_INDEX_STORE, { keyPath: 'document_id' });
+        }
+        if (!db.objectStoreNames.contains(RULES_STORE)) {
+          db.createObjectStore(RULES_STORE, { keyPath: 'document_id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call retry if the browser refused (private mode, disabled storage)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+/**
+ * Approximate stored size of a document in bytes. Base64 content is 4/3 of the
+ * original file; text is counted at two bytes per character.
+ */
+export const getDocumentSize = (doc: PolicyDocument): number =>
+  doc.type === 'file' ? Math.floor(doc.content.length * 3 / 4) : doc.content.length * 2;
+
+/**
+ * Fills in the added date and size for documents that predate those fields.
+ */
+export const withStorageInfo = (doc: PolicyDocument): PolicyDocument => ({
+  ...doc,
+  added_at: doc.added_at || new Date().toISOString(),
+  size: doc.size ?? getDocumentSize(doc),
+  tags: doc.tags || []
+});
+
+// A summary still running when the page closes would never finish, so 'pending' is not stored
+const withoutPendingSummary = (doc: PolicyDocument): PolicyDocument => {
+  if (doc.summary_status !== 'pending') return doc;
+  const { summary_status, ...rest } = doc;
+  return rest;
+};
+
+/**
+ * Loads the saved knowledge base, seeding it with `seed` on first use.
+ * Documents come back in the order they were added.
+ */
+export const loadKnowledgeBase = async (seed: PolicyDocument[]): Promise<PolicyDocument[]> => {
+  try {
+    const db = await openDatabase(seed);
+    const docs = await new Promise<PolicyDocument[]>((resolve, reject) => {
+      const request = db.transaction(DOCUMENTS_STORE, 'readonly').objectStore(DOCUMENTS_STORE).getAll();
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // withoutPendingSummary also clears 'pending' saved by older versions
+    return docs.map(withStorageInfo).map(withoutPendingSummary).sort((a, b) => a.added_at!.localeCompare(b.added_at!));
+  } catch (error) {
+    console.error("Knowledge Base Load Error:", error);
+    throw new Error("Failed to load the saved knowledge base.");
+  }
+};
+
+/**
+ * Writes the difference between two versions of the knowledge base in one
+ * transaction: documents that changed (by reference) are stored, missing ones deleted.
+ */
+export const syncKnowledgeBase = async (previous: PolicyDocument[], next: PolicyDocument[]): Promise<void> => {
+  const before = new Map(previous.map(d => [d.id, d]));
+  const nextIds = new Set(next.map(d => d.id));
+  const changed = next.filter(d => before.get(d.id) !== d);
+  const removed = previous.filter(d => !nextIds.has(d.id));
+  if (changed.length === 0 && removed.length === 0) return;
+
+  try {
+    const db = await openDatabase([]);
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction([DOCUMENTS_STORE, CHUNK_INDEX_STORE, RULES_STORE], 'readwrite');
+      const store = tx.objectStore(DOCUMENTS_STORE);
+      const chunkIndex = tx.objectStore(CHUNK_INDEX_STORE);
+      const ruleStore = tx.objectStore(RULES_STORE);
+      removed.forEach(d => {
+        store.delete(d.id);
+        chunkIndex.delete(d.id);
+        ruleStore.delete(d.id);
+      });
+      changed.forEach(d => store.put(withoutPendingSummary(d)));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } catch (error) {
+    console.error("Knowledge Base Save Error:", error);
+    if (isQuotaError(error)) {
+      throw new Error("Browser storage is full. Remove some documents; recent changes will be lost on reload.");
+    }
+    throw new Error("Failed to save the knowledge base. Recent changes will be lost on reload.");
+  }
+};
+
+/**
+ * The saved rule sets of every document, keyed by document id (manual rules under
+ * ''). A document with no entry has never had rules saved, e.g. in a database from
+ * before rules were stored.
+ */
+export const loadPolicyRules = async (): Promise<Map<string, PolicyRuleSet[]>> => {
+  try {
+    const db = await openDatabase([]);
+    const entries = await new Promise<{ document_id: string; rule_sets: PolicyRuleSet[] }[]>((resolve, reject) => {
+      const request = db.transaction(RULES_STORE, 'readonly').objectStore(RULES_STORE).getAll();
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return new Map(entries.map(e => [e.document_id, e.rule_sets]));
+  } catch (error) {
+    console.error("Policy Rules Load Error:", error);
+    throw new Error("Failed to load the saved policy rules.");
+  }
+};
+
+const groupRules = (rules: PolicyRuleSet[]) => {
+  const groups = new Map<string, PolicyRuleSet[]>();
+  rules.forEach(r => {
+    const key = r.document_id ?? MANUAL_RULES_KEY;
+    groups.set(key, [...(groups.get(key) || []), r]);
+  });
+  return groups;
+};
+
+/**
+ * Stores the rule sets of every document whose rules changed (by reference) in one
+ * transaction. A document left with no rules is stored as empty, so its text rules
+ * are not compiled again on the next load.
+ */
+export const syncPolicyRules = async (previous: PolicyRuleSet[], next: PolicyRuleSet[]): Promise<void> => {
+  const before = groupRules(previous);
+  const after = groupRules(next);
+  const changed = Array.from(new Set([...before.keys(), ...after.keys()])).filter(key => {
+    const a = before.get(key) || [];
+    const b = after.get(key) || [];
+    return a.length !== b.length || a.some((r, i) => r !== b[i]);
+  });
+  if (changed.length === 0) return;
+
+  try {
+    const db = await openDatabase([]);
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(RULES_STORE, 'readwrite');
+      const store = tx.objectStore(RULES_STORE);
+      changed.forEach(key => store.put({ document_id: key, rule_sets: after.get(key) || [] }));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } catch (error) {
+    console.error("Policy Rules Save Error:", error);
+    if (isQuotaError(error)) {
+      throw new Error("Browser storage is full. Remove some documents; recent rule changes will be lost on reload.");
+    }
+    throw new Error("Failed to save the policy rules. Recent changes will be lost on reload.");
+  }
+};
+
+/**
+ * Loads the stored chunk index entries for all documents.
+ */
+export const loadChunkIndex = async (): Promise<ChunkIndexEntry[]> => {
+  const db = await openDatabase([]);
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(CHUNK_INDEX_STORE, 'readonly').objectStore(CHUNK_INDEX_STORE).getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Stores the chunk index of one document. The index can always be rebuilt, so a
+ * failed write (e.g. storage full) is only logged.
+ */
+export const saveChunkIndex = async (entry: ChunkIndexEntry): Promise<void> => {
+  try {
+    const db = await openDatabase([]);
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(CHUNK_INDEX_STORE, 'readwrite');
+      tx.objectStore(CHUNK_INDEX_STORE).put(entry);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } catch (error) {
+    console.warn("Could not save the chunk index:", error);
+  }
+};
+
+/**
+ * Current storage usage and quota for this origin, when the browser reports them.
+ */
+export const getStorageEstimate = async (): Promise<{ usage: number; quota: number } | null> => {
+  if (!navigator.storage?.estimate) return null;
+  try {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return quota > 0 ? { usage, quota } : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Whether `bytes` more can be stored without running into the quota. Assumes
+ * there is room when the browser does not report an estimate.
+ */
+export const hasStorageRoom = async (bytes: number): Promise<boolean> => {
+  const estimate = await getStorageEstimate();
+  return !estimate || estimate.usage + bytes + QUOTA_HEADROOM_BYTES <= estimate.quota;
+};
+
+/**
+ * Asks the browser not to evict the knowledge base under storage pressure.
+ */
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  try {
+    return (await navigator.storage?.persist?.()) ?? false;
+  } catch {
+    return false;
+  }
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
@@ -0,0 +1,134 @@
+import { PolicyDocument, PolicyRuleSet } from "../types";
+import { ChunkIndexEntry, loadChunkIndex, saveChunkIndex, withStorageInfo } from "./knowledgeBaseStore";
+import { reloadChunkIndex } from "./retrievalService";
+import { hashContent } from "./hashService";
+
+export const BUNDLE_FORMAT = 'claimguard-knowledge-base';
+// Bump when the bundle layout changes; older bundles must keep importing
+export const BUNDLE_VERSION = 1;
+
+/**
+ * A whole Knowledge Base in one file: documents with their metadata and summaries,
+ * the compiled rules, and optionally the retrieval index so it need not be rebuilt.
+ */
+export interface KnowledgeBaseBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exported_at: string;
+  documents: (PolicyDocument & { content_hash: string })[];
+  rules: PolicyRuleSet[];
+  chunk_index?: ChunkIndexEntry[];
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface BundleImportResult {
+  documents: PolicyDocument[];
+  rules: PolicyRuleSet[];
+  added: string[]; // names of imported documents
+  duplicates: string[]; // names of documents skipped because the same content is already loaded
+}
+
+export const createBundle = async (documents: PolicyDocument[], rules: PolicyRuleSet[], includeIndex = true): Promise<KnowledgeBaseBundle> => {
+  const ids = new Set(documents.map(d => d.id));
+  let chunkIndex: ChunkIndexEntry[] = [];
+  if (includeIndex) {
+    try {
+      chunkIndex = (await loadChunkIndex()).filter(entry => ids.has(entry.document_id));
+    } catch (e) {
+      console.warn("Exporting without the retrieval index:", e);
+    }
+  }
+
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exported_at: new Date().toISOString(),
+    documents: await Promise.all(documents.map(async doc => ({
+      ...doc,
+      // Pending summaries cannot finish in someone else's browser
+      ...(doc.summary_status === 'pending' ? { summary_status: undefined } : {}),
+      content_hash: await hashContent(doc.content)
+    }))),
+    rules: rules.filter(r => !r.document_id || ids.has(r.document_id)),
+    ...(chunkIndex.length > 0 ? { chunk_index: chunkIndex } : {})
+  };
+};
+
+/**
+ * Checks that parsed JSON is a bundle this version of the app can read.
+ */
+export const parseBundle = (data: unknown): KnowledgeBaseBundle => {
+  const bundle = data as Partial<KnowledgeBaseBundle> | null;
+  if (!bundle || bundle.format !== BUNDLE_FORMAT) {
+    throw new Error("This file is not a ClaimGuard knowledge base bundle.");
+  }
+  if (typeof bundle.version !== 'number' || bundle.version > BUNDLE_VERSION) {
+    throw new Error(`This bundle was made by a newer version of ClaimGuard (bundle version ${bundle.version}).`);
+  }
+  const documents = Array.isArray(bundle.documents) ? bundle.documents : [];
+  if (documents.some(d => !d || typeof d.id !== 'string' || typeof d.name !== 'string' || typeof d.content !== 'string')) {
+    throw new Error("The bundle contains malformed documents.");
+  }
+  return {
+    format: BUNDLE_FORMAT,
+    version: bundle.version,
+    exported_at: bundle.exported_at || '',
+    documents,
+    rules: Array.isArray(bundle.rules) ? bundle.rules : [],
+    ...(Array.isArray(bundle.chunk_index) ? { chunk_index: bundle.chunk_index } : {})
+  };
+};
+
+/**
+ * Applies a bundle to the current Knowledge Base. In merge mode documents whose
+ * content is already loaded are skipped, and imported documents whose id is taken
+ * get a new one. Replace mode swaps in the bundle's documents and rules.
+ * Retrieval index entries of imported documents are stored as they are.
+ */
+export const importBundle = async (
+  bundle: KnowledgeBaseBundle,
+  current: { documents: PolicyDocument[]; rules: PolicyRuleSet[] },
+  mode: ImportMode
+): Promise<BundleImportResult> => {
+  const existing = mode === 'merge' ? current.documents : [];
+  const knownHashes = new Set(await Promise.all(existing.map(d => hashContent(d.content))));
+  const takenIds = new Set(existing.map(d => d.id));
+
+  const imported: PolicyDocument[] = [];
+  const importedRules: PolicyRuleSet[] = [];
+  const indexEntries: ChunkIndexEntry[] = [];
+  const duplicates: string[] = [];
+
+  for (const { content_hash, ...doc } of bundle.documents) {
+    const hash = content_hash || await hashContent(doc.content);
+    if (knownHashes.has(hash)) {
+      duplicates.push(doc.name);
+      continue;
+    }
+    knownHashes.add(hash);
+
+    const id = takenIds.has(doc.id) ? `${Date.now()}${Math.random()}` : doc.id;
+    takenIds.add(id);
+    imported.push(withStorageInfo({ ...doc, id }));
+    importedRules.push(...bundle.rules
+      .filter(r => r.document_id === doc.id)
+      .map(r => ({ ...r, id: r.id.replace(doc.id, id), document_id: id })));
+    // Chunk ids embed the document id, so re-keyed documents rebuild their index instead
+    const entry = bundle.chunk_index?.find(e => e.document_id === doc.id);
+    if (entry && id === doc.id) indexEntries.push(entry);
+  }
+
+  const manualRules = bundle.rules.filter(r => !r.document_id);
+  await Promise.all(indexEntries.map(saveChunkIndex));
+  if (indexEntries.length > 0) reloadChunkIndex();
+
+  return mode === 'replace'
+    ? { documents: imported, rules: [...importedRules, ...manualRules], added: imported.map(d => d.name), duplicates }
+    : {
+      documents: [...current.documents, ...imported],
+      rules: [...current.rules, ...importedRules, ...manualRules.filter(r => !current.rules.some(c => c.id === r.id))],
+      added: imported.map(d => d.name),
+      duplicates
+    };
+};
@@ -0,0 +1,128 @@
+export type LlmErrorKind = 'auth' | 'quota' | 'safety' | 'timeout' | 'bad_json' | 'network' | 'server' | 'too_large' | 'cache' | 'unknown';
+
+// Requests slower than this are abandoned; verification with thinking can take a minute
+export const REQUEST_TIMEOUT_MS = 120_000;
+
+const RETRYABLE: LlmErrorKind[] = ['quota', 'timeout', 'network', 'server'];
+const MAX_RETRIES = 3;
+const BASE_DELAY_MS = 2_000;
+// A longer wait (e.g. a daily quota) is reported instead of sat through
+const MAX_RETRY_WAIT_MS = 60_000;
+
+/**
+ * A failed model call, sorted by what the user can do about it. `detail` is a short
+ * lower-case explanation; the message prefixes it with the step that failed. An
+ * `unknown` error has an empty detail when the raw text (SDK or HTTP) means nothing to users.
+ */
+export class LlmError extends Error {
+  kind: LlmErrorKind;
+  detail: string;
+  retryAfterMs?: number;
+
+  constructor(kind: LlmErrorKind, detail: string, retryAfterMs?: number, action?: string) {
+    const text = detail.replace(/\.$/, '');
+    super(action ? (text ? `${action}: ${text}.` : `${action}.`) : `${text.charAt(0).toUpperCase()}${text.slice(1)}.`);
+    this.name = 'LlmError';
+    this.kind = kind;
+    this.detail = detail;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+const formatWait = (ms: number) => (ms >= 120_000 ? `${Math.ceil(ms / 60_000)} min` : `${Math.max(1, Math.ceil(ms / 1000))}s`);
+
+// Gemini puts the wait in RetryInfo ("retryDelay": "40s") and in the message ("Please retry in 40.2s")
+const parseRetryAfter = (message: string): number | undefined => {
+  const match = message.match(/retryDelay"?\s*:\s*"(\d+(?:\.\d+)?)s"/) || message.match(/retry in (\d+(?:\.\d+)?)\s*s/i);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+};
+
+/**
+ * Sorts any error from a provider, fetch or the SDK into an LlmError.
+ * Providers throw `safety` errors themselves, since a blocked answer is not an HTTP error,
+ * and the pre-flight size check throws `too_large` before anything is sent.
+ */
+export const classifyLlmError = (error: unknown): LlmError => {
+  if (error instanceof LlmError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  const name = error instanceof Error ? error.name : '';
+  const { status, retryAfterMs } = (error ?? {}) as { status?: number; retryAfterMs?: number };
+
+  // Gemini answers an expired or deleted context cache with 403 PERMISSION_DENIED, which
+  // must not read as a rejected API key; the caller drops the cache and sends inline
+  if (/cached ?content/i.test(message)
+    && (status === 400 || status === 403 || status === 404 || /INVALID_ARGUMENT|PERMISSION_DENIED|NOT_FOUND/.test(message))) {
+    return new LlmError('cache', 'the cached Knowledge Base expired or was deleted; try again to send it afresh');
+  }
+  if (name === 'AbortError' || name === 'TimeoutError' || status === 408 || status === 504 || /timed? ?out|DEADLINE_EXCEEDED/i.test(message)) {
+    return new LlmError('timeout', `the model did not answer within ${formatWait(REQUEST_TIMEOUT_MS)}; try again or send less of the Knowledge Base`);
+  }
+  if (status === 401 || status === 403 || /API[_ ]?key|UNAUTHENTICATED|PERMISSION_DENIED/i.test(message)) {
+    return new LlmError('auth', /missing/i.test(message)
+      ? 'the API key is missing; add API_KEY to the .env file and restart the app'
+      : 'the API key was rejected; check API_KEY in the .env file or the key in the model provider settings');
+  }
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+    const wait = retryAfterMs ?? parseRetryAfter(message);
+    return new LlmError('quota', wait
+      ? `quota exceeded, retry in ${formatWait(wait)}`
+      : 'quota exceeded; wait a minute, trim the Knowledge Base or use an API key with a higher limit', wait);
+  }
+  if ((status !== undefined && status >= 500) || /UNAVAILABLE|overloaded/i.test(message)) {
+    return new LlmError('server', 'the model service is unavailable or overloaded; try again in a minute');
+  }
+  if (/Failed to fetch|fetch failed|NetworkError|ECONNREFUSED|ENOTFOUND|Load failed/i.test(message)) {
+    return new LlmError('network', 'the model could not be reached; check your connection, or that the model server is running');
+  }
+  // Thinking budget ranges differ per model and are only partly checked in the model settings
+  if (status === 400 && /thinking/i.test(message)) {
+    return new LlmError('unknown', 'the model rejected the thinking budget; change it in the model settings');
+  }
+  // A plain Error comes from the app itself and is written for users; SDK, HTTP and
+  // runtime errors (ApiError, TypeError, ...) only go to the console
+  const fromApp = error instanceof Error && error.name === 'Error' && status === undefined;
+  return new LlmError('unknown', fromApp ? message : '');
+};
+
+/**
+ * The error re-labelled with the step that failed, keeping its kind so the
+ * UI can still tell a quota problem from a bug.
+ */
+export const toLlmError = (error: unknown, action: string): LlmError => {
+  const classified = classifyLlmError(error);
+  return new LlmError(classified.kind, classified.detail, classified.retryAfterMs, action);
+};
+
+/**
+ * What to show the user: the specific message for a known failure or one the app
+ * wrote itself, else `fallback`.
+ */
+export const describeLlmError = (error: unknown, fallback: string): string => {
+  const classified = classifyLlmError(error);
+  return classified.kind === 'unknown' && !classified.detail ? fallback : classified.message;
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Runs a model call, retrying quota, timeout, network and server errors with
+ * exponential backoff and jitter. A quota error waits as long as the server asks.
+ */
+export const withRetry = async <T>(call: () => Promise<T>): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await call();
+    } catch (e) {
+      const error = classifyLlmError(e);
+      const backoff = BASE_DELAY_MS * 2 ** attempt;
+      // Jitter spreads out parallel calls (self-consistency runs) that failed together
+      const delay = (error.retryAfterMs ?? backoff / 2) + Math.random() * backoff / 2;
+      if (!RETRYABLE.includes(error.kind) || attempt >= MAX_RETRIES || delay > MAX_RETRY_WAIT_MS) {
+        // Unrecognised errors keep their original form for the caller's logs
+        throw error.kind === 'unknown' ? e : error;
+      }
+      console.warn(`Model call failed (${error.kind}), retrying in ${formatWait(delay)}:`, e);
+      await sleep(delay);
+    }
+  }
+};
@@ -0,0 +1,114 @@
+import { Part, Schema } from "@google/genai";
+import { LlmProviderSettings, PolicyDocument } from "../types";
+import { Embedder } from "./retrievalService";
+import { BudgetLimits } from "./tokenBudgetService";
+import { createGeminiProvider } from "./geminiProvider";
+import { createOpenAiProvider } from "./openAiProvider";
+import { withRetry } from "./llmErrors";
+
+const SETTINGS_KEY = 'claimguard.llmProvider';
+
+/**
+ * One model call. Parts use the Gemini shape (text or inline base64 data), and the
+ * schema the Gemini `Type` schema language; other providers translate both.
+ */
+export interface GenerateRequest {
+  parts: Part[];
+  model?: string; // instead of the provider's own model
+  schema?: Schema; // JSON output in this shape
+  temperature?: number;
+  seed?: number;
+  maxOutputTokens?: number;
+  thinkingBudget?: number; // ignored by providers without thinking
+  cachedContent?: string; // from cacheKnowledge; only set for providers that have it
+}
+
+// The per-task settings from the model settings panel
+export type ModelOptions = Pick<GenerateRequest, 'model' | 'temperature' | 'maxOutputTokens' | 'thinkingBudget'>;
+
+export interface LlmChat {
+  send: (parts: Part[]) => Promise<string>;
+}
+
+export interface ChatOptions extends ModelOptions {
+  history: { role: 'user' | 'model'; parts: Part[] }[];
+  systemInstruction: string;
+  cachedContent?: string; // holds the system instruction and preloaded documents
+}
+
+/**
+ * A model backend for extraction, verification and chat. Optional members are
+ * features only some backends have; callers fall back when they are missing.
+ */
+export interface LlmProvider {
+  label: string;
+  model: string;
+  limits: BudgetLimits;
+  capabilities: {
+    images: boolean;
+    pdfs: boolean; // reads PDFs natively; otherwise their extracted text is sent
+    jsonSchema: boolean; // otherwise the schema is described in the prompt
+  };
+  generate: (request: GenerateRequest) => Promise<string>;
+  createChat: (options: ChatOptions) => Promise<LlmChat>;
+  embedder?: Embedder; // without one the Knowledge Base is never cut down by retrieval
+  countTokens?: (parts: Part[]) => Promise<number>;
+  // Context caching: returns a cache name for `parts`, or null to send them inline.
+  // A cache only serves requests to the model it was built for.
+  cacheKnowledge?: (documents: PolicyDocument[], parts: Part[], systemInstruction?: string, model?: string) => Promise<string | null>;
+  forgetCache?: (name: string) => void;
+}
+
+export const DEFAULT_PROVIDER_SETTINGS: LlmProviderSettings = {
+  provider: 'gemini',
+  openai: {
+    base_url: 'http://localhost:11434/v1',
+    api_key: '',
+    model: 'llama3.1',
+    embedding_model: '',
+    supports_images: false,
+    supports_json_schema: true,
+    context_tokens: 32768
+  }
+};
+
+export const loadProviderSettings = (): LlmProviderSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+    return saved ? { ...DEFAULT_PROVIDER_SETTINGS, ...saved, openai: { ...DEFAULT_PROVIDER_SETTINGS.openai, ...saved.openai } } : DEFAULT_PROVIDER_SETTINGS;
+  } catch {
+    return DEFAULT_PROVIDER_SETTINGS;
+  }
+};
+
+export const saveProviderSettings = (settings: LlmProviderSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// Model calls retry transient failures, so callers only see errors retrying did not fix
+const withRetries = (provider: LlmProvider): LlmProvider => {
+  const embedder = provider.embedder;
+  return {
+    ...provider,
+    generate: request => withRetry(() => provider.generate(request)),
+    createChat: async options => {
+      const chat = await provider.createChat(options);
+      return { send: parts => withRetry(() => chat.send(parts)) };
+    },
+    ...(embedder ? { embedder: { ...embedder, embed: (texts, task) => withRetry(() => embedder.embed(texts, task)) } } : {})
+  };
+};
+
+let current: { key: string; provider: LlmProvider } | null = null;
+
+/**
+ * The provider chosen in the settings, rebuilt when they change.
+ */
+export const getProvider = (): LlmProvider => {
+  const settings = loadProviderSettings();
+  const key = JSON.stringify(settings);
+  if (!current || current.key !== key) {
+    current = { key, provider: withRetries(settings.provider === 'openai' ? createOpenAiProvider(settings.openai) : createGeminiProvider()) };
+  }
+  return current.provider;
+};
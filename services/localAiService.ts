@@ -1,5 +1,11 @@
-import { ClaimExtraction, VerificationResult, PolicyDocument } from "../types";
-import { verifyClaimEligibility } from "./geminiService";
+import { ClaimExtraction, ClaimChecklist, ClaimDomain, FieldProvenance, VerificationResult, PolicyDocument, PolicyVerdict } from "../types";
+import { CLAIM_DOMAIN_LABELS, findFieldForLabel, getClaimField } from "./claimSchema";
+import { normalizeExtraction } from "./normalizationService";
+import { getChecklistWarnings } from "./checklistService";
+import { getDocumentText } from "./documentTextService";
+import { splitList } from "./ruleEngineService";
+import { withPolicyVerdicts } from "./policyRankingService";
+import { ModelCitation, withVerifiedCitations } from "./citationService";
 
 // Helper to safely access globals
 const getTf = () => {
@@ -22,6 +28,7 @@ let wordIndex: Record<string, number> | null = null; // Store vocabulary from as
 let idx2tag: Record<string, string> | null = null;   // Store tag map from assets
 
 // Fallback Tags (Only used if model_assets.json is missing)
+// Each label maps onto a typed ClaimExtraction field via claimSchema.findFieldForLabel
 const BASE_LABELS = [
   "Airline/Hotel Name", "Approved Amount", "Assessment Report Summary", "Claim Amount",
   "Claim Cause", "Claim Submission Date", "Disease", "Estimated Loss Value",
@@ -127,9 +134,10 @@ export const extractClaimDetailsLocal = async (text: string): Promise<ClaimExtra
   
   let keyTopics: string[] = ["General Claim"];
   let identifiedType = "Unknown Incident";
+  let identifiedDomain: ClaimDomain = 'general';
   let description = "";
   let extractedEntities: any = {
-      parties: [], dates: [], locations: [], costs: [], policies: [], types: []
+      parties: [], dates: [], locations: [], costs: [], policies: [], types: [], fields: {}, provenance: {}
   };
 
   // --- PATH A: CUSTOM MODEL ---
@@ -139,6 +147,7 @@ export const extractClaimDetailsLocal = async (text: string): Promise<ClaimExtra
           
           let inputTensor;
           let inputWords: string[] = [];
+          let wordOffsets: number[] = []; // character offset of each token in `text`
           
           // 1. INSPECT MODEL INPUT
           let requiresSequence = false;
@@ -161,8 +170,9 @@ export const extractClaimDetailsLocal = async (text: string): Promise<ClaimExtra
           // 2. PREPARE INPUT (Tokenization)
           if (requiresSequence) {
              // Basic tokenization matching typical Python simple splits
-             inputWords = text.match(/\b[\w']+\b|[.,!?;]/g) || text.split(/\s+/);
-             inputWords = inputWords.slice(0, seqLength);
+             const tokenMatches = Array.from(text.matchAll(/\b[\w']+\b|[.,!?;]/g)).slice(0, seqLength);
+             inputWords = tokenMatches.map(m => m[0]);
+             wordOffsets = tokenMatches.map(m => m.index ?? 0);
              
              const tokenIds = inputWords.map(w => {
                  if (wordIndex) {
@@ -250,13 +260,21 @@ export const extractClaimDetailsLocal = async (text: string): Promise<ClaimExtra
               const foundTopicsSet = new Set<string>();
               let currentEntity = "";
               let currentTagType = "";
+              let currentStart = 0; // token index where the current entity began
+
+              // Token span -> provenance, with character offsets when the tokenizer recorded them
+              const spanOf = (startToken: number, endToken: number): FieldProvenance => {
+                  const start = wordOffsets[startToken];
+                  const end = wordOffsets[endToken] !== undefined ? wordOffsets[endToken] + inputWords[endToken].length : undefined;
+                  if (start !== undefined && end !== undefined) {
+                      return { kind: 'tokens', startToken, endToken, start, end, quote: text.slice(start, end) };
+                  }
+                  return { kind: 'tokens', startToken, endToken, quote: inputWords.slice(startToken, endToken + 1).join(" ") };
+              };
               
               // Domain Classification Scoring
-              const domainScores = {
-                  "Medical / Health Claim": 0,
-                  "Motor / Auto Claim": 0,
-                  "Travel Insurance Claim": 0,
-                  "Home / Property Claim": 0
+              const domainScores: Record<ClaimDomain, number> = {
+                  health: 0, motor: 0, travel: 0, property: 0, general: 0
               };
 
               for (let i = 0; i < inputWords.length; i++) {
@@ -266,14 +284,15 @@ export const extractClaimDetailsLocal = async (text: string): Promise<ClaimExtra
                   if (word === "[PAD]") break; 
 
                   if (tag.startsWith("B-")) {
-                      if (currentEntity) addToExtraction(extractedEntities, currentTagType, currentEntity);
+                      if (currentEntity) addToExtraction(extractedEntities, currentTagType, currentEntity, spanOf(currentStart, i - 1));
                       currentTagType = tag.substring(2); 
                       currentEntity = word;
+                      currentStart = i;
                   } else if (tag.startsWith("I-") && currentTagType === tag.substring(2)) {
                       currentEntity += " " + word;
                   } else {
                       if (currentEntity) {
-                          addToExtraction(extractedEntities, currentTagType, currentEntity);
+                          addToExtraction(extractedEntities, currentTagType, currentEntity, spanOf(currentStart, i - 1));
                           currentEntity = "";
                           currentTagType = "";
                       }
@@ -282,15 +301,15 @@ export const extractClaimDetailsLocal = async (text: string): Promise<ClaimExtra
                   if (tag !== 'O') {
                       foundTopicsSet.add(`${tag.replace('B-', '').replace('I-', '')}: ${word}`);
                       
-                      // Scoring Logic
-                      const t = tag.toLowerCase();
-                      if (t.includes("hospital") || t.includes("disease") || t.includes("treatment") || t.includes("room")) domainScores["Medical / Health Claim"] += 2;
-                      if (t.includes("vehicle") || t.includes("garage") || t.includes("part") || t.includes("repair")) domainScores["Motor / Auto Claim"] += 2;
-                      if (t.includes("trip") || t.includes("travel") || t.includes("airline") || t.includes("hotel")) domainScores["Travel Insurance Claim"] += 2;
-                      if (t.includes("property") || t.includes("loss") || t.includes("assessment")) domainScores["Home / Property Claim"] += 2;
+                      // Scoring Logic: domain-specific labels vote for their domain
+                      const field = findFieldForLabel(tag.substring(2));
+                      if (field?.domain) domainScores[field.domain] += 2;
                   }
               }
-              if (currentEntity) addToExtraction(extractedEntities, currentTagType, currentEntity);
+              if (currentEntity) {
+                  const padIndex = inputWords.indexOf("[PAD]");
+                  addToExtraction(extractedEntities, currentTagType, currentEntity, spanOf(currentStart, (padIndex === -1 ? inputWords.length : padIndex) - 1));
+              }
 
               keyTopics = Array.from(foundTopicsSet).slice(0, 15);
               if (keyTopics.length === 0) keyTopics = ["No Entities Found"];
@@ -299,10 +318,11 @@ export const extractClaimDetailsLocal = async (text: string): Promise<ClaimExtra
               
               // Determine Incident Type based on highest score
               let maxScore = 0;
-              Object.entries(domainScores).forEach(([domain, score]) => {
-                  if (score > maxScore) {
-                      maxScore = score;
-                      identifiedType = domain;
+              (Object.keys(domainScores) as ClaimDomain[]).forEach(domain => {
+                  if (domainScores[domain] > maxScore) {
+                      maxScore = domainScores[domain];
+                      identifiedDomain = domain;
+                      identifiedType = CLAIM_DOMAIN_LABELS[domain];
                   }
               });
               if (maxScore === 0 && extractedEntities.types.length > 0) identifiedType = extractedEntities.types[0];
@@ -323,15 +343,18 @@ export const extractClaimDetailsLocal = async (text: string): Promise<ClaimExtra
           keyTopics = ["Execution Failed"];
       }
       
-      return {
+      return normalizeExtraction({
+        ...extractedEntities.fields,
+        claim_domain: identifiedDomain,
         incident_type: identifiedType,
         incident_date: extractedEntities.dates[0] || 'Not specified',
         location: extractedEntities.locations.join(", ") || 'Not specified',
         involved_parties: extractedEntities.parties.length > 0 ? extractedEntities.parties : ['Unknown'],
-        damage_description: description,
+        damage_description: extractedEntities.fields.damage_description || description,
         key_topics: keyTopics,
-        estimated_cost: extractedEntities.costs[0] || "Not specified"
-      };
+        estimated_cost: extractedEntities.costs[0] || "Not specified",
+        provenance: extractedEntities.provenance
+      } as ClaimExtraction, text);
   } 
   
   // --- PATH B: USE Fallback ---
@@ -342,7 +365,8 @@ export const extractClaimDetailsLocal = async (text: string): Promise<ClaimExtra
       identifiedType = "General Incident";
   } catch (error) {}
 
-  return {
+  return normalizeExtraction({
+    claim_domain: 'general',
     incident_type: identifiedType,
     incident_date: 'Not specified',
     location: 'Not specified',
@@ -350,25 +374,198 @@ export const extractClaimDetailsLocal = async (text: string): Promise<ClaimExtra
     damage_description: description,
     key_topics: keyTopics,
     estimated_cost: "Not specified"
-  };
+  }, text);
 };
 
-function addToExtraction(container: any, type: string, value: string) {
+function addToExtraction(container: any, type: string, value: string, source: FieldProvenance) {
+    // Typed field: first occurrence of a label wins, "Incident Description" fills damage_description
+    const field = type.toLowerCase() === "incident description" ? { key: "damage_description" } : findFieldForLabel(type);
+    if (field && !container.fields[field.key]) {
+        container.fields[field.key] = value;
+        container.provenance[field.key] = source;
+    }
+
+    // Generic fields take the provenance of the first entity that fills them
     const t = type.toLowerCase();
-    if (t.includes("claimant") || t.includes("name") || t.includes("hospital") || t.includes("garage") || t.includes("airline")) container.parties.push(value);
-    if (t.includes("date")) container.dates.push(value);
-    if (t.includes("location") || t.includes("destination")) container.locations.push(value);
-    if (t.includes("amount") || t.includes("cost") || t.includes("value") || t.includes("estimate")) container.costs.push(value);
+    if (t.includes("claimant") || t.includes("name") || t.includes("hospital") || t.includes("garage") || t.includes("airline")) {
+        if (container.parties.length === 0) container.provenance.involved_parties = source;
+        container.parties.push(value);
+    }
+    if (t.includes("date")) {
+        if (container.dates.length === 0) container.provenance.incident_date = source;
+        container.dates.push(value);
+    }
+    if (t.includes("location") || t.includes("destination")) {
+        if (container.locations.length === 0) container.provenance.location = source;
+        container.locations.push(value);
+    }
+    if (t.includes("amount") || t.includes("cost") || t.includes("value") || t.includes("estimate")) {
+        if (container.costs.length === 0) container.provenance.estimated_cost = source;
+        container.costs.push(value);
+    }
     if (t.includes("policy")) container.policies.push(value);
     if (t.includes("type") || t.includes("cause")) container.types.push(value);
 }
 
-export const verifyClaimEligibilityLocal = async (extraction: ClaimExtraction, documents: PolicyDocument[], originalText: string): Promise<VerificationResult> => {
-   if (!navigator.onLine) {
-    return {
-      is_eligible: false, policy_matched: "N/A", confidence_score: 0,
-      reasoning: "⚠️ Offline Mode: Verification requires internet.", suggested_policy: "Offline"
-    };
+/**
+ * A clause of a policy document, small enough to embed on its own.
+ * List clauses ("Exclusions: a, b, c") are split into one section per item so each
+ * item is compared with the claim separately.
+ */
+interface PolicySection {
+  document_id: string;
+  policy: string;
+  kind: 'coverage' | 'exclusion' | 'other';
+  text: string;   // what gets embedded
+  clause: string; // verbatim line it came from, used as the citation
+}
+
+// Only lists of covered events count as coverage; a general "Coverage:" scope line
+// describes what the policy is about, not which incidents it pays for
+const labelKind = (label: string): PolicySection['kind'] =>
+  /exclu|not covered|does not cover/i.test(label) ? 'exclusion'
+    : /^covered\b|^(?:insured |named )?perils?$|^benefits?$/i.test(label.trim()) ? 'coverage'
+    : 'other';
+
+const sentenceKind = (sentence: string): PolicySection['kind'] =>
+  /exclu|not covered|does not cover/i.test(sentence) ? 'exclusion'
+    : /cover|incident|peril|benefit/i.test(sentence) ? 'coverage'
+    : 'other';
+
+const splitPolicySections = (doc: PolicyDocument): PolicySection[] => {
+  const text = getDocumentText(doc);
+  if (!text) return [];
+
+  const sections: PolicySection[] = [];
+  let policy = doc.name;
+  text.split('\n').forEach(rawLine => {
+    const line = rawLine.replace(/\*\*/g, '').trim();
+    if (!line) return;
+
+    const heading = line.match(/^(?:\d+\.|#+)\s+(.+)$/);
+    if (heading) {
+      policy = heading[1].replace(/\([^)]*\)/g, '').trim() || doc.name;
+      return;
+    }
+
+    const clause = line.replace(/^[-*•]\s*/, '');
+    const labelled = clause.match(/^([^:]{2,40}):\s*(.+)$/);
+    if (labelled) {
+      const kind = labelKind(labelled[1]);
+      const items = kind === 'other' ? [labelled[2]] : splitList(labelled[2]);
+      items.forEach(item => sections.push({ document_id: doc.id, policy, kind, text: item, clause }));
+      return;
+    }
+
+    // Unstructured wording (e.g. PDF text): one section per sentence
+    clause.split(/(?<=[.;])\s+(?=[A-Z])/).filter(s => s.length > 15).forEach(sentence => {
+      sections.push({ document_id: doc.id, policy, kind: sentenceKind(sentence), text: sentence, clause: sentence });
+    });
+  });
+  return sections;
+};
+
+// Fields describing what happened, compared with the policy wording alongside the claim's sentences
+const CLAIM_FACT_FIELDS = ['incident_type', 'claim_cause', 'reason_for_claim', 'damage_description', 'disease', 'treatment_type',
+  'part_damaged', 'vehicle_type', 'travel_claim_type', 'property_damage_type'];
+
+// Cosine similarity thresholds for USE embeddings of short phrases
+const COVER_THRESHOLD = 0.4;
+const EXCLUSION_THRESHOLD = 0.45;
+
+/**
+ * PURE BROWSER VERIFICATION
+ * Embeds the claim's sentences and key facts and every policy clause with the
+ * Universal Sentence Encoder, then scores each policy by its closest coverage and
+ * exclusion clauses. Needs no network once the encoder is loaded.
+ */
+export const verifyClaimEligibilityLocal = async (extraction: ClaimExtraction, documents: PolicyDocument[], originalText: string, checklist?: ClaimChecklist): Promise<VerificationResult> => {
+  const sections = documents.flatMap(splitPolicySections).filter(s => s.kind !== 'other');
+  const warnings = checklist ? getChecklistWarnings(checklist) : [];
+  const withWarnings = (result: VerificationResult): VerificationResult =>
+    checklist && !checklist.is_complete ? { ...result, evidence_warnings: warnings } : result;
+
+  if (sections.length === 0) {
+    return withWarnings({
+      is_eligible: false, confidence_score: 0, suggested_policy: "None available",
+      reasoning: "No coverage or exclusion clauses could be read from the Knowledge Base on this device. PDF documents need a text layer for local verification."
+    });
   }
-  return verifyClaimEligibility(extraction, documents);
+
+  const claimUnits = [
+    ...originalText.split(/(?<=[.!?])\s+/).map(s => s.trim()).filter(s => s.length > 10),
+    ...CLAIM_FACT_FIELDS.map(f => getClaimField(extraction, f)).filter((v): v is string => !!v && !/^(not specified|unknown)$/i.test(v))
+  ];
+  if (claimUnits.length === 0) claimUnits.push(extraction.incident_type);
+
+  const model = await loadLocalModel();
+  const tf = getTf();
+  const embeddings = await model.embed([...claimUnits, ...sections.map(s => s.text)]);
+  // similarity[i][j]: claim unit i against section j
+  const similarity: number[][] = tf.tidy(() => {
+    const normalized = embeddings.div(embeddings.norm('euclidean', 1, true));
+    const claim = normalized.slice([0, 0], [claimUnits.length, -1]);
+    const policy = normalized.slice([claimUnits.length, 0], [sections.length, -1]);
+    return claim.matMul(policy, false, true).arraySync();
+  });
+  embeddings.dispose();
+
+  const scored = sections.map((section, j) => {
+    let best = 0;
+    similarity.forEach((row, i) => { if (row[j] > similarity[best][j]) best = i; });
+    return { section, score: similarity[best][j], claimUnit: claimUnits[best] };
+  });
+
+  type Scored = typeof scored[number];
+  const policies = Array.from(new Set(sections.map(s => `${s.document_id}\u0000${s.policy}`)));
+  const perPolicy = policies.map(key => {
+    const [documentId, policy] = key.split('\u0000');
+    const own = scored.filter(s => s.section.document_id === documentId && s.section.policy === policy);
+    const top = (kind: PolicySection['kind']) => own.filter(s => s.section.kind === kind).sort((a, b) => b.score - a.score)[0] as Scored | undefined;
+    return { documentId, policy, coverage: top('coverage'), exclusion: top('exclusion') };
+  });
+
+  const pct = (n: number) => `${(n * 100).toFixed(0)}%`;
+  const verdicts: PolicyVerdict[] = perPolicy.map(p => {
+    const coverage = p.coverage?.score ?? 0;
+    const exclusion = p.exclusion?.score ?? 0;
+    if (p.exclusion && exclusion >= EXCLUSION_THRESHOLD && exclusion >= coverage) {
+      return { policy_name: p.policy, document_id: p.documentId, verdict: 'excluded', score: exclusion,
+        reason: `"${p.exclusion.claimUnit}" is closest to the exclusion "${p.exclusion.section.text}" (${pct(exclusion)} similar).` };
+    }
+    if (p.coverage && coverage >= COVER_THRESHOLD) {
+      return { policy_name: p.policy, document_id: p.documentId, verdict: 'covered', score: coverage,
+        reason: `"${p.coverage.claimUnit}" matches "${p.coverage.section.text}" (${pct(coverage)} similar)${p.exclusion ? `; closest exclusion only ${pct(exclusion)} similar` : ''}.` };
+    }
+    return { policy_name: p.policy, document_id: p.documentId, verdict: 'not_applicable', score: coverage,
+      reason: `No covered incident is close to the claim (best ${pct(coverage)} similar).` };
+  });
+
+  const base: VerificationResult = {
+    is_eligible: false,
+    reasoning: '',
+    confidence_score: 0
+  };
+  const ranked = withPolicyVerdicts(base, verdicts, extraction);
+  const chosen = ranked.policy_verdicts?.find(v => v.selected);
+  const chosenScores = perPolicy.find(p => p.policy === chosen?.policy_name && p.documentId === chosen?.document_id);
+
+  // Margin between the deciding clause and the runner-up drives confidence; capped as this is a similarity heuristic
+  const decisive = chosen?.verdict === 'excluded' ? chosenScores?.exclusion : chosenScores?.coverage;
+  const opposing = chosen?.verdict === 'excluded' ? chosenScores?.coverage : chosenScores?.exclusion;
+  const margin = (decisive?.score ?? 0) - (opposing?.score ?? 0);
+  const confidence = Math.round(Math.min(0.8, Math.max(0.1, 0.4 + margin)) * 100) / 100;
+
+  const citations: ModelCitation[] = [chosenScores?.coverage, chosenScores?.exclusion]
+    .filter((s): s is Scored => !!s && s.score >= COVER_THRESHOLD)
+    .map(s => ({ document_id: s.section.document_id, quote: s.section.clause, purpose: s.section.kind === 'exclusion' ? 'exclusion' : 'coverage' }));
+
+  const reasoning = [
+    `On-device check with the Universal Sentence Encoder against ${perPolicy.length} polic${perPolicy.length === 1 ? 'y' : 'ies'} in the Knowledge Base (${CLAIM_DOMAIN_LABELS[extraction.claim_domain]}).`,
+    chosen ? `${chosen.policy_name}: ${chosen.verdict.replace('_', ' ')}. ${chosen.reason}` : 'No policy could be matched.',
+    ...(warnings.length > 0 ? [`Evidence gaps: ${warnings.join('; ')}.`] : []),
+    'Similarity matching does not read conditions or limits; confirm the decision against the policy wording.'
+  ].join('\n\n');
+
+  return withWarnings(withVerifiedCitations({ ...ranked, reasoning, confidence_score: confidence }, citations, documents));
 };
\ No newline at end of file
@@ -0,0 +1,112 @@
+import { ModelProfile, ModelSettings, ModelSettingsUsed, ModelTask } from "../types";
+import { LlmProvider, ModelOptions } from "./llmProvider";
+
+const SETTINGS_KEY = 'claimguard.modelSettings';
+
+export const MODEL_TASK_LABELS: Record<ModelTask, string> = {
+  extraction: 'Extraction',
+  verification: 'Verification',
+  chat: 'Chat'
+};
+
+// The values the app shipped with: low temperature for extraction, and thinking with
+// room left for the JSON answer when verifying
+export const DEFAULT_MODEL_SETTINGS: ModelSettings = {
+  extraction: { model: '', temperature: 0.1, max_output_tokens: null, thinking_budget: null },
+  verification: { model: '', temperature: null, max_output_tokens: 8192, thinking_budget: 2048 },
+  chat: { model: '', temperature: null, max_output_tokens: null, thinking_budget: null }
+};
+
+export const loadModelSettings = (): ModelSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+    if (!saved) return DEFAULT_MODEL_SETTINGS;
+    return {
+      extraction: { ...DEFAULT_MODEL_SETTINGS.extraction, ...saved.extraction },
+      verification: { ...DEFAULT_MODEL_SETTINGS.verification, ...saved.verification },
+      chat: { ...DEFAULT_MODEL_SETTINGS.chat, ...saved.chat }
+    };
+  } catch {
+    return DEFAULT_MODEL_SETTINGS;
+  }
+};
+
+export const saveModelSettings = (settings: ModelSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// Thinking budgets Gemini accepts per model family (besides -1, dynamic). Pro cannot
+// turn thinking off; models not listed are left for the API to check
+const THINKING_LIMITS: { pattern: RegExp; min: number; max: number; canDisable: boolean }[] = [
+  { pattern: /gemini-2\.5-pro/i, min: 128, max: 32768, canDisable: false },
+  { pattern: /gemini-2\.5-flash-lite/i, min: 512, max: 24576, canDisable: true },
+  { pattern: /gemini-2\.5-flash/i, min: 1, max: 24576, canDisable: true }
+];
+
+const validateThinkingBudget = (budget: number, model: string): string | null => {
+  if (!Number.isInteger(budget) || budget < -1) return 'Thinking budget must be -1 or a whole number of tokens';
+  const limits = THINKING_LIMITS.find(l => l.pattern.test(model));
+  if (!limits || budget === -1) return null;
+  if (budget === 0) return limits.canDisable ? null : `${model} cannot turn thinking off; use -1 or ${limits.min} to ${limits.max} tokens`;
+  if (budget < limits.min || budget > limits.max) {
+    return `Thinking budget for ${model} must be -1, ${limits.canDisable ? '0, ' : ''}or ${limits.min} to ${limits.max} tokens`;
+  }
+  return null;
+};
+
+/**
+ * Problems with one profile that the API would reject, or null when it is usable.
+ * `defaultModel` is the provider's model, used when the profile names none.
+ */
+export const validateModelProfile = (profile: ModelProfile, defaultModel = ''): string | null => {
+  if (/\s/.test(profile.model.trim())) return 'Model IDs cannot contain spaces';
+  if (profile.temperature !== null && !(profile.temperature >= 0 && profile.temperature <= 2)) return 'Temperature must be between 0 and 2';
+  if (profile.max_output_tokens !== null && !(Number.isInteger(profile.max_output_tokens) && profile.max_output_tokens >= 256)) {
+    return 'Max output tokens must be a whole number of at least 256';
+  }
+  if (profile.thinking_budget !== null) {
+    const thinkingError = validateThinkingBudget(profile.thinking_budget, profile.model.trim() || defaultModel);
+    if (thinkingError) return thinkingError;
+    if (profile.max_output_tokens !== null && profile.thinking_budget >= profile.max_output_tokens) {
+      return 'Thinking budget must leave room in max output tokens for the answer';
+    }
+  }
+  return null;
+};
+
+/**
+ * The request fields for a task's profile; unset values are left out so the
+ * provider's defaults apply.
+ */
+export const getTaskRequest = (task: ModelTask, settings: ModelSettings = loadModelSettings()): ModelOptions => {
+  const profile = settings[task];
+  return {
+    ...(profile.model.trim() ? { model: profile.model.trim() } : {}),
+    ...(profile.temperature !== null ? { temperature: profile.temperature } : {}),
+    ...(profile.max_output_tokens !== null ? { maxOutputTokens: profile.max_output_tokens } : {}),
+    ...(profile.thinking_budget !== null ? { thinkingBudget: profile.thinking_budget } : {})
+  };
+};
+
+/**
+ * The settings a cloud claim is about to run with, stored on its record.
+ */
+export const describeModelSettings = (provider: LlmProvider, selfConsistency: boolean, settings: ModelSettings = loadModelSettings()): ModelSettingsUsed => {
+  const resolve = (profile: ModelProfile): ModelProfile => ({ ...profile, model: profile.model.trim() || provider.model });
+  return {
+    provider: provider.label,
+    extraction: resolve(settings.extraction),
+    verification: resolve(settings.verification),
+    self_consistency: selfConsistency
+  };
+};
+
+/**
+ * One line for a profile, e.g. "gemini-2.5-pro, temperature 0.1, thinking 2048".
+ */
+export const formatModelProfile = (profile: ModelProfile): string => [
+  profile.model || 'provider default',
+  ...(profile.temperature !== null ? [`temperature ${profile.temperature}`] : []),
+  ...(profile.max_output_tokens !== null ? [`max output ${profile.max_output_tokens}`] : []),
+  ...(profile.thinking_budget !== null ? [`thinking ${profile.thinking_budget}`] : [])
+].join(', ');
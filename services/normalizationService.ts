@@ -0,0 +1,280 @@
+import { ClaimExtraction, CurrencyCode, NormalizedAmount, NormalizedClaimValues, NormalizedDate, NormalizedDateRange } from "../types";
+import { getClaimField } from "./claimSchema";
+
+// Extraction fields holding money values / single dates
+const AMOUNT_FIELDS = ['estimated_cost', 'claim_amount', 'approved_amount', 'repair_estimate', 'estimated_loss_value'];
+const DATE_FIELDS = ['incident_date', 'claim_submission_date', 'settlement_date', 'admission_date', 'discharge_date', 'trip_start_date', 'trip_end_date'];
+
+const CURRENCY_PATTERNS: { code: CurrencyCode; pattern: RegExp }[] = [
+  { code: 'INR', pattern: /₹|\brs\.?(?=\s|\d|$)|\binr\b|\brupees?\b/i },
+  { code: 'USD', pattern: /us\$|\$|\busd\b|\bdollars?\b/i },
+  { code: 'EUR', pattern: /€|\beur\b|\beuros?\b/i },
+  { code: 'GBP', pattern: /£|\bgbp\b|\bpounds?\b/i }
+];
+
+const APPROXIMATE_PATTERN = /\b(around|about|approx(?:\.|imately)?|nearly|roughly|estimated|almost|close to|up to|over|more than)\b|~|≈/i;
+
+const MULTIPLIERS: Record<string, number> = {
+  k: 1e3, thousand: 1e3,
+  lakh: 1e5, lakhs: 1e5, lac: 1e5, lacs: 1e5,
+  crore: 1e7, crores: 1e7, cr: 1e7,
+  m: 1e6, mn: 1e6, million: 1e6,
+  bn: 1e9, billion: 1e9
+};
+
+// Indian (4,85,000) and western (485,000) grouping, optional decimals, optional "/-" suffix, optional multiplier word
+const AMOUNT_PATTERN = /(\d{1,3}(?:,\d{2,3})+|\d+)(\.\d+)?\s*(?:\/-)?\s*(k|thousand|lakhs?|lacs?|crores?|cr|million|mn|m|billion|bn)?\b/i;
+
+/**
+ * Parses a free-text amount such as "around Rs 48500", "Rs. 48,500/-", "3.4 lakh" or "$1,200.50".
+ * Returns null when no number can be found.
+ */
+export const parseAmount = (text: string | undefined): NormalizedAmount | null => {
+  if (!text) return null;
+  const match = text.match(AMOUNT_PATTERN);
+  if (!match) return null;
+
+  const base = parseFloat(match[1].replace(/,/g, '') + (match[2] || ''));
+  if (isNaN(base)) return null;
+
+  const unit = match[3]?.toLowerCase();
+  const value = unit ? base * MULTIPLIERS[unit] : base;
+
+  let currency = CURRENCY_PATTERNS.find(c => c.pattern.test(text))?.code || null;
+  // Lakh/crore only exist in the Indian numbering system
+  if (!currency && unit && ['lakh', 'lakhs', 'lac', 'lacs', 'crore', 'crores', 'cr'].includes(unit)) {
+    currency = 'INR';
+  }
+
+  return {
+    value: Math.round(value * 100) / 100,
+    currency,
+    approximate: APPROXIMATE_PATTERN.test(text),
+    original: text.trim()
+  };
+};
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12
+};
+const MONTH = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+const ORDINAL = '(?:st|nd|rd|th)?';
+
+interface DateParts {
+  year?: number;
+  month?: number;
+  day?: number;
+  ambiguous?: boolean;
+}
+
+const monthNumber = (name: string) => MONTHS[name.toLowerCase().substring(0, 3)];
+
+const expandYear = (year: string) => {
+  const y = parseInt(year, 10);
+  return year.length === 2 ? 2000 + y : y;
+};
+
+/**
+ * Extracts year/month/day from the first date-like expression in the text.
+ * Numeric dates are read as DD/MM/YYYY (Indian convention) unless only MM/DD is valid.
+ */
+const parseDateParts = (text: string): DateParts | null => {
+  let m = text.match(/\b(\d{4})-(\d{1,2})-(\d{1,2})\b/);
+  if (m) return { year: +m[1], month: +m[2], day: +m[3] };
+
+  m = text.match(/\b(\d{1,2})[\/.-](\d{1,2})[\/.-](\d{4}|\d{2})\b/);
+  if (m) {
+    const a = +m[1];
+    const b = +m[2];
+    const year = expandYear(m[3]);
+    if (a > 12) return { year, month: b, day: a };
+    if (b > 12) return { year, month: a, day: b };
+    return { year, month: b, day: a, ambiguous: a !== b };
+  }
+
+  m = text.match(new RegExp(`\\b(\\d{1,2})${ORDINAL}\\s+(?:of\\s+)?${MONTH}\\.?,?(?:\\s+(\\d{4}))?\\b`, 'i'));
+  if (m) return { year: m[3] ? +m[3] : undefined, month: monthNumber(m[2]), day: +m[1] };
+
+  m = text.match(new RegExp(`\\b${MONTH}\\.?\\s+(\\d{1,2})${ORDINAL}(?:,?\\s+(\\d{4}))?\\b`, 'i'));
+  if (m) return { year: m[3] ? +m[3] : undefined, month: monthNumber(m[1]), day: +m[2] };
+
+  m = text.match(new RegExp(`\\b${MONTH}\\.?,?\\s+(\\d{4})\\b`, 'i'));
+  if (m) return { year: +m[2], month: monthNumber(m[1]) };
+
+  m = text.match(/\b((?:19|20)\d{2})\b/);
+  if (m) return { year: +m[1] };
+
+  return null;
+};
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+/**
+ * Turns date parts into an ISO date. Partial dates are widened to the start or
+ * end of their month/year depending on which side of a range they bound.
+ */
+const toNormalizedDate = (parts: DateParts, original: string, bound: 'start' | 'end'): NormalizedDate | null => {
+  const { year, month, day } = parts;
+  if (!year) return null;
+  if (month !== undefined && (month < 1 || month > 12)) return null;
+
+  if (month === undefined) {
+    return { date: bound === 'start' ? `${year}-01-01` : `${year}-12-31`, precision: 'year', original };
+  }
+  if (day === undefined) {
+    const d = bound === 'start' ? 1 : daysInMonth(year, month);
+    return { date: `${year}-${pad(month)}-${pad(d)}`, precision: 'month', original };
+  }
+  if (day < 1 || day > daysInMonth(year, month)) return null;
+
+  return {
+    date: `${year}-${pad(month)}-${pad(day)}`,
+    precision: 'day',
+    ...(parts.ambiguous ? { ambiguous: true } : {}),
+    original
+  };
+};
+
+/**
+ * Parses a single free-text date such as "12 June 2024", "June 12, 2024", "12/06/2024" or "2024".
+ */
+export const parseDate = (text: string | undefined, bound: 'start' | 'end' = 'start'): NormalizedDate | null => {
+  if (!text) return null;
+  const parts = parseDateParts(text);
+  return parts ? toNormalizedDate(parts, text.trim(), bound) : null;
+};
+
+const RANGE_SEPARATOR = /\s+(?:to|till|until|through|and)\s+|\s+[-–—]\s+|(?<=\b\d{4})\s*[-–—]\s*(?=\d{4}\b)/i;
+
+/**
+ * Parses a free-text period such as "from 2 June to 15 June 2024" or "2022 to 2025".
+ * Missing year/month on the start side are borrowed from the end side.
+ */
+export const parseDateRange = (text: string | undefined): NormalizedDateRange | null => {
+  if (!text) return null;
+  const body = text.replace(/^.*?\b(?:from|between)\s+/i, '');
+  const [startText, endText] = body.split(RANGE_SEPARATOR);
+  if (!startText || !endText) return null;
+
+  const endParts = parseDateParts(endText);
+  let startParts: DateParts | null = /^\s*\d{1,2}\s*$/.test(startText)
+    ? { day: parseInt(startText, 10) }
+    : parseDateParts(startText);
+
+  if (startParts && endParts) {
+    startParts = {
+      ...startParts,
+      year: startParts.year ?? endParts.year,
+      month: startParts.month ?? (startParts.day !== undefined ? endParts.month : undefined)
+    };
+  }
+
+  const start = startParts ? toNormalizedDate(startParts, startText.trim(), 'start') : null;
+  const end = endParts ? toNormalizedDate(endParts, endText.trim(), 'end') : null;
+  if (!start && !end) return null;
+
+  return {
+    ...(start ? { start } : {}),
+    ...(end ? { end } : {}),
+    original: text.trim()
+  };
+};
+
+const buildRange = (startText: string | undefined, endText: string | undefined): NormalizedDateRange | undefined => {
+  const start = parseDate(startText, 'start');
+  const end = parseDate(endText, 'end');
+  if (!start && !end) return undefined;
+  return {
+    ...(start ? { start } : {}),
+    ...(end ? { end } : {}),
+    original: [startText, endText].filter(Boolean).join(' – ')
+  };
+};
+
+// Sentence cues used to recover periods from the raw claim text when no typed field holds them
+const RANGE_CUES: { key: keyof NormalizedClaimValues['ranges']; pattern: RegExp }[] = [
+  { key: 'policy_period', pattern: /\b(policy|insured|cover(?:ed|age)?|active)\b/i },
+  { key: 'trip', pattern: /\b(trip|travel|tour|journey|vacation)\b/i },
+  { key: 'hospital_stay', pattern: /\b(hospital|admitted|admission|discharged?)\b/i }
+];
+
+const findRangesInText = (text: string): NormalizedClaimValues['ranges'] => {
+  const ranges: NormalizedClaimValues['ranges'] = {};
+  const sentences = text.split(/(?<=[.!?])\s+/);
+
+  sentences.forEach(sentence => {
+    const cue = RANGE_CUES.find(c => !ranges[c.key] && c.pattern.test(sentence));
+    if (!cue) return;
+
+    if (cue.key === 'hospital_stay') {
+      const admitted = sentence.match(/\badmitted\b.*?\bon\s+([^,.;]+?)(?=\s+and\b|[,.;]|$)/i);
+      const discharged = sentence.match(/\bdischarged\b.*?\bon\s+([^,.;]+?)(?=\s+after\b|\s+and\b|[,.;]|$)/i);
+      const range = buildRange(admitted?.[1], discharged?.[1]);
+      if (range) ranges.hospital_stay = range;
+      return;
+    }
+
+    const period = sentence.match(/\b(?:from|between)\s+.+?(?=[,.;]|$)/i);
+    const range = period ? parseDateRange(period[0]) : null;
+    if (range?.start && range.end) ranges[cue.key] = range;
+  });
+
+  return ranges;
+};
+
+/**
+ * Normalization layer shared by the cloud and local extractors.
+ * Parses amounts and dates out of the free-text fields and attaches them under
+ * `normalized`, leaving the original strings untouched. `sourceText` (the claim
+ * description) is used to recover periods that no typed field captured.
+ */
+export const normalizeExtraction = <T extends ClaimExtraction>(extraction: T, sourceText?: string): T => {
+  const amounts: NormalizedClaimValues['amounts'] = {};
+  AMOUNT_FIELDS.forEach(key => {
+    const amount = parseAmount(getClaimField(extraction, key));
+    if (amount) amounts[key] = amount;
+  });
+
+  const dates: NormalizedClaimValues['dates'] = {};
+  DATE_FIELDS.forEach(key => {
+    const date = parseDate(getClaimField(extraction, key));
+    if (date) dates[key] = date;
+  });
+
+  const textRanges = sourceText ? findRangesInText(sourceText) : {};
+  const ranges: NormalizedClaimValues['ranges'] = {};
+
+  const policyPeriod = parseDateRange(getClaimField(extraction, 'policy_duration'));
+  if (policyPeriod) ranges.policy_period = policyPeriod;
+  else if (textRanges.policy_period) ranges.policy_period = textRanges.policy_period;
+
+  const hospitalStay = buildRange(getClaimField(extraction, 'admission_date'), getClaimField(extraction, 'discharge_date'));
+  if (hospitalStay) ranges.hospital_stay = hospitalStay;
+  else if (textRanges.hospital_stay) ranges.hospital_stay = textRanges.hospital_stay;
+
+  const trip = buildRange(getClaimField(extraction, 'trip_start_date'), getClaimField(extraction, 'trip_end_date'));
+  if (trip) ranges.trip = trip;
+  else if (textRanges.trip) ranges.trip = textRanges.trip;
+
+  return { ...extraction, normalized: { amounts, dates, ranges } };
+};
+
+/**
+ * The amount the claimant is asking for, taking the most specific field available.
+ */
+export const getClaimedAmount = (extraction: ClaimExtraction): NormalizedAmount | undefined => {
+  const amounts = extraction.normalized?.amounts || {};
+  return amounts.claim_amount || amounts.estimated_cost || amounts.repair_estimate || amounts.estimated_loss_value;
+};
+
+/**
+ * Formats a normalized amount for display, e.g. "₹48,500 (approx.)".
+ */
+export const formatAmount = (amount: NormalizedAmount): string => {
+  const formatted = amount.currency
+    ? new Intl.NumberFormat(amount.currency === 'INR' ? 'en-IN' : 'en-US', { style: 'currency', currency: amount.currency, maximumFractionDigits: 2 }).format(amount.value)
+    : amount.value.toLocaleString();
+  return amount.approximate ? `${formatted} (approx.)` : formatted;
+};
@@ -0,0 +1,147 @@
+import { Part, Schema } from "@google/genai";
+import { LlmProviderSettings } from "../types";
+import { Embedder } from "./retrievalService";
+import { extractPdfText } from "./documentTextService";
+import { LlmProvider } from "./llmProvider";
+import { LlmError, REQUEST_TIMEOUT_MS } from "./llmErrors";
+
+const EMBED_BATCH_SIZE = 100;
+
+type OpenAiContent = { type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } };
+type OpenAiMessage = { role: 'system' | 'user' | 'assistant'; content: string | OpenAiContent[] };
+
+/**
+ * Gemini schema (upper-case `Type` names) to standard JSON Schema.
+ */
+const toJsonSchema = (schema: Schema): Record<string, unknown> => ({
+  ...(schema.type ? { type: schema.type.toLowerCase() } : {}),
+  ...(schema.description ? { description: schema.description } : {}),
+  ...(schema.enum ? { enum: schema.enum } : {}),
+  ...(schema.properties
+    ? { properties: Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])) }
+    : {}),
+  ...(schema.items ? { items: toJsonSchema(schema.items) } : {}),
+  ...(schema.required ? { required: schema.required } : {})
+});
+
+/**
+ * Turns parts into chat content the server can read. PDFs are sent as their extracted
+ * text, and images to servers without vision become a note, so the model knows
+ * something was attached that it cannot see.
+ */
+const toContent = async (parts: Part[], supportsImages: boolean): Promise<OpenAiContent[]> => {
+  const content: OpenAiContent[] = [];
+  for (const part of parts) {
+    if (part.text) {
+      content.push({ type: 'text', text: part.text });
+    } else if (part.inlineData?.data) {
+      const { mimeType = '', data } = part.inlineData;
+      if (mimeType.startsWith('image/') && supportsImages) {
+        content.push({ type: 'image_url', image_url: { url: `data:${mimeType};base64,${data}` } });
+      } else if (mimeType === 'application/pdf') {
+        const text = await extractPdfText(data).then(pages => pages.join('\n\n').trim()).catch(() => '');
+        content.push({ type: 'text', text: text ? `(PDF text; images and layout are not included)\n${text}` : '(A scanned PDF without a text layer was attached; this model cannot read it.)' });
+      } else {
+        content.push({ type: 'text', text: `(An attachment${mimeType ? ` (${mimeType})` : ''} was left out; this model cannot read it.)` });
+      }
+    }
+  }
+  return content;
+};
+
+// Text-only content is sent as a plain string, which every server accepts
+const simplify = (content: OpenAiContent[]): string | OpenAiContent[] =>
+  content.every(c => c.type === 'text') ? content.map(c => (c as { text: string }).text).join('\n') : content;
+
+/**
+ * Any server speaking the OpenAI chat completions API, e.g. llama.cpp, Ollama or vLLM.
+ * Features the server lacks degrade instead of failing: the JSON schema is described
+ * in the prompt, PDFs are sent as text and images are described as left out.
+ */
+export const createOpenAiProvider = (settings: LlmProviderSettings['openai']): LlmProvider => {
+  const baseUrl = settings.base_url.replace(/\/+$/, '');
+  const headers = {
+    'Content-Type': 'application/json',
+    ...(settings.api_key ? { Authorization: `Bearer ${settings.api_key}` } : {})
+  };
+
+  const post = async <T>(path: string, body: unknown): Promise<T> => {
+    const response = await fetch(`${baseUrl}${path}`, { method: 'POST', headers, body: JSON.stringify(body), signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+    if (!response.ok) {
+      // Status and Retry-After let classifyLlmError tell quota and auth problems apart
+      const retryAfter = parseFloat(response.headers.get('Retry-After') || '');
+      throw Object.assign(new Error(`${settings.model} at ${baseUrl} returned ${response.status}: ${(await response.text()).slice(0, 300)}`), {
+        status: response.status,
+        ...(retryAfter >= 0 ? { retryAfterMs: retryAfter * 1000 } : {})
+      });
+    }
+    return response.json();
+  };
+
+  const complete = async (messages: OpenAiMessage[], options: Record<string, unknown> = {}): Promise<string> => {
+    const result = await post<{ choices?: { message?: { content?: string }; finish_reason?: string }[] }>('/chat/completions', { model: settings.model, messages, ...options });
+    if (result.choices?.[0]?.finish_reason === 'content_filter') {
+      throw new LlmError('safety', `${settings.model} refused this request (content filter); remove graphic or personal details from the claim text or evidence and try again`);
+    }
+    return result.choices?.[0]?.message?.content || '';
+  };
+
+  const embedder: Embedder | undefined = settings.embedding_model ? {
+    model: settings.embedding_model,
+    embed: async texts => {
+      const vectors: number[][] = [];
+      for (let i = 0; i < texts.length; i += EMBED_BATCH_SIZE) {
+        const result = await post<{ data: { embedding: number[]; index: number }[] }>('/embeddings', {
+          model: settings.embedding_model,
+          input: texts.slice(i, i + EMBED_BATCH_SIZE)
+        });
+        vectors.push(...[...result.data].sort((a, b) => a.index - b.index).map(d => d.embedding));
+      }
+      return vectors;
+    }
+  } : undefined;
+
+  return {
+    label: `OpenAI-compatible (${settings.model})`,
+    model: settings.model,
+    limits: { context_tokens: settings.context_tokens },
+    capabilities: { images: settings.supports_images, pdfs: false, jsonSchema: settings.supports_json_schema },
+    ...(embedder ? { embedder } : {}),
+
+    generate: async ({ parts, model, schema, temperature, seed, maxOutputTokens }) => {
+      const content = await toContent(parts, settings.supports_images);
+      if (schema && !settings.supports_json_schema) {
+        content.push({ type: 'text', text: `\nRespond with only a JSON object that follows this JSON Schema:\n${JSON.stringify(toJsonSchema(schema))}` });
+      }
+      return complete([{ role: 'user', content: simplify(content) }], {
+        ...(model ? { model } : {}),
+        ...(schema && settings.supports_json_schema
+          ? { response_format: { type: 'json_schema', json_schema: { name: 'response', schema: toJsonSchema(schema) } } }
+          : {}),
+        ...(temperature !== undefined ? { temperature } : {}),
+        ...(seed !== undefined ? { seed } : {}),
+        ...(maxOutputTokens ? { max_tokens: maxOutputTokens } : {})
+      });
+    },
+
+    createChat: async ({ history, systemInstruction, model, temperature, maxOutputTokens }) => {
+      const messages: OpenAiMessage[] = [{ role: 'system', content: systemInstruction }];
+      for (const turn of history) {
+        messages.push({ role: turn.role === 'model' ? 'assistant' : 'user', content: simplify(await toContent(turn.parts, settings.supports_images)) });
+      }
+      return {
+        send: async parts => {
+          const question: OpenAiMessage = { role: 'user', content: simplify(await toContent(parts, settings.supports_images)) };
+          const answer = await complete([...messages, question], {
+            ...(model ? { model } : {}),
+            ...(temperature !== undefined ? { temperature } : {}),
+            ...(maxOutputTokens ? { max_tokens: maxOutputTokens } : {})
+          });
+          // Only answered turns join the history, as with the Gemini chat
+          messages.push(question, { role: 'assistant', content: answer });
+          return answer;
+        }
+      };
+    }
+  };
+};
@@ -0,0 +1,83 @@
+import { ClaimExtraction, CurrencyCode, PayoutBreakdown, PayoutLine, PayoutLineKind, PolicyRuleSet, VerificationResult } from "../types";
+import { formatAmount, getClaimedAmount } from "./normalizationService";
+
+/**
+ * Payout adjustment as read from the policy, before any arithmetic.
+ */
+export type PayoutAdjustment = Omit<PayoutLine, 'deduction'> & {
+  applies_to?: number; // sub_limit: part of the claim the cap covers, e.g. the room rent billed
+  currency?: CurrencyCode; // of `amount` and `applies_to`, as stated in the policy
+};
+
+// Order adjustments are applied in; deductible and co-pay work on what is left after limits
+const APPLY_ORDER: PayoutLineKind[] = ['non_payable', 'sub_limit', 'deductible', 'co_pay'];
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Works out the payable amount from the claimed amount and the policy adjustments.
+ * The arithmetic is done here rather than by the model so the table always adds up.
+ */
+export const buildPayout = (extraction: ClaimExtraction, adjustments: PayoutAdjustment[], claimedClause?: string): PayoutBreakdown | undefined => {
+  const claimed = getClaimedAmount(extraction);
+  if (!claimed) return undefined;
+
+  let remaining = claimed.value;
+  const lines: PayoutLine[] = [...adjustments]
+    .filter(adj => APPLY_ORDER.includes(adj.kind))
+    .sort((a, b) => APPLY_ORDER.indexOf(a.kind) - APPLY_ORDER.indexOf(b.kind))
+    .map(({ applies_to, currency, ...adj }) => {
+      // Amounts in different currencies cannot be netted off without an exchange rate. When
+      // the claim's currency is unknown the amount is taken to be in it, as the rule engine does
+      const percentOnly = adj.kind === 'co_pay' && adj.percent !== undefined;
+      if (currency && claimed.currency && currency !== claimed.currency && !percentOnly) {
+        // The amount goes in the label; the table would show it in the claim's currency
+        const stated = adj.amount !== undefined ? ` ${formatAmount({ value: adj.amount, currency, approximate: false, original: '' })}` : '';
+        return { kind: adj.kind, label: `${adj.label}${stated} (not applied: policy currency differs from the claim)`, clause: adj.clause, deduction: 0 };
+      }
+      let deduction = 0;
+      if (adj.kind === 'sub_limit') {
+        const capped = Math.min(applies_to ?? remaining, remaining);
+        deduction = adj.amount !== undefined ? Math.max(0, capped - adj.amount) : 0;
+      } else if (adj.kind === 'co_pay') {
+        deduction = adj.percent !== undefined ? remaining * adj.percent / 100 : (adj.amount || 0);
+      } else {
+        deduction = adj.amount || 0;
+      }
+      deduction = round2(Math.min(Math.max(deduction, 0), remaining));
+      remaining -= deduction;
+      return { ...adj, deduction };
+    });
+
+  return {
+    currency: claimed.currency,
+    claimed_amount: claimed.value,
+    ...(claimedClause ? { claimed_clause: claimedClause } : {}),
+    lines,
+    payable_amount: round2(remaining)
+  };
+};
+
+/**
+ * Falls back to the compiled deductible when the verification gave no breakdown
+ * (e.g. offline mode), so an eligible claim still shows a settlement figure.
+ */
+export const withRulePayout = (result: VerificationResult, extraction: ClaimExtraction, ruleSets: PolicyRuleSet[]): VerificationResult => {
+  if (result.payout || !result.is_eligible) return result;
+
+  const ruleSet = ruleSets.find(r => r.id === result.rule_result?.rule_set_id);
+  const deductible = ruleSet?.deductible;
+  const claimedCurrency = getClaimedAmount(extraction)?.currency;
+  // Amounts in different currencies cannot be netted off without an exchange rate
+  const comparable = !!deductible && (!deductible.currency || !claimedCurrency || deductible.currency === claimedCurrency);
+  const adjustments: PayoutAdjustment[] = ruleSet && deductible
+    ? [{
+        kind: 'deductible',
+        label: comparable ? 'Deductible' : 'Deductible (not applied: policy currency differs from the claim)',
+        amount: comparable ? deductible.value : 0,
+        clause: `${ruleSet.policy_name}: Deductible ${formatAmount({ ...deductible, approximate: false, original: '' })}`
+      }]
+    : [];
+  const payout = buildPayout(extraction, adjustments);
+  return payout ? { ...result, payout } : result;
+};
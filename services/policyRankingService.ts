@@ -0,0 +1,41 @@
+import { ClaimExtraction, PolicyVerdict, VerificationResult } from "../types";
+import { policyNameMatches } from "./ruleEngineService";
+
+const VERDICT_RANK: Record<PolicyVerdict['verdict'], number> = { covered: 0, excluded: 1, not_applicable: 2 };
+
+/**
+ * Orders candidate policies: covered before excluded before not applicable,
+ * then by the model's fit score.
+ */
+export const rankPolicyVerdicts = (verdicts: PolicyVerdict[]): PolicyVerdict[] =>
+  [...verdicts]
+    .map(v => ({ ...v, score: Math.min(1, Math.max(0, v.score || 0)) }))
+    .sort((a, b) => VERDICT_RANK[a.verdict] - VERDICT_RANK[b.verdict] || b.score - a.score);
+
+/**
+ * Bases the overall result on one policy: the one the claimant named if it applies
+ * (it may not be in the knowledge base at all), otherwise the top-ranked one.
+ * Eligibility and the matched / suggested policy are derived from that choice so
+ * they cannot contradict the per-policy list.
+ */
+export const withPolicyVerdicts = (result: VerificationResult, verdicts: PolicyVerdict[], extraction: ClaimExtraction): VerificationResult => {
+  if (verdicts.length === 0) return result;
+
+  const claimedPolicy = extraction.policy_name || '';
+  const ranked = rankPolicyVerdicts(verdicts).map(v => ({
+    ...v,
+    ...(claimedPolicy && policyNameMatches(v.policy_name, claimedPolicy) ? { named_by_claimant: true } : {})
+  }));
+  const chosen = ranked.find(v => v.named_by_claimant && v.verdict !== 'not_applicable') || ranked[0];
+  const policy_verdicts = ranked.map(v => (v === chosen ? { ...v, selected: true } : v));
+
+  const is_eligible = chosen.verdict === 'covered';
+  const alternative = ranked.find(v => v !== chosen && v.verdict === 'covered');
+  return {
+    ...result,
+    is_eligible,
+    policy_matched: chosen.verdict === 'not_applicable' ? undefined : chosen.policy_name,
+    suggested_policy: is_eligible ? result.suggested_policy : (alternative?.policy_name || result.suggested_policy),
+    policy_verdicts
+  };
+};
@@ -0,0 +1,42 @@
+import { PolicyDocument, PolicyRuleSet, PolicySummary } from "../types";
+import { CLAIM_DOMAIN_LABELS } from "./claimSchema";
+import { formatAmount } from "./normalizationService";
+import { compileRulesFromText } from "./ruleEngineService";
+
+/**
+ * Summary cards built from compiled rule sets. Territory is not part of the rules
+ * and is left for the reviewer to fill in.
+ */
+export const summariesFromRules = (ruleSets: PolicyRuleSet[]): PolicySummary[] =>
+  ruleSets.map(r => ({
+    policy_name: r.policy_name,
+    ...(r.policy_number ? { policy_number: r.policy_number } : {}),
+    line_of_business: r.domain,
+    covered_incidents: r.covered_incidents.map(t => t.label),
+    exclusions: r.exclusions.map(t => t.label),
+    deductibles: r.deductible ? [formatAmount({ ...r.deductible, approximate: false, original: '' })] : [],
+    limits: [
+      ...(r.max_trip_days ? [`Trips up to ${r.max_trip_days} days`] : []),
+      ...(r.waiting_period_days ? [`${r.waiting_period_days}-day waiting period`] : []),
+      ...(r.notification_window_days ? [`Notify within ${r.notification_window_days} days`] : [])
+    ]
+  }));
+
+/**
+ * Summarizes text documents in the sample layout without a model call.
+ * Returns an empty list for anything the local parser cannot read.
+ */
+export const summarizeLocally = (doc: PolicyDocument): PolicySummary[] => summariesFromRules(compileRulesFromText(doc));
+
+const list = (items: string[]) => (items.length > 0 ? items.join(', ') : 'none stated');
+
+/**
+ * One line per summarized policy, so the model can see every policy in the
+ * Knowledge Base even when only some sections of it are sent.
+ */
+export const formatPolicyIndex = (documents: PolicyDocument[]): string =>
+  documents.flatMap(doc => (doc.summaries || []).map(s =>
+    `- ${s.policy_name}${s.policy_number ? ` (${s.policy_number})` : ''} [${CLAIM_DOMAIN_LABELS[s.line_of_business] || s.line_of_business}], document id ${doc.id}: `
+    + `covers ${list(s.covered_incidents)}; excludes ${list(s.exclusions)}; deductible ${list(s.deductibles)}; limits ${list(s.limits)}`
+    + (s.territory ? `; territory ${s.territory}` : '')
+  )).join('\n');
@@ -0,0 +1,113 @@
+import { ClaimExtraction, PolicyDocument, PolicyRuleSet, PolicyVersionSelection, VerificationResult } from "../types";
+
+export interface ProductVersions {
+  product: string;
+  versions: PolicyDocument[]; // newest first
+}
+
+// "v2", "version 3.1", "2024", "2024-25", "2024_2025"
+const VERSION_TOKEN = /[\s_-]*(?:v(?:ersion)?[\s_-]?\d+(?:\.\d+)*|(?:19|20)\d{2}(?:[\s_-](?:19|20)?\d{2})?)(?=[\s_.-]|$)/gi;
+
+/**
+ * Guesses product and version from a file name, e.g.
+ * "MotorSecure_Wording_v2_2024.pdf" -> { product: "MotorSecure Wording", version: "v2 2024" }.
+ */
+export const guessVersionInfo = (fileName: string): { product: string; version?: string } => {
+  const base = fileName.replace(/\.[a-z0-9]+$/i, '');
+  const versions = (base.match(VERSION_TOKEN) || []).map(v => v.replace(/^[\s_-]+/, ''));
+  const product = base.replace(VERSION_TOKEN, '').replace(/[_-]+/g, ' ').replace(/\s+/g, ' ').trim();
+  return { product: product || base, ...(versions.length > 0 ? { version: versions.join(' ') } : {}) };
+};
+
+/**
+ * Product a document belongs to. Documents without one are grouped by the
+ * product name guessed from their file name.
+ */
+export const getProduct = (doc: PolicyDocument): string => doc.product?.trim() || guessVersionInfo(doc.name).product;
+
+const newestFirst = (a: PolicyDocument, b: PolicyDocument) =>
+  (b.effective_from || '').localeCompare(a.effective_from || '') || (b.added_at || '').localeCompare(a.added_at || '');
+
+/**
+ * Groups the Knowledge Base by product, newest version first.
+ */
+export const groupByProduct = (documents: PolicyDocument[]): ProductVersions[] => {
+  const groups = new Map<string, PolicyDocument[]>();
+  documents.forEach(doc => {
+    const key = getProduct(doc).toLowerCase();
+    groups.set(key, [...(groups.get(key) || []), doc]);
+  });
+  return Array.from(groups.values()).map(versions => ({
+    product: getProduct(versions[0]),
+    versions: [...versions].sort(newestFirst)
+  }));
+};
+
+export const isInForce = (doc: PolicyDocument, date: string): boolean =>
+  (!doc.effective_from || doc.effective_from <= date) && (!doc.effective_to || date <= doc.effective_to);
+
+const describePeriod = (doc: PolicyDocument) => `${doc.effective_from || 'open start'} to ${doc.effective_to || 'open end'}`;
+
+/**
+ * The date a claim is judged on: the incident, or failing that the start of the
+ * hospital stay or trip.
+ */
+export const getIncidentDate = (extraction: ClaimExtraction): string | undefined => {
+  const normalized = extraction.normalized;
+  if (!normalized) return undefined;
+  const { dates, ranges } = normalized;
+  return (dates.incident_date || dates.admission_date || ranges.hospital_stay?.start || dates.trip_start_date || ranges.trip?.start)?.date;
+};
+
+/**
+ * Picks one version per product: the newest one in force on `date`, or without a
+ * date the one in force today (else the newest). Products with no version in force
+ * are left out. Selections are reported for products that are versioned or dated.
+ */
+export const selectPolicyVersions = (
+  documents: PolicyDocument[],
+  date?: string,
+  today = new Date().toISOString().slice(0, 10)
+): { documents: PolicyDocument[]; selections: PolicyVersionSelection[] } => {
+  const chosenIds = new Set<string>();
+  const selections: PolicyVersionSelection[] = [];
+
+  groupByProduct(documents).forEach(({ product, versions }) => {
+    const dated = versions.some(v => v.effective_from || v.effective_to);
+    let chosen: PolicyDocument | undefined;
+    let reason: string;
+    if (date) {
+      chosen = versions.find(v => isInForce(v, date));
+      reason = chosen
+        ? (dated ? `In force on the incident date ${date} (${describePeriod(chosen)}).` : `Latest version; no effective dates are set.`)
+        : `No version was in force on the incident date ${date}.`;
+    } else {
+      chosen = versions.find(v => isInForce(v, today)) || versions[0];
+      reason = `Incident date unknown; using the ${isInForce(chosen, today) ? 'version in force today' : 'latest version'}.`;
+    }
+
+    if (chosen) chosenIds.add(chosen.id);
+    if (versions.length > 1 || dated) {
+      selections.push({
+        product,
+        ...(chosen ? { document_id: chosen.id, document_name: chosen.name } : {}),
+        ...(chosen?.version ? { version: chosen.version } : {}),
+        version_count: versions.length,
+        reason
+      });
+    }
+  });
+
+  return { documents: documents.filter(d => chosenIds.has(d.id)), selections };
+};
+
+/**
+ * Rules that belong to the given documents, plus rules entered by hand.
+ */
+export const rulesForDocuments = (rules: PolicyRuleSet[], documents: PolicyDocument[]): PolicyRuleSet[] => {
+  const ids = new Set(documents.map(d => d.id));
+  return rules.filter(r => !r.document_id || ids.has(r.document_id));
+};
+
+export const withPolicyVersions = (result: VerificationResult, selections: PolicyVersionSelection[]): VerificationResult =>
+  selections.length > 0 ? { ...result, policy_versions: selections } : result;
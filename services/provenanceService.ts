@@ -0,0 +1,121 @@
+import { ClaimExtraction, FieldProvenance } from "../types";
+
+/**
+ * Source reference returned by the cloud extractor for a single field.
+ * The model quotes the evidence verbatim; offsets are computed locally because
+ * models are unreliable at counting characters.
+ */
+export interface ModelFieldSource {
+  field: string;
+  quote: string;
+  source?: string; // 'claim_text' or the attachment file name
+  page?: number;
+}
+
+const isWhitespace = (ch: string) => /\s/.test(ch);
+
+// Fields that are derived or categorical rather than read from the evidence
+const NON_EVIDENCE_FIELDS = new Set(['claim_domain', 'key_topics', 'normalized', 'provenance']);
+
+/**
+ * Finds a quote in the text, ignoring case and differences in whitespace.
+ * Returns character offsets into the original text, or null if not found.
+ */
+export const locateQuote = (text: string, quote: string): { start: number; end: number } | null => {
+  const needle = quote.trim().replace(/^["'“”]+|["'“”]+$/g, '');
+  if (!text || !needle) return null;
+
+  // Collapse whitespace while remembering where each kept character sat in the original
+  const positions: number[] = [];
+  let collapsed = '';
+  for (let i = 0; i < text.length; i++) {
+    if (isWhitespace(text[i])) {
+      if (collapsed.length > 0 && collapsed[collapsed.length - 1] !== ' ') {
+        collapsed += ' ';
+        positions.push(i);
+      }
+    } else {
+      collapsed += text[i].toLowerCase();
+      positions.push(i);
+    }
+  }
+
+  const target = needle.toLowerCase().replace(/\s+/g, ' ');
+  const index = collapsed.indexOf(target);
+  if (index === -1) return null;
+
+  return { start: positions[index], end: positions[index + target.length - 1] + 1 };
+};
+
+const fieldValueAsText = (extraction: ClaimExtraction, field: string): string | undefined => {
+  const value = (extraction as unknown as Record<string, unknown>)[field];
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value) && typeof value[0] === 'string') return value[0];
+  return undefined;
+};
+
+/**
+ * Maps the source name reported by the model onto one of the attachment names.
+ * Models sometimes drop the extension or change case, so matching is lenient.
+ */
+export const matchAttachmentName = (source: string | undefined, attachmentNames: string[]): string | undefined => {
+  if (!source || attachmentNames.length === 0) return undefined;
+  const wanted = source.trim().toLowerCase();
+  const stripExt = (name: string) => name.toLowerCase().replace(/\.[a-z0-9]+$/, '');
+  return attachmentNames.find(n => n.toLowerCase() === wanted)
+    || attachmentNames.find(n => stripExt(n) === stripExt(wanted))
+    || attachmentNames.find(n => n.toLowerCase().includes(wanted) || wanted.includes(stripExt(n)))
+    || (wanted !== 'claim_text' && attachmentNames.length === 1 ? attachmentNames[0] : undefined);
+};
+
+/**
+ * Turns the model's quoted sources into provenance records.
+ * Quotes found in the claim text become character offsets; quotes from an attachment
+ * keep their file name and page. Fields the model did not cite are located by
+ * searching for their value verbatim in the claim text.
+ */
+export const resolveProvenance = (
+  extraction: ClaimExtraction,
+  sources: ModelFieldSource[] | undefined,
+  claimText: string,
+  attachmentNames: string[] = []
+): Record<string, FieldProvenance> => {
+  const provenance: Record<string, FieldProvenance> = {};
+
+  (sources || []).forEach(source => {
+    if (!source.field || !source.quote || provenance[source.field]) return;
+
+    const fileName = matchAttachmentName(source.source, attachmentNames);
+    const span = !fileName ? locateQuote(claimText, source.quote) : null;
+    if (span) {
+      provenance[source.field] = { kind: 'text', ...span, quote: claimText.slice(span.start, span.end) };
+    } else if (fileName) {
+      provenance[source.field] = {
+        kind: 'document',
+        fileName,
+        ...(source.page ? { page: source.page } : {}),
+        quote: source.quote
+      };
+    }
+  });
+
+  Object.keys(extraction).forEach(field => {
+    if (provenance[field] || NON_EVIDENCE_FIELDS.has(field)) return;
+    const value = fieldValueAsText(extraction, field);
+    const span = value ? locateQuote(claimText, value) : null;
+    if (span) provenance[field] = { kind: 'text', ...span, quote: claimText.slice(span.start, span.end) };
+  });
+
+  return provenance;
+};
+
+/**
+ * Character span a provenance record points to in the claim text, if any.
+ */
+export const getTextSpan = (provenance: FieldProvenance): { start: number; end: number } | null => {
+  if (provenance.kind === 'text') return { start: provenance.start, end: provenance.end };
+  if (provenance.kind === 'tokens' && provenance.start !== undefined && provenance.end !== undefined) {
+    return { start: provenance.start, end: provenance.end };
+  }
+  return null;
+};
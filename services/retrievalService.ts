@@ -0,0 +1,190 @@
+import { KnowledgeChunk, KnowledgeContext, PolicyDocument, RetrievedChunk } from "../types";
+import { getDocumentText } from "./documentTextService";
+import { ChunkIndexEntry, loadChunkIndex, saveChunkIndex } from "./knowledgeBaseStore";
+import { hashContent } from "./hashService";
+
+/**
+ * Turns texts into embedding vectors. `model` is part of the index signature,
+ * so switching models rebuilds the index.
+ */
+export interface Embedder {
+  model: string;
+  embed: (texts: string[], task: 'document' | 'query') => Promise<number[][]>;
+}
+
+// Roughly 300 tokens per chunk: small enough to be specific, big enough to hold a clause with its heading
+const CHUNK_TARGET_CHARS = 1200;
+// Knowledge bases up to about 10k tokens of text are sent whole; retrieval would only lose context
+const FULL_CONTEXT_MAX_CHARS = 40000;
+const DEFAULT_TOP_K = 8;
+
+// Embedded chunks per document version (see indexKey), shared by all calls in this session.
+// Promises are kept so concurrent calls (e.g. self-consistency runs) embed each document only once.
+const memoryIndex = new Map<string, Promise<ChunkIndexEntry>>();
+const queryCache = new Map<string, Promise<number[]>>();
+let storedIndex: Promise<void> | null = null;
+const signatures = new WeakMap<PolicyDocument, Promise<string>>();
+
+const HEADING = /^\s*(?:\d+\.\s+\S|#{1,6}\s+\S)/;
+
+const cleanHeading = (line: string) => line.replace(/\*\*/g, '').replace(/^\s*(?:\d+\.|#{1,6})\s*/, '').trim();
+
+/**
+ * Splits text into sections at numbered or markdown headings, then packs each
+ * section's lines into chunks of about CHUNK_TARGET_CHARS.
+ */
+const chunkText = (text: string, startSection?: string): { section?: string; text: string }[] => {
+  const chunks: { section?: string; text: string }[] = [];
+  let section = startSection;
+  let buffer: string[] = [];
+
+  const flush = () => {
+    const body = buffer.join('\n').trim();
+    if (body) chunks.push({ ...(section ? { section } : {}), text: body });
+    buffer = [];
+  };
+
+  text.split('\n').forEach(line => {
+    if (HEADING.test(line)) {
+      flush();
+      section = cleanHeading(line);
+    } else if (buffer.join('\n').length + line.length > CHUNK_TARGET_CHARS) {
+      flush();
+    }
+    buffer.push(line);
+  });
+  flush();
+  return chunks;
+};
+
+/**
+ * Splits a document into retrievable chunks with page and section metadata.
+ * Documents without extracted text (e.g. scanned PDFs) have no chunks.
+ */
+export const chunkDocument = (doc: PolicyDocument): KnowledgeChunk[] => {
+  const base = { document_id: doc.id, document_name: doc.name };
+  if (doc.type === 'text') {
+    return chunkText(doc.content).map((c, i) => ({ ...base, id: `${doc.id}#${i}`, ...c }));
+  }
+  if (!getDocumentText(doc)) return [];
+
+  // Sections often run over a page break, so the last heading carries over
+  const chunks: KnowledgeChunk[] = [];
+  let section: string | undefined;
+  (doc.pages || []).forEach((pageText, p) => {
+    chunkText(pageText, section).forEach(c => {
+      chunks.push({ ...base, id: `${doc.id}#${chunks.length}`, page: p + 1, ...c });
+      section = c.section;
+    });
+  });
+  return chunks;
+};
+
+// Hashes the content, so an edit that keeps the length (e.g. a changed digit) still rebuilds
+const signatureOf = (doc: PolicyDocument, model: string): Promise<string> => {
+  if (!signatures.has(doc)) {
+    signatures.set(doc, hashContent(`${doc.type}\n${doc.pages?.length ?? 0}\n${doc.content}`));
+  }
+  return signatures.get(doc)!.then(hash => `${model}:${hash}`);
+};
+
+const indexKey = (documentId: string, signature: string) => `${documentId}|${signature}`;
+
+/**
+ * Whether the Knowledge Base is small enough to send whole with every call.
+ */
+export const shouldUseFullContext = (documents: PolicyDocument[]): boolean =>
+  documents.reduce((total, doc) => total + (getDocumentText(doc)?.length ?? 0), 0) <= FULL_CONTEXT_MAX_CHARS;
+
+/**
+ * Makes sure every document with text has up-to-date embedded chunks, embedding
+ * only what is missing or stale. Returns the chunks of the given documents.
+ */
+export const indexKnowledgeBase = async (documents: PolicyDocument[], embedder: Embedder): Promise<ChunkIndexEntry['chunks']> => {
+  if (!storedIndex) {
+    storedIndex = loadChunkIndex()
+      .then(entries => entries.forEach(entry => memoryIndex.set(indexKey(entry.document_id, entry.signature), Promise.resolve(entry))))
+      .catch(e => console.warn("Could not load the chunk index, rebuilding:", e));
+  }
+  await storedIndex;
+
+  const all: ChunkIndexEntry['chunks'] = [];
+  for (const doc of documents) {
+    const signature = await signatureOf(doc, embedder.model);
+    const key = indexKey(doc.id, signature);
+    if (!memoryIndex.has(key)) {
+      const building = buildIndexEntry(doc, signature, embedder);
+      memoryIndex.set(key, building);
+      // A failed build is retried by the next call
+      building.catch(() => memoryIndex.delete(key));
+    }
+    all.push(...(await memoryIndex.get(key)!).chunks);
+  }
+  return all;
+};
+
+const buildIndexEntry = async (doc: PolicyDocument, signature: string, embedder: Embedder): Promise<ChunkIndexEntry> => {
+  const chunks = chunkDocument(doc);
+  const embeddings = chunks.length > 0
+    ? await embedder.embed(chunks.map(c => `${c.document_name}${c.section ? ` - ${c.section}` : ''}\n${c.text}`), 'document')
+    : [];
+  const entry = { document_id: doc.id, signature, chunks: chunks.map((c, i) => ({ ...c, embedding: embeddings[i] || [] })) };
+  await saveChunkIndex(entry);
+  return entry;
+};
+
+/**
+ * Re-reads the stored index on next use, e.g. after entries were imported from a bundle.
+ */
+export const reloadChunkIndex = () => {
+  storedIndex = null;
+};
+
+const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+/**
+ * Picks the Knowledge Base sections most relevant to `query`. Small knowledge bases
+ * are sent whole instead, and so are documents that have no text to index.
+ * Falls back to the full Knowledge Base if retrieval fails or there is no embedder.
+ */
+export const retrieveKnowledge = async (
+  documents: PolicyDocument[],
+  query: string,
+  embedder: Embedder | undefined,
+  topK = DEFAULT_TOP_K
+): Promise<{ context: KnowledgeContext; wholeDocuments: PolicyDocument[] }> => {
+  const full = { context: { mode: 'full' as const, chunks: [], whole_documents: documents.map(d => d.name) }, wholeDocuments: documents };
+  if (!embedder || !query.trim() || shouldUseFullContext(documents)) return full;
+
+  try {
+    const chunks = await indexKnowledgeBase(documents, embedder);
+    const cacheKey = `${embedder.model}:${query}`;
+    if (!queryCache.has(cacheKey)) {
+      const embedding = embedder.embed([query], 'query').then(([vector]) => vector);
+      queryCache.set(cacheKey, embedding);
+      embedding.catch(() => queryCache.delete(cacheKey));
+    }
+    const queryEmbedding = await queryCache.get(cacheKey)!;
+
+    const retrieved: RetrievedChunk[] = chunks
+      .map(({ embedding, ...chunk }) => ({ ...chunk, score: Math.round(cosineSimilarity(queryEmbedding, embedding) * 1000) / 1000 }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+    const unindexed = documents.filter(d => !getDocumentText(d));
+    return {
+      context: { mode: 'retrieved', chunks: retrieved, whole_documents: unindexed.map(d => d.name) },
+      wholeDocuments: unindexed
+    };
+  } catch (e) {
+    console.warn("Retrieval failed, sending the full Knowledge Base:", e);
+    return full;
+  }
+};
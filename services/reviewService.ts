@@ -0,0 +1,203 @@
+import { ClaimExtraction, ClaimRecord, FraudAssessment, ModelSettingsUsed, ReviewEvent, ReviewStatus, ReviewThresholds, VerificationResult } from "../types";
+import { formatAmount, getClaimedAmount, normalizeExtraction } from "./normalizationService";
+import { getFieldLabel } from "./claimSchema";
+import { recordDecisionOutcome } from "./calibrationService";
+
+const QUEUE_KEY = 'claimguard.reviewQueue';
+const THRESHOLDS_KEY = 'claimguard.reviewThresholds';
+const AI_ACTOR = 'ClaimGuard AI';
+
+export const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+  pending_review: 'Pending Review',
+  approved: 'Approved',
+  denied: 'Denied',
+  more_info_requested: 'More Info Requested',
+  escalated: 'Escalated'
+};
+
+export const DEFAULT_REVIEW_THRESHOLDS: ReviewThresholds = {
+  min_confidence: 0.75,
+  high_value: { INR: 200000, USD: 5000, EUR: 4500, GBP: 4000 },
+  fraud_level: 'medium'
+};
+
+const now = () => new Date().toISOString();
+
+export const loadReviewThresholds = (): ReviewThresholds => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(THRESHOLDS_KEY) || 'null');
+    return saved ? { ...DEFAULT_REVIEW_THRESHOLDS, ...saved } : DEFAULT_REVIEW_THRESHOLDS;
+  } catch {
+    return DEFAULT_REVIEW_THRESHOLDS;
+  }
+};
+
+export const saveReviewThresholds = (thresholds: ReviewThresholds) => {
+  localStorage.setItem(THRESHOLDS_KEY, JSON.stringify(thresholds));
+};
+
+export const loadClaimRecords = (): ClaimRecord[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(QUEUE_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveClaimRecords = (records: ClaimRecord[]) => {
+  try {
+    localStorage.setItem(QUEUE_KEY, JSON.stringify(records));
+  } catch (e) {
+    console.warn("Could not save the review queue:", e);
+  }
+};
+
+/**
+ * Reasons a claim needs a human decision. An empty list means the AI verdict may stand.
+ * Denials always need sign-off: a model-only denial is not acceptable to auditors.
+ */
+export const getRoutingReasons = (
+  extraction: ClaimExtraction,
+  verification: VerificationResult,
+  fraud: FraudAssessment | null | undefined,
+  thresholds: ReviewThresholds
+): string[] => {
+  const reasons: string[] = [];
+  if (!verification.is_eligible) reasons.push('Denials require human sign-off.');
+  if (verification.confidence_score < thresholds.min_confidence) {
+    reasons.push(`Confidence ${(verification.confidence_score * 100).toFixed(0)}% is below the ${(thresholds.min_confidence * 100).toFixed(0)}% threshold.`);
+  }
+
+  const claimed = getClaimedAmount(extraction);
+  const limit = claimed?.currency ? thresholds.high_value[claimed.currency] : undefined;
+  if (claimed && limit !== undefined && claimed.value >= limit) {
+    reasons.push(`High-value claim: ${formatAmount(claimed)} (threshold ${formatAmount({ value: limit, currency: claimed.currency, approximate: false, original: '' })}).`);
+  }
+
+  if (fraud && (fraud.level === 'high' || (thresholds.fraud_level === 'medium' && fraud.level === 'medium'))) {
+    reasons.push(`Fraud risk is ${fraud.level} (${fraud.risk_score}/100).`);
+  }
+  if (verification.verdict_agreement === 'disagree') reasons.push('The rule engine disagrees with the AI verdict.');
+  if (verification.citations?.some(c => c.status === 'unverified')) reasons.push('Some cited clauses could not be found in the Knowledge Base.');
+  if (verification.evidence_warnings && verification.evidence_warnings.length > 0) reasons.push('Verified on incomplete evidence.');
+  if (verification.timeline?.findings.some(f => f.severity === 'violation')) reasons.push('The claim timeline has violations.');
+  return reasons;
+};
+
+/**
+ * Creates the workflow record for a freshly verified claim and routes it: to the
+ * review queue when any threshold is hit, otherwise approved on the AI verdict.
+ */
+export const createClaimRecord = (
+  claimText: string,
+  extraction: ClaimExtraction,
+  verification: VerificationResult,
+  fraud: FraudAssessment | null | undefined,
+  thresholds: ReviewThresholds,
+  modelSettings?: ModelSettingsUsed
+): ClaimRecord => {
+  const routing_reasons = getRoutingReasons(extraction, verification, fraud, thresholds);
+  const status: ReviewStatus = routing_reasons.length > 0 ? 'pending_review' : 'approved';
+  const at = now();
+  return {
+    id: `claim-${Date.now()}`,
+    created_at: at,
+    claim_text: claimText,
+    extraction,
+    verification,
+    ...(fraud ? { fraud } : {}),
+    ...(modelSettings ? { model_settings: modelSettings } : {}),
+    status,
+    routing_reasons,
+    history: [{
+      at,
+      actor: AI_ACTOR,
+      action: 'routed',
+      status,
+      note: routing_reasons.length > 0 ? routing_reasons.join(' ') : 'All thresholds passed; approved automatically.'
+    }]
+  };
+};
+
+const withEvent = (record: ClaimRecord, event: Omit<ReviewEvent, 'at'>): ClaimRecord => ({
+  ...record,
+  status: event.status,
+  history: [...record.history, { ...event, at: now() }]
+});
+
+// Any change after sign-off needs a fresh sign-off
+const withoutSignOff = ({ signed_off_by, signed_off_at, ...record }: ClaimRecord): ClaimRecord => record;
+
+/**
+ * Moves a claim to a new status. Approving or denying against the AI verdict is an
+ * override and needs a reason.
+ */
+export const setReviewStatus = (claim: ClaimRecord, status: ReviewStatus, reviewer: string, note?: string): ClaimRecord => {
+  if (!reviewer.trim()) throw new Error("Enter your name before acting on a claim.");
+  const record = withoutSignOff(claim);
+
+  const finalEligible = status === 'approved' ? true : status === 'denied' ? false : undefined;
+  const aiEligible = record.verification.is_eligible;
+  if (finalEligible !== undefined && finalEligible !== aiEligible) {
+    if (!note || !note.trim()) throw new Error("A reason is required to override the AI verdict.");
+    const updated: ClaimRecord = {
+      ...record,
+      override: { ai_eligible: aiEligible, final_eligible: finalEligible, reason: note.trim(), reviewer, at: now() }
+    };
+    return withEvent(updated, { actor: reviewer, action: 'override', status, note: note.trim() });
+  }
+  if (finalEligible !== undefined && record.override) {
+    // Back in line with the AI verdict, so an earlier override no longer applies
+    const { override, ...rest } = record;
+    return withEvent(rest, { actor: reviewer, action: 'status_change', status, ...(note?.trim() ? { note: note.trim() } : {}) });
+  }
+  return withEvent(record, { actor: reviewer, action: 'status_change', status, ...(note?.trim() ? { note: note.trim() } : {}) });
+};
+
+/**
+ * Corrects an extracted field. Normalized values are rebuilt so amounts and dates
+ * stay in step with the edit, and routing runs again: a claim that now hits a
+ * threshold (e.g. the amount became high-value) goes back to the review queue.
+ * The verdict and payout are not re-run, so the record is marked stale.
+ */
+export const editExtractionField = (claim: ClaimRecord, field: string, value: string, reviewer: string, thresholds: ReviewThresholds): ClaimRecord => {
+  if (!reviewer.trim()) throw new Error("Enter your name before acting on a claim.");
+  const record = withoutSignOff(claim);
+  const previous = (record.extraction as unknown as Record<string, unknown>)[field];
+  const { normalized, ...rest } = record.extraction;
+  const extraction = normalizeExtraction({ ...rest, [field]: value } as ClaimExtraction, record.claim_text);
+  const routing_reasons = getRoutingReasons(extraction, record.verification, record.fraud, thresholds);
+  const added = routing_reasons.filter(r => !record.routing_reasons.includes(r));
+
+  const edited = withEvent({ ...record, extraction, routing_reasons, stale_verdict: true }, {
+    actor: reviewer,
+    action: 'field_edit',
+    status: record.status,
+    note: `${getFieldLabel(field)}: "${previous ?? ''}" → "${value}"`
+  });
+  if (added.length === 0 || record.status === 'pending_review') return edited;
+  return withEvent(edited, { actor: AI_ACTOR, action: 'routed', status: 'pending_review', note: added.join(' ') });
+};
+
+/**
+ * Final sign-off by the reviewer; only decided claims can be signed off. The first
+ * sign-off of a self-consistency verdict is the adjudicated outcome that calibrates
+ * later confidence scores; signing off again after a change does not count twice.
+ */
+export const signOffClaim = (record: ClaimRecord, reviewer: string): ClaimRecord => {
+  if (!reviewer.trim()) throw new Error("Enter your name before acting on a claim.");
+  if (record.status !== 'approved' && record.status !== 'denied') {
+    throw new Error("Approve or deny the claim before signing off.");
+  }
+  const consistency = record.verification.consistency;
+  if (consistency && !record.history.some(e => e.action === 'sign_off')) {
+    recordDecisionOutcome({
+      confidence: consistency.agreement,
+      predicted_eligible: record.verification.is_eligible,
+      actual_eligible: record.status === 'approved'
+    });
+  }
+  const at = now();
+  return withEvent({ ...record, signed_off_by: reviewer, signed_off_at: at }, { actor: reviewer, action: 'sign_off', status: record.status });
+};
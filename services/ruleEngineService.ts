@@ -0,0 +1,315 @@
+import { ClaimExtraction, PolicyDocument, PolicyRuleSet, PolicyRuleTerm, RuleCheck, RuleEngineResult, VerificationResult } from "../types";
+import { CLAIM_DOMAIN_LABELS, classifyClaimDomain } from "./claimSchema";
+import { formatAmount, getClaimedAmount, parseAmount, parseDateRange } from "./normalizationService";
+
+// Everyday wording claimants use for common policy terms. A term picks up the
+// synonyms of every key its label contains.
+const TERM_SYNONYMS: Record<string, string[]> = {
+  'collision': ['accident', 'crash', 'collided'],
+  'liability': ['third party', 'third-party'],
+  'theft': ['stolen', 'burglary', 'robbery'],
+  'fire': ['burnt', 'burned', 'blaze'],
+  'vandalism': ['vandalised', 'vandalized'],
+  'windstorm': ['storm', 'cyclone', 'hurricane'],
+  'water damage': ['leak', 'leakage', 'pipe burst', 'burst pipe'],
+  'medical emergenc': ['medical emergency', 'hospitalized', 'hospitalised', 'hospital', 'illness', 'injury'],
+  'trip cancellation': ['cancelled trip', 'canceled trip', 'trip was cancelled'],
+  'lost luggage': ['baggage lost', 'lost baggage', 'luggage was lost'],
+  'flight delay': ['delayed flight', 'flight was delayed'],
+  'commercial vehicle accident': ['commercial vehicle', 'delivery van', 'commercial van', 'truck accident'],
+  'commercial use': ['commercial', 'delivery', 'business use'],
+  'racing': ['race'],
+  'intentional damage': ['intentional', 'deliberate'],
+  'driving under influence': ['drunk', 'under the influence', 'intoxicated', 'dui'],
+  'flood': ['flooding'],
+  'wear and tear': ['wear & tear', 'deterioration'],
+  'pest': ['termite', 'rodent'],
+  'pre-existing': ['preexisting'],
+  'high-risk sports': ['skydiving', 'bungee', 'paragliding', 'scuba'],
+  'sanctioned countr': ['sanctioned'],
+  'cyber': ['ransomware', 'hacking'],
+  'professional liability': ['negligence']
+};
+
+const NEGATIONS = /\b(no|not|without|never|non)\s+(\w+\s+){0,2}$/i;
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Builds a rule term from a policy phrase such as "Comprehensive (theft, fire, vandalism)".
+ * Examples in parentheses become keywords; notes like "(requires separate policy)" are dropped.
+ */
+export const termFromLabel = (label: string): PolicyRuleTerm => {
+  const clean = label.trim().replace(/\.$/, '');
+  const keywords = new Set<string>();
+
+  const paren = clean.match(/\(([^)]*)\)/);
+  const head = clean.replace(/\([^)]*\)/g, '').replace(/[<>]=?\s*\d+.*$/, '').trim().toLowerCase();
+  if (head) keywords.add(head);
+  if (paren && !/requires|rider|separate/i.test(paren[1])) {
+    paren[1].split(',').map(s => s.trim().toLowerCase()).filter(s => s && s !== 'etc.' && s !== 'etc').forEach(s => keywords.add(s));
+  }
+
+  const lower = clean.toLowerCase();
+  Object.entries(TERM_SYNONYMS).forEach(([key, synonyms]) => {
+    if (lower.includes(key)) {
+      keywords.add(key.replace(/enc$/, 'ency').replace(/countr$/, 'country'));
+      synonyms.forEach(s => keywords.add(s));
+    }
+  });
+
+  return { label: clean, keywords: Array.from(keywords) };
+};
+
+/**
+ * Keywords of the term found in the corpus, ignoring negated mentions ("not under the influence").
+ */
+const matchTerm = (term: PolicyRuleTerm, corpus: string): string[] =>
+  term.keywords.filter(keyword => {
+    if (!keyword.trim()) return false;
+    const pattern = new RegExp(`\\b${escapeRegExp(keyword.toLowerCase())}`, 'g');
+    let m: RegExpExecArray | null;
+    while ((m = pattern.exec(corpus)) !== null) {
+      if (!NEGATIONS.test(corpus.slice(Math.max(0, m.index - 30), m.index))) return true;
+    }
+    return false;
+  });
+
+// Splits "a, b (c, d), e" on top-level commas only
+export const splitList = (value: string): string[] => {
+  const items: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const ch of value) {
+    if (ch === '(') depth++;
+    if (ch === ')') depth = Math.max(0, depth - 1);
+    if (ch === ',' && depth === 0) {
+      items.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  items.push(current);
+  return items.map(s => s.trim().replace(/\.$/, '')).filter(Boolean);
+};
+
+/**
+ * Compiles rule sets from a text policy document without any model call.
+ * Understands the "N. **Name (Policy #ID)**" + "- **Key:** value" layout of the sample
+ * knowledge base; a document without numbered headings is treated as one policy.
+ */
+export const compileRulesFromText = (doc: PolicyDocument): PolicyRuleSet[] => {
+  if (doc.type !== 'text') return [];
+
+  const hasHeadings = /^\s*\d+\.\s+\S/m.test(doc.content);
+  // Text before the first numbered heading is preamble
+  const blocks = hasHeadings ? doc.content.split(/^\s*\d+\.\s+(?=\S)/m).slice(1) : [doc.content];
+
+  return blocks.flatMap((block, index) => {
+    const header = block.split('\n')[0].replace(/\*\*/g, '').trim();
+    const numberMatch = header.match(/\(\s*(?:policy\s*)?#?\s*([A-Z]{1,5}-?\d+)\s*\)/i);
+    const policy_name = (hasHeadings ? header.replace(/\([^)]*\)/, '').trim() : doc.name) || doc.name;
+
+    const fields: Record<string, string> = {};
+    block.split('\n').forEach(line => {
+      const m = line.replace(/\*\*/g, '').match(/^\s*[-*•]\s+([^:]+?)\s*:\s*(.+)$/);
+      if (m) fields[m[1].trim().toLowerCase()] = m[2].trim();
+    });
+
+    const covered = fields['covered incidents'] || fields['covered perils'] || fields['covers'];
+    const excluded = fields['exclusions'] || fields['excluded'];
+    if (!covered && !excluded) return [];
+
+    const coverage = fields['coverage'] || '';
+    const deductible = parseAmount(fields['deductible']);
+    const waiting = block.match(/waiting period[^\d]{0,20}(\d+)\s*days?|(\d+)[-\s]days?\s+waiting/i);
+    const maxTrip = coverage.match(/up to\s+(\d+)\s*days/i);
+    const notification = block.match(/(?:notif\w*|report\w*|intimat\w*|filed|submitted)[^.\n]{0,60}?within\s+(\d+)\s*days/i);
+    const effective = parseDateRange(fields['effective'] || fields['effective dates'] || fields['policy period']);
+
+    const ruleSet: PolicyRuleSet = {
+      id: `${doc.id}-rules-${index}`,
+      document_id: doc.id,
+      policy_name,
+      ...(numberMatch ? { policy_number: numberMatch[1].toUpperCase() } : {}),
+      domain: classifyClaimDomain(`${policy_name} ${coverage} ${covered || ''}`) || 'general',
+      covered_incidents: covered ? splitList(covered).map(termFromLabel) : [],
+      exclusions: excluded ? splitList(excluded).map(termFromLabel) : [],
+      ...(deductible ? { deductible: { value: deductible.value, currency: deductible.currency } } : {}),
+      ...(waiting ? { waiting_period_days: parseInt(waiting[1] || waiting[2], 10) } : {}),
+      ...(maxTrip ? { max_trip_days: parseInt(maxTrip[1], 10) } : {}),
+      ...(effective?.start ? { effective_from: effective.start.date } : {}),
+      ...(effective?.end ? { effective_to: effective.end.date } : {}),
+      ...(notification ? { notification_window_days: parseInt(notification[1], 10) } : {})
+    };
+    return [ruleSet];
+  });
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const daysBetween = (from: string, to: string) => Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+
+// Text the covered-incident and exclusion keywords are matched against
+const buildCorpus = (extraction: ClaimExtraction, claimText?: string): string => {
+  const { normalized, provenance, conflicts, ...fields } = extraction;
+  const values = Object.values(fields).flatMap(v => Array.isArray(v) ? v : [v]).filter(v => typeof v === 'string');
+  return [...values, claimText || ''].join(' \n ').toLowerCase();
+};
+
+const incidentDate = (extraction: ClaimExtraction) => {
+  const n = extraction.normalized;
+  return n?.dates.incident_date?.date || n?.dates.admission_date?.date || n?.ranges.hospital_stay?.start?.date || n?.ranges.trip?.start?.date;
+};
+
+/**
+ * Evaluates one policy's rules against an extraction.
+ */
+export const evaluateRuleSet = (extraction: ClaimExtraction, ruleSet: PolicyRuleSet, claimText?: string): RuleEngineResult & { coveredHits: number; exclusionHits: number } => {
+  const corpus = buildCorpus(extraction, claimText);
+  const checks: RuleCheck[] = [];
+
+  // Covered incidents
+  const coveredMatches = ruleSet.covered_incidents
+    .map(term => ({ term, hits: matchTerm(term, corpus) }))
+    .filter(m => m.hits.length > 0);
+  if (ruleSet.covered_incidents.length === 0) {
+    checks.push({ rule: 'covered_incident', outcome: 'unknown', detail: 'Policy lists no covered incidents.' });
+  } else if (coveredMatches.length > 0) {
+    checks.push({ rule: 'covered_incident', outcome: 'pass', detail: `Matches covered incident: ${coveredMatches.map(m => `${m.term.label} ("${m.hits[0]}")`).join('; ')}` });
+  } else {
+    checks.push({ rule: 'covered_incident', outcome: 'fail', detail: `Incident does not match any covered incident (${ruleSet.covered_incidents.map(t => t.label).join(', ')}).` });
+  }
+
+  // Exclusions
+  const exclusionMatches = ruleSet.exclusions
+    .map(term => ({ term, hits: matchTerm(term, corpus) }))
+    .filter(m => m.hits.length > 0);
+  if (exclusionMatches.length > 0) {
+    checks.push({ rule: 'exclusion', outcome: 'fail', detail: `Triggers exclusion: ${exclusionMatches.map(m => `${m.term.label} ("${m.hits[0]}")`).join('; ')}` });
+  } else {
+    checks.push({ rule: 'exclusion', outcome: 'pass', detail: 'No exclusion keywords found.' });
+  }
+
+  // Deductible
+  if (ruleSet.deductible) {
+    const amount = getClaimedAmount(extraction);
+    const deductibleText = formatAmount({ ...ruleSet.deductible, approximate: false, original: '' });
+    if (!amount) {
+      checks.push({ rule: 'deductible', outcome: 'unknown', detail: `Claimed amount unknown; deductible is ${deductibleText}.` });
+    } else if (amount.currency && ruleSet.deductible.currency && amount.currency !== ruleSet.deductible.currency) {
+      checks.push({ rule: 'deductible', outcome: 'unknown', detail: `Claimed ${formatAmount(amount)} is in a different currency from the ${deductibleText} deductible.` });
+    } else if (amount.value <= ruleSet.deductible.value) {
+      checks.push({ rule: 'deductible', outcome: 'fail', detail: `Claimed ${formatAmount(amount)} does not exceed the ${deductibleText} deductible.` });
+    } else {
+      checks.push({ rule: 'deductible', outcome: 'pass', detail: `Claimed ${formatAmount(amount)} exceeds the ${deductibleText} deductible.` });
+    }
+  }
+
+  // Waiting period
+  if (ruleSet.waiting_period_days) {
+    const start = extraction.normalized?.ranges.policy_period?.start;
+    const incident = incidentDate(extraction);
+    if (!start || !incident) {
+      checks.push({ rule: 'waiting_period', outcome: 'unknown', detail: `Policy start or incident date unknown; waiting period is ${ruleSet.waiting_period_days} days.` });
+    } else {
+      const elapsed = daysBetween(start.date, incident);
+      checks.push(elapsed < ruleSet.waiting_period_days
+        ? { rule: 'waiting_period', outcome: 'fail', detail: `Incident ${elapsed} days after policy start, within the ${ruleSet.waiting_period_days}-day waiting period.` }
+        : { rule: 'waiting_period', outcome: 'pass', detail: `Incident ${elapsed} days after policy start (waiting period ${ruleSet.waiting_period_days} days).` });
+    }
+  }
+
+  // Maximum trip length
+  if (ruleSet.max_trip_days) {
+    const trip = extraction.normalized?.ranges.trip;
+    if (!trip?.start || !trip.end) {
+      checks.push({ rule: 'max_trip_length', outcome: 'unknown', detail: `Trip dates unknown; maximum trip length is ${ruleSet.max_trip_days} days.` });
+    } else {
+      const length = daysBetween(trip.start.date, trip.end.date) + 1;
+      checks.push(length > ruleSet.max_trip_days
+        ? { rule: 'max_trip_length', outcome: 'fail', detail: `Trip of ${length} days exceeds the ${ruleSet.max_trip_days}-day limit.` }
+        : { rule: 'max_trip_length', outcome: 'pass', detail: `Trip of ${length} days is within the ${ruleSet.max_trip_days}-day limit.` });
+    }
+  }
+
+  const verdict = checks.some(c => c.outcome === 'fail')
+    ? 'ineligible'
+    : coveredMatches.length > 0 ? 'eligible' : 'undetermined';
+
+  return {
+    verdict,
+    rule_set_id: ruleSet.id,
+    policy_name: ruleSet.policy_number ? `${ruleSet.policy_name} (#${ruleSet.policy_number})` : ruleSet.policy_name,
+    checks,
+    coveredHits: coveredMatches.length,
+    exclusionHits: exclusionMatches.length
+  };
+};
+
+/**
+ * Whether the policy the claimant wrote down refers to this policy, by name or number.
+ */
+export const policyNameMatches = (policyName: string, claimedPolicy: string, policyNumber?: string) => {
+  const claimed = claimedPolicy.trim().toLowerCase();
+  const name = policyName.trim().toLowerCase();
+  if (!claimed || !name) return false;
+  return claimed.includes(name) || name.includes(claimed)
+    || (!!policyNumber && claimed.includes(policyNumber.toLowerCase()));
+};
+
+const namesPolicy = (ruleSet: PolicyRuleSet, claimedPolicy: string) =>
+  policyNameMatches(ruleSet.policy_name, claimedPolicy, ruleSet.policy_number);
+
+/**
+ * Runs the rule engine over every compiled policy and returns the verdict of the policy
+ * that applies: the one the claimant named, otherwise the best-matching policy for the
+ * claim's domain (eligible first, then most covered-incident hits, then fewest exclusions).
+ */
+export const evaluatePolicyRules = (extraction: ClaimExtraction, ruleSets: PolicyRuleSet[], claimText?: string): RuleEngineResult => {
+  const claimedPolicy = extraction.policy_name?.trim();
+  const named = claimedPolicy ? ruleSets.find(r => namesPolicy(r, claimedPolicy)) : undefined;
+  if (named) {
+    const { coveredHits, exclusionHits, ...result } = evaluateRuleSet(extraction, named, claimText);
+    return { ...result, checks: [{ rule: 'policy_match', outcome: 'pass', detail: `Claimant named ${result.policy_name}.` }, ...result.checks] };
+  }
+
+  const candidates = extraction.claim_domain === 'general'
+    ? ruleSets
+    : ruleSets.filter(r => r.domain === extraction.claim_domain);
+
+  const policyNote: RuleCheck[] = claimedPolicy
+    ? [{ rule: 'policy_match', outcome: 'unknown', detail: `Claimant names "${claimedPolicy}", which has no compiled rules in the Knowledge Base.` }]
+    : [];
+
+  if (candidates.length === 0) {
+    return {
+      verdict: 'undetermined',
+      checks: [...policyNote, { rule: 'policy_match', outcome: 'unknown', detail: `No compiled policy rules cover ${CLAIM_DOMAIN_LABELS[extraction.claim_domain].toLowerCase()}s.` }]
+    };
+  }
+
+  const verdictRank = { eligible: 0, undetermined: 1, ineligible: 2 };
+  const [best] = candidates
+    .map(r => evaluateRuleSet(extraction, r, claimText))
+    .sort((a, b) => verdictRank[a.verdict] - verdictRank[b.verdict] || b.coveredHits - a.coveredHits || a.exclusionHits - b.exclusionHits);
+
+  const { coveredHits, exclusionHits, ...result } = best;
+  return { ...result, checks: [...policyNote, { rule: 'policy_match', outcome: 'pass', detail: `Best matching ${CLAIM_DOMAIN_LABELS[extraction.claim_domain].toLowerCase()} policy: ${result.policy_name}.` }, ...result.checks] };
+};
+
+/**
+ * Compares the deterministic verdict with the model's.
+ */
+export const compareVerdicts = (rule: RuleEngineResult, modelEligible: boolean): VerificationResult['verdict_agreement'] => {
+  if (rule.verdict === 'undetermined') return 'inconclusive';
+  return (rule.verdict === 'eligible') === modelEligible ? 'agree' : 'disagree';
+};
+
+/**
+ * Attaches the rule engine verdict to a model verification result.
+ */
+export const withRuleVerdict = (result: VerificationResult, extraction: ClaimExtraction, ruleSets: PolicyRuleSet[], claimText?: string): VerificationResult => {
+  const rule_result = evaluatePolicyRules(extraction, ruleSets, claimText);
+  return { ...result, rule_result, verdict_agreement: compareVerdicts(rule_result, result.is_eligible) };
+};
@@ -0,0 +1,146 @@
+import { ClaimExtraction, ClaimTimeline, NormalizedDate, PolicyRuleSet, TimelineEvent, TimelineEventKind, TimelineFinding, VerificationResult } from "../types";
+
+const EVENT_LABELS: Record<TimelineEventKind, string> = {
+  policy_start: 'Policy start',
+  policy_end: 'Policy end',
+  incident: 'Incident',
+  admission: 'Admission',
+  discharge: 'Discharge',
+  trip_start: 'Trip start',
+  trip_end: 'Trip end',
+  filing: 'Claim filed',
+  settlement: 'Settlement'
+};
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+// Earliest and latest day a date could mean, so "June 2024" is not treated as 1 June
+const bounds = (date: NormalizedDate): { earliest: string; latest: string } => {
+  const [year, month] = date.date.split('-').map(Number);
+  if (date.precision === 'year') return { earliest: `${year}-01-01`, latest: `${year}-12-31` };
+  if (date.precision === 'month') {
+    const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    return { earliest: `${year}-${pad(month)}-01`, latest: `${year}-${pad(month)}-${pad(lastDay)}` };
+  }
+  return { earliest: date.date, latest: date.date };
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const daysBetween = (from: string, to: string) => Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+
+/**
+ * Collects the dated events of a claim from its normalized values, in chronological order.
+ */
+export const buildClaimTimeline = (extraction: ClaimExtraction): TimelineEvent[] => {
+  const normalized = extraction.normalized;
+  if (!normalized) return [];
+  const { dates, ranges } = normalized;
+
+  const candidates: [TimelineEventKind, NormalizedDate | undefined, string][] = [
+    ['policy_start', ranges.policy_period?.start, 'policy_period'],
+    ['policy_end', ranges.policy_period?.end, 'policy_period'],
+    ['incident', dates.incident_date, 'incident_date'],
+    ['admission', dates.admission_date || ranges.hospital_stay?.start, dates.admission_date ? 'admission_date' : 'hospital_stay'],
+    ['discharge', dates.discharge_date || ranges.hospital_stay?.end, dates.discharge_date ? 'discharge_date' : 'hospital_stay'],
+    ['trip_start', dates.trip_start_date || ranges.trip?.start, dates.trip_start_date ? 'trip_start_date' : 'trip'],
+    ['trip_end', dates.trip_end_date || ranges.trip?.end, dates.trip_end_date ? 'trip_end_date' : 'trip'],
+    ['filing', dates.claim_submission_date, 'claim_submission_date'],
+    ['settlement', dates.settlement_date, 'settlement_date']
+  ];
+
+  return candidates
+    .filter((c): c is [TimelineEventKind, NormalizedDate, string] => !!c[1])
+    .map(([kind, date, source]) => ({ kind, label: EVENT_LABELS[kind], date, source }))
+    .sort((a, b) => bounds(a.date).earliest.localeCompare(bounds(b.date).earliest));
+};
+
+// Pairs that must happen in this order when both are known
+const ORDERED_PAIRS: [TimelineEventKind, TimelineEventKind][] = [
+  ['policy_start', 'policy_end'],
+  ['admission', 'discharge'],
+  ['trip_start', 'trip_end'],
+  ['incident', 'filing'],
+  ['incident', 'settlement'],
+  ['filing', 'settlement']
+];
+
+/**
+ * Checks the timeline for impossible orderings, a loss outside the policy period and
+ * late notification. `ruleSet` supplies the effective dates and deadline from the
+ * knowledge base when a policy was matched.
+ */
+export const validateTimeline = (events: TimelineEvent[], ruleSet?: PolicyRuleSet, today = new Date().toISOString().slice(0, 10)): TimelineFinding[] => {
+  const findings: TimelineFinding[] = [];
+  const byKind = (kind: TimelineEventKind) => events.find(e => e.kind === kind);
+
+  ORDERED_PAIRS.forEach(([first, second]) => {
+    const a = byKind(first);
+    const b = byKind(second);
+    if (a && b && bounds(b.date).latest < bounds(a.date).earliest) {
+      findings.push({ severity: 'violation', message: `${a.label} (${a.date.original}) is after ${b.label.toLowerCase()} (${b.date.original}).`, events: [first, second] });
+    }
+  });
+
+  // The date cover is judged on: the incident, or the start of the hospital stay or trip
+  const loss = byKind('incident') || byKind('admission') || byKind('trip_start');
+
+  if (loss) {
+    const lossBounds = bounds(loss.date);
+    const start = byKind('policy_start');
+    const end = byKind('policy_end');
+    if (!start && !end) {
+      findings.push({ severity: 'warning', message: `The policy period is not stated, so cover on the ${loss.label.toLowerCase()} date cannot be confirmed.`, events: [loss.kind] });
+    }
+    if (start && lossBounds.latest < bounds(start.date).earliest) {
+      findings.push({ severity: 'violation', message: `${loss.label} (${loss.date.original}) is before the policy period starts (${start.date.original}).`, events: [loss.kind, 'policy_start'] });
+    }
+    if (end && lossBounds.earliest > bounds(end.date).latest) {
+      findings.push({ severity: 'violation', message: `${loss.label} (${loss.date.original}) is after the policy period ended (${end.date.original}).`, events: [loss.kind, 'policy_end'] });
+    }
+
+    if (ruleSet?.effective_from && lossBounds.latest < ruleSet.effective_from) {
+      findings.push({ severity: 'violation', message: `${loss.label} (${loss.date.original}) is before the policy wording took effect on ${ruleSet.effective_from}.`, events: [loss.kind], policy_reference: ruleSet.policy_name });
+    }
+    if (ruleSet?.effective_to && lossBounds.earliest > ruleSet.effective_to) {
+      findings.push({ severity: 'violation', message: `${loss.label} (${loss.date.original}) is after the policy wording expired on ${ruleSet.effective_to}.`, events: [loss.kind], policy_reference: ruleSet.policy_name });
+    }
+
+    if (loss.date.precision !== 'day') {
+      findings.push({ severity: 'warning', message: `Only the ${loss.date.precision} of the ${loss.label.toLowerCase()} is known.`, events: [loss.kind] });
+    }
+
+    const window = ruleSet?.notification_window_days;
+    if (window) {
+      const filing = byKind('filing');
+      if (!filing) {
+        findings.push({ severity: 'warning', message: `Filing date not stated; the policy requires notification within ${window} days.`, events: [loss.kind], policy_reference: ruleSet!.policy_name });
+      } else {
+        const filingBounds = bounds(filing.date);
+        const minElapsed = daysBetween(lossBounds.latest, filingBounds.earliest);
+        const maxElapsed = daysBetween(lossBounds.earliest, filingBounds.latest);
+        if (minElapsed > window) {
+          findings.push({ severity: 'violation', message: `Claim filed ${minElapsed} days after the ${loss.label.toLowerCase()}, outside the ${window}-day notification window.`, events: [loss.kind, 'filing'], policy_reference: ruleSet!.policy_name });
+        } else if (maxElapsed > window) {
+          findings.push({ severity: 'warning', message: `Claim may have been filed outside the ${window}-day notification window; the dates are not precise enough to tell.`, events: [loss.kind, 'filing'], policy_reference: ruleSet!.policy_name });
+        }
+      }
+    }
+  }
+
+  events
+    .filter(e => e.kind !== 'policy_end' && bounds(e.date).earliest > today)
+    .forEach(e => findings.push({ severity: 'warning', message: `${e.label} date (${e.date.original}) is in the future.`, events: [e.kind] }));
+
+  return findings;
+};
+
+/**
+ * Attaches the claim timeline and its findings to a verification result, using the
+ * policy the rule engine matched for effective dates and deadlines.
+ */
+export const withTimeline = (result: VerificationResult, extraction: ClaimExtraction, ruleSets: PolicyRuleSet[]): VerificationResult => {
+  const ruleSet = ruleSets.find(r => r.id === result.rule_result?.rule_set_id);
+  const events = buildClaimTimeline(extraction);
+  const timeline: ClaimTimeline = { events, findings: validateTimeline(events, ruleSet) };
+  return { ...result, timeline };
+};
@@ -0,0 +1,177 @@
+import { Part } from "@google/genai";
+import { PolicyDocument } from "../types";
+import { getDocumentText } from "./documentTextService";
+import { shouldUseFullContext } from "./retrievalService";
+import { formatPolicyIndex } from "./policySummaryService";
+
+export interface BudgetLimits {
+  context_tokens: number; // per request
+  tokens_per_minute?: number; // input quota, if the provider has one
+}
+
+// gemini-2.5-flash input window, and its free-tier input tokens per minute
+export const GEMINI_LIMITS: BudgetLimits = { context_tokens: 1_048_576, tokens_per_minute: 250_000 };
+// Above this share of a limit the UI warns before running a claim
+const NEAR_LIMIT_SHARE = 0.8;
+
+// Gemini counts each PDF page and each image tile as 258 tokens. Photos are usually
+// cut into about four tiles; PDFs without extracted pages are sized from their bytes.
+const TOKENS_PER_PAGE = 258;
+const TOKENS_PER_IMAGE = 4 * TOKENS_PER_PAGE;
+const BYTES_PER_PDF_PAGE = 60_000;
+const CHARS_PER_TOKEN = 4;
+// Instructions, schemas and the extraction JSON around the Knowledge Base
+const PROMPT_OVERHEAD_TOKENS = 2_000;
+// What a retrieved request carries: the top sections of about 1200 characters each
+const RETRIEVED_TOKENS = 8 * 1200 / CHARS_PER_TOKEN;
+const CONSISTENCY_RUNS = 5;
+
+export type BudgetStatus = 'ok' | 'near_limit' | 'over_quota' | 'over_context';
+
+export interface DocumentTokens {
+  id: string;
+  name: string;
+  tokens: number;
+  sent_whole: boolean; // attached in full to every request rather than retrieved
+}
+
+export interface ClaimTokenBudget {
+  knowledge_tokens: number; // per request
+  evidence_tokens: number;
+  largest_request_tokens: number; // the extraction call, which carries the evidence too
+  claim_tokens: number; // every call for one claim, compared with the per-minute quota
+  status: BudgetStatus;
+  limits: BudgetLimits;
+  documents: DocumentTokens[]; // biggest first
+}
+
+/**
+ * How the Knowledge Base is cut down when a claim would go over budget:
+ * leave out some documents, send their summary cards instead, or send only
+ * extracted text so PDFs go through retrieval instead of being attached whole.
+ */
+export type BudgetChoice = { kind: 'trim'; excluded: string[] } | { kind: 'summarize' } | { kind: 'retrieval' };
+
+export const estimateTextTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+const base64Bytes = (data: string) => Math.floor(data.length * 3 / 4);
+
+/**
+ * Tokens for an attached file, from its type and size.
+ */
+export const estimateFileTokens = (mimeType: string, data: string, pageCount?: number): number => {
+  if (mimeType.startsWith('image/')) return TOKENS_PER_IMAGE;
+  if (mimeType === 'application/pdf') return (pageCount || Math.max(1, Math.ceil(base64Bytes(data) / BYTES_PER_PDF_PAGE))) * TOKENS_PER_PAGE;
+  return estimateTextTokens(data);
+};
+
+/**
+ * Tokens a document costs when it is sent whole.
+ */
+export const estimateDocumentTokens = (doc: PolicyDocument): number =>
+  doc.type === 'file' ? estimateFileTokens(doc.mimeType, doc.content, doc.pages?.length) : estimateTextTokens(doc.content);
+
+/**
+ * Local estimate for a request's parts; no API call.
+ */
+export const estimatePartsTokens = (parts: Part[]): number =>
+  parts.reduce((total, part) => total
+    + (part.text ? estimateTextTokens(part.text) : 0)
+    + (part.inlineData?.data ? estimateFileTokens(part.inlineData.mimeType || '', part.inlineData.data) : 0), 0);
+
+/**
+ * Knowledge Base tokens per request, following the same full-or-retrieved split as
+ * retrievalService: small knowledge bases go whole, large ones send their top sections
+ * plus every document that has no text to index.
+ */
+export const estimateKnowledgeTokens = (documents: PolicyDocument[]): { tokens: number; documents: DocumentTokens[] } => {
+  const full = shouldUseFullContext(documents);
+  const perDocument = documents
+    .map(doc => ({ id: doc.id, name: doc.name, tokens: estimateDocumentTokens(doc), sent_whole: full || !getDocumentText(doc) }))
+    .sort((a, b) => b.tokens - a.tokens);
+  const whole = perDocument.filter(d => d.sent_whole).reduce((total, d) => total + d.tokens, 0);
+  const tokens = estimateTextTokens(formatPolicyIndex(documents)) + whole + (full ? 0 : RETRIEVED_TOKENS);
+  return { tokens, documents: perDocument };
+};
+
+/**
+ * Pre-flight budget for one claim in cloud mode: extraction (with the evidence),
+ * the requirements lookup and verification, which runs several times in
+ * self-consistency mode.
+ */
+export const estimateClaimBudget = (
+  documents: PolicyDocument[],
+  claimText: string,
+  evidence: { mimeType: string; data: string }[],
+  selfConsistency = false,
+  limits: BudgetLimits = GEMINI_LIMITS
+): ClaimTokenBudget => {
+  const knowledge = estimateKnowledgeTokens(documents);
+  const evidenceTokens = evidence.reduce((total, f) => total + estimateFileTokens(f.mimeType, f.data), 0);
+  const request = knowledge.tokens + PROMPT_OVERHEAD_TOKENS;
+  const largest = request + evidenceTokens + estimateTextTokens(claimText);
+  const claim = largest + request * (1 + (selfConsistency ? CONSISTENCY_RUNS : 1));
+
+  const quota = limits.tokens_per_minute ?? Infinity;
+  const status: BudgetStatus = largest > limits.context_tokens ? 'over_context'
+    : claim > quota ? 'over_quota'
+    : largest > limits.context_tokens * NEAR_LIMIT_SHARE || claim > quota * NEAR_LIMIT_SHARE ? 'near_limit'
+    : 'ok';
+
+  return {
+    knowledge_tokens: knowledge.tokens,
+    evidence_tokens: evidenceTokens,
+    largest_request_tokens: largest,
+    claim_tokens: claim,
+    status,
+    limits,
+    documents: knowledge.documents
+  };
+};
+
+// Summary cards as a text document, so the policy can still be matched and named
+const toSummaryDocument = (doc: PolicyDocument): PolicyDocument => {
+  const summary = formatPolicyIndex([doc]);
+  return { ...doc, type: 'text', mimeType: 'text/plain', pages: undefined, content: `Summary of ${doc.name} (full wording left out to save tokens):\n${summary}` };
+};
+
+const toTextDocument = (doc: PolicyDocument): PolicyDocument => {
+  const text = getDocumentText(doc);
+  return text && doc.type === 'file' ? { ...doc, type: 'text', mimeType: 'text/plain', content: text } : doc;
+};
+
+/**
+ * Applies a budget choice to the documents a claim is run against.
+ * Documents without a summary or without text are left as they are.
+ */
+export const applyBudgetChoice = (documents: PolicyDocument[], choice: BudgetChoice | null): PolicyDocument[] => {
+  if (!choice) return documents;
+  switch (choice.kind) {
+    case 'trim':
+      return documents.filter(d => !choice.excluded.includes(d.id));
+    case 'summarize':
+      return documents.map(d => (d.summaries && d.summaries.length > 0 ? toSummaryDocument(d) : d));
+    case 'retrieval':
+      return documents.map(toTextDocument);
+  }
+};
+
+/**
+ * The largest documents sent whole, dropped one by one until the claim fits the
+ * quota (or the context window when it is over that).
+ */
+export const suggestTrim = (budget: ClaimTokenBudget): string[] => {
+  const limit = (budget.status === 'over_context' ? budget.limits.context_tokens : budget.limits.tokens_per_minute ?? Infinity) * NEAR_LIMIT_SHARE;
+  const calls = budget.largest_request_tokens > 0 ? budget.claim_tokens / budget.largest_request_tokens : 1;
+  let total = budget.status === 'over_context' ? budget.largest_request_tokens : budget.claim_tokens;
+  const excluded: string[] = [];
+  for (const doc of budget.documents.filter(d => d.sent_whole)) {
+    if (total <= limit) break;
+    excluded.push(doc.id);
+    total -= budget.status === 'over_context' ? doc.tokens : doc.tokens * calls;
+  }
+  return excluded;
+};
+
+export const formatTokens = (tokens: number): string =>
+  tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(1)}M` : tokens >= 1000 ? `${Math.round(tokens / 1000)}k` : `${tokens}`;
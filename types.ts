@@ -1,4 +1,86 @@
-export interface ClaimExtraction {
+export type CurrencyCode = 'INR' | 'USD' | 'EUR' | 'GBP';
+
+export interface NormalizedAmount {
+  value: number;
+  currency: CurrencyCode | null; // null when the text gives no currency hint
+  approximate: boolean;
+  original: string;
+}
+
+export interface NormalizedDate {
+  date: string; // ISO yyyy-mm-dd
+  precision: 'day' | 'month' | 'year';
+  ambiguous?: boolean; // e.g. 03/04/2024 could be DD/MM or MM/DD
+  original: string;
+}
+
+export interface NormalizedDateRange {
+  start?: NormalizedDate;
+  end?: NormalizedDate;
+  original: string;
+}
+
+/**
+ * Machine-comparable values derived from the free-text extraction fields.
+ * Keys are the ClaimExtraction field names the values came from.
+ */
+export interface NormalizedClaimValues {
+  amounts: Record<string, NormalizedAmount>;
+  dates: Record<string, NormalizedDate>;
+  ranges: {
+    policy_period?: NormalizedDateRange;
+    hospital_stay?: NormalizedDateRange;
+    trip?: NormalizedDateRange;
+  };
+}
+
+/**
+ * Where an extracted value came from in the claim evidence.
+ * - text: character offsets into the typed claim description
+ * - document: page and verbatim quote inside an uploaded attachment
+ * - tokens: token span walked by the local NER model (offsets are filled when known)
+ */
+export type FieldProvenance =
+  | { kind: 'text'; start: number; end: number; quote: string }
+  | { kind: 'document'; fileName?: string; page?: number; quote: string }
+  | { kind: 'tokens'; startToken: number; endToken: number; start?: number; end?: number; quote: string };
+
+export type EvidenceType =
+  | 'invoice'
+  | 'medical_report'
+  | 'discharge_summary'
+  | 'photo'
+  | 'police_report'
+  | 'surveyor_report'
+  | 'other';
+
+export interface EvidenceAttachment {
+  name: string;
+  mimeType: string;
+  data: string; // Base64
+  evidenceType: EvidenceType;
+}
+
+/**
+ * A field where the evidence documents disagreed, and how extraction settled it.
+ * `source` is 'claim_text' or the attachment file name.
+ */
+export interface FieldConflict {
+  field: string;
+  chosen_value: string;
+  chosen_source: string;
+  candidates: { value: string; source: string }[];
+  resolution: string;
+}
+
+export type ClaimDomain = 'health' | 'motor' | 'travel' | 'property' | 'general';
+
+/**
+ * Fields shared by every claim domain. Optional fields mirror the generic
+ * NER labels (Policy Name, Claim Amount, Settlement Date, ...).
+ */
+interface ClaimExtractionBase {
+  claim_domain: ClaimDomain;
   incident_type: string;
   incident_date: string;
   location: string;
@@ -6,6 +88,256 @@ export interface ClaimExtraction {
   damage_description: string;
   estimated_cost?: string;
   key_topics: string[];
+  policy_name?: string;
+  policy_duration?: string;
+  claim_amount?: string;
+  approved_amount?: string;
+  claim_cause?: string;
+  reason_for_claim?: string;
+  reimbursement_type?: string;
+  claim_submission_date?: string;
+  settlement_date?: string;
+  normalized?: NormalizedClaimValues;
+  provenance?: Record<string, FieldProvenance>; // keyed by field name
+  conflicts?: FieldConflict[];
+}
+
+export interface HealthClaimFields {
+  hospital_name?: string;
+  disease?: string;
+  treatment_type?: string;
+  room_type?: string;
+  hospital_stay_duration?: string;
+  admission_date?: string;
+  discharge_date?: string;
+}
+
+export interface MotorClaimFields {
+  vehicle_type?: string;
+  part_damaged?: string;
+  garage_name?: string;
+  repair_estimate?: string;
+}
+
+export interface TravelClaimFields {
+  trip_destination?: string;
+  travel_claim_type?: string;
+  airline_hotel_name?: string;
+  trip_start_date?: string;
+  trip_end_date?: string;
+}
+
+export interface PropertyClaimFields {
+  property_damage_type?: string;
+  estimated_loss_value?: string;
+  assessment_report_summary?: string;
+}
+
+export interface HealthClaimExtraction extends ClaimExtractionBase, HealthClaimFields {
+  claim_domain: 'health';
+}
+
+export interface MotorClaimExtraction extends ClaimExtractionBase, MotorClaimFields {
+  claim_domain: 'motor';
+}
+
+export interface TravelClaimExtraction extends ClaimExtractionBase, TravelClaimFields {
+  claim_domain: 'travel';
+}
+
+export interface PropertyClaimExtraction extends ClaimExtractionBase, PropertyClaimFields {
+  claim_domain: 'property';
+}
+
+export interface GeneralClaimExtraction extends ClaimExtractionBase {
+  claim_domain: 'general';
+}
+
+export type ClaimExtraction =
+  | HealthClaimExtraction
+  | MotorClaimExtraction
+  | TravelClaimExtraction
+  | PropertyClaimExtraction
+  | GeneralClaimExtraction;
+
+export type ChecklistStatus = 'present' | 'missing' | 'ambiguous';
+
+/**
+ * One fact or supporting document a claim needs before it can be ruled on.
+ * Fact items name the extraction fields that satisfy them (any one is enough).
+ */
+export interface ChecklistItem {
+  id: string;
+  kind: 'fact' | 'document';
+  label: string;
+  fields?: string[];
+  evidence_type?: EvidenceType;
+  required: boolean;
+  status: ChecklistStatus;
+  note?: string;
+  policy_reference?: string;
+}
+
+export interface ClaimChecklist {
+  policy_name?: string;
+  source: 'policy' | 'default'; // 'policy' when requirements were read from the knowledge base
+  items: ChecklistItem[];
+  is_complete: boolean; // no required item is missing
+}
+
+/**
+ * A covered incident or exclusion; it applies when any keyword appears in the claim.
+ */
+export interface PolicyRuleTerm {
+  label: string;
+  keywords: string[];
+}
+
+/**
+ * Explicit, editable rules for one policy, compiled from a knowledge base document.
+ */
+export interface PolicyRuleSet {
+  id: string;
+  document_id?: string;
+  policy_name: string;
+  policy_number?: string;
+  domain: ClaimDomain;
+  covered_incidents: PolicyRuleTerm[];
+  exclusions: PolicyRuleTerm[];
+  deductible?: { value: number; currency: CurrencyCode | null };
+  waiting_period_days?: number;
+  max_trip_days?: number;
+  effective_from?: string; // ISO yyyy-mm-dd, when the policy wording is in force
+  effective_to?: string;
+  notification_window_days?: number; // claim must be filed within this many days of the incident
+}
+
+export type RuleOutcome = 'pass' | 'fail' | 'unknown';
+
+export interface RuleCheck {
+  rule: 'policy_match' | 'covered_incident' | 'exclusion' | 'deductible' | 'waiting_period' | 'max_trip_length';
+  outcome: RuleOutcome;
+  detail: string;
+}
+
+export interface RuleEngineResult {
+  verdict: 'eligible' | 'ineligible' | 'undetermined';
+  rule_set_id?: string;
+  policy_name?: string;
+  checks: RuleCheck[];
+}
+
+export type TimelineEventKind = 'policy_start' | 'policy_end' | 'incident' | 'admission' | 'discharge' | 'trip_start' | 'trip_end' | 'filing' | 'settlement';
+
+export interface TimelineEvent {
+  kind: TimelineEventKind;
+  label: string;
+  date: NormalizedDate;
+  source: string; // extraction field or range the date came from, or 'policy_rules'
+}
+
+export interface TimelineFinding {
+  severity: 'violation' | 'warning';
+  message: string;
+  events: TimelineEventKind[];
+  policy_reference?: string;
+}
+
+/**
+ * Dated events of a claim in chronological order, with the checks run over them.
+ */
+export interface ClaimTimeline {
+  events: TimelineEvent[];
+  findings: TimelineFinding[];
+}
+
+export type CitationStatus = 'verified' | 'partial' | 'unverified' | 'unchecked';
+
+/**
+ * A policy clause quoted by the model, and whether it was found in the knowledge base.
+ * 'unchecked' means the document has no extracted text to compare against.
+ */
+export interface PolicyCitation {
+  document_id: string;
+  document_name?: string;
+  quote: string;
+  purpose?: 'coverage' | 'exclusion' | 'limit' | 'condition';
+  status: CitationStatus;
+  match_score?: number; // share of the quote's words found together in the document, 0-1
+  matched_text?: string;
+  page?: number;
+}
+
+export type FraudSignalKind = 'inconsistent_dates' | 'unusual_amount' | 'early_claim' | 'revised_estimate' | 'document_tampering' | 'recurring_provider';
+
+export interface FraudSignal {
+  kind: FraudSignalKind;
+  severity: 'low' | 'medium' | 'high';
+  explanation: string;
+}
+
+/**
+ * Indicators that a claim should be investigated. Never used to decide eligibility.
+ */
+export interface FraudAssessment {
+  risk_score: number; // 0-100
+  level: 'low' | 'medium' | 'high';
+  signals: FraudSignal[];
+}
+
+export type PayoutLineKind = 'non_payable' | 'sub_limit' | 'co_pay' | 'deductible';
+
+/**
+ * One adjustment between the claimed and the payable amount.
+ * `deduction` is computed locally from `amount` / `percent`; the model only reads the policy.
+ */
+export interface PayoutLine {
+  kind: PayoutLineKind;
+  label: string;
+  amount?: number; // non_payable / deductible: amount removed; sub_limit: the cap
+  percent?: number; // co_pay share borne by the claimant
+  deduction: number;
+  clause?: string; // policy wording or section the line is based on
+}
+
+export interface PayoutBreakdown {
+  currency: CurrencyCode | null;
+  claimed_amount: number;
+  claimed_clause?: string;
+  lines: PayoutLine[];
+  payable_amount: number;
+}
+
+/**
+ * The model's verdict for one candidate policy.
+ */
+export interface PolicyVerdict {
+  policy_name: string;
+  document_id?: string;
+  verdict: 'covered' | 'excluded' | 'not_applicable';
+  reason: string;
+  score: number; // 0-1, how well the policy fits the claim
+  named_by_claimant?: boolean;
+  selected?: boolean; // the policy the overall result is based on
+}
+
+export interface ConsistencySample {
+  is_eligible: boolean;
+  policy_matched?: string;
+  confidence_score: number; // the model's own score for this run
+  reasoning: string;
+  temperature: number;
+}
+
+/**
+ * Outcome of running verification several times and comparing the answers.
+ */
+export interface ConsistencyReport {
+  samples: ConsistencySample[];
+  agreement: number; // share of runs giving the chosen verdict and policy
+  eligible_votes: number;
+  calibrated: boolean; // false until enough labeled past decisions exist
+  calibration_size: number;
 }
 
 export interface VerificationResult {
@@ -14,6 +346,17 @@ export interface VerificationResult {
   reasoning: string;
   suggested_policy?: string;
   confidence_score: number;
+  evidence_warnings?: string[]; // set when verification ran on an incomplete checklist
+  rule_result?: RuleEngineResult; // deterministic verdict computed next to the model's
+  verdict_agreement?: 'agree' | 'disagree' | 'inconclusive';
+  payout?: PayoutBreakdown; // only when eligible and the claimed amount is known
+  timeline?: ClaimTimeline;
+  citations?: PolicyCitation[];
+  original_confidence_score?: number; // model's own score before unverifiable citations lowered it
+  policy_verdicts?: PolicyVerdict[]; // ranked, best first
+  consistency?: ConsistencyReport; // set in self-consistency mode; confidence_score is then agreement-based
+  knowledge_context?: KnowledgeContext; // Knowledge Base sections the decision was based on
+  policy_versions?: PolicyVersionSelection[]; // policy wordings chosen for the incident date
 }
 
 export interface ChatMessage {
@@ -21,6 +364,29 @@ export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
   timestamp: Date;
+  context?: KnowledgeContext; // Knowledge Base sections the answer was based on
+}
+
+// A section of a Knowledge Base document, the unit of retrieval
+export interface KnowledgeChunk {
+  id: string;
+  document_id: string;
+  document_name: string;
+  page?: number; // 1-based, PDFs only
+  section?: string; // nearest heading
+  text: string;
+}
+
+export interface RetrievedChunk extends KnowledgeChunk {
+  score: number; // cosine similarity to the query
+}
+
+// Which parts of the Knowledge Base a model call was given
+export interface KnowledgeContext {
+  mode: 'full' | 'retrieved';
+  chunks: RetrievedChunk[]; // empty in full mode
+  whole_documents: string[]; // names of documents sent in full (all of them in full mode, unindexable ones otherwise)
+  cached?: boolean; // the documents sent in full came from a context cache
 }
 
 export interface PolicyDocument {
@@ -29,12 +395,141 @@ export interface PolicyDocument {
   type: 'text' | 'file';
   content: string; // Base64 for file, text for text
   mimeType: string;
+  pages?: string[]; // extracted text per page for files, used to check cited clauses
+  added_at?: string; // ISO timestamp
+  size?: number; // bytes
+  tags?: string[];
+  product?: string; // versions of the same policy share a product name
+  version?: string;
+  effective_from?: string; // ISO yyyy-mm-dd, the wording applies to incidents from this date
+  effective_to?: string; // ISO yyyy-mm-dd, inclusive
+  summaries?: PolicySummary[]; // one per policy described in the document
+  summary_status?: 'pending' | 'ready' | 'failed';
+}
+
+// Structured overview of one policy, shown as a card and sent to the model as a compact index
+export interface PolicySummary {
+  policy_name: string;
+  policy_number?: string;
+  line_of_business: ClaimDomain;
+  covered_incidents: string[];
+  exclusions: string[];
+  deductibles: string[];
+  limits: string[]; // sub-limits, caps, maximum durations
+  territory?: string;
+}
+
+// The version of a policy product a claim was judged against
+export interface PolicyVersionSelection {
+  product: string;
+  document_id?: string; // missing when no version was in force
+  document_name?: string;
+  version?: string;
+  version_count: number;
+  reason: string;
 }
 
 export enum ProcessingStatus {
   IDLE = 'IDLE',
   EXTRACTING = 'EXTRACTING',
+  CHECKING = 'CHECKING',
+  NEEDS_INFO = 'NEEDS_INFO',
   VERIFYING = 'VERIFYING',
   COMPLETED = 'COMPLETED',
+  IN_REVIEW = 'IN_REVIEW', // verified, waiting for an adjudicator in the review queue
   ERROR = 'ERROR'
-}
\ No newline at end of file
+}
+export type ReviewStatus = 'pending_review' | 'approved' | 'denied' | 'more_info_requested' | 'escalated';
+
+export interface ReviewEvent {
+  at: string; // ISO timestamp
+  actor: string; // reviewer name, or 'ClaimGuard AI' for automatic routing
+  action: 'routed' | 'status_change' | 'override' | 'field_edit' | 'sign_off';
+  status: ReviewStatus;
+  note?: string;
+}
+
+/**
+ * A reviewer's decision replacing the AI verdict. The reason is mandatory.
+ */
+export interface VerdictOverride {
+  ai_eligible: boolean;
+  final_eligible: boolean;
+  reason: string;
+  reviewer: string;
+  at: string;
+}
+
+/**
+ * A processed claim as it moves through the adjudication workflow.
+ */
+export interface ClaimRecord {
+  id: string;
+  created_at: string;
+  claim_text: string;
+  extraction: ClaimExtraction;
+  verification: VerificationResult;
+  fraud?: FraudAssessment;
+  model_settings?: ModelSettingsUsed; // cloud claims only
+  status: ReviewStatus;
+  routing_reasons: string[]; // why the claim needs a human, empty when decided automatically
+  stale_verdict?: boolean; // fields were edited after verification; verdict and payout used the old values
+  override?: VerdictOverride;
+  signed_off_by?: string;
+  signed_off_at?: string;
+  history: ReviewEvent[];
+}
+
+/**
+ * When a claim must go to the review queue instead of being decided automatically.
+ */
+export interface ReviewThresholds {
+  min_confidence: number; // 0-1
+  high_value: Partial<Record<CurrencyCode, number>>;
+  fraud_level: 'medium' | 'high'; // route at or above this fraud risk level
+}
+
+export type LlmProviderId = 'gemini' | 'openai';
+
+/**
+ * Which model backend the cloud features use. The OpenAI-compatible backend talks to
+ * any server with /chat/completions (llama.cpp, Ollama, vLLM), so claims can stay on-premises.
+ */
+export interface LlmProviderSettings {
+  provider: LlmProviderId;
+  openai: {
+    base_url: string; // e.g. http://localhost:11434/v1
+    api_key: string; // optional for most self-hosted servers
+    model: string;
+    embedding_model: string; // empty: no retrieval, the Knowledge Base is sent whole
+    supports_images: boolean;
+    supports_json_schema: boolean; // structured output via response_format
+    context_tokens: number;
+  };
+}
+
+export type ModelTask = 'extraction' | 'verification' | 'chat';
+
+/**
+ * Model and sampling for one kind of call. An empty model uses the provider's own,
+ * and null parameters leave the provider's default in place.
+ */
+export interface ModelProfile {
+  model: string;
+  temperature: number | null;
+  max_output_tokens: number | null;
+  thinking_budget: number | null; // Gemini only; 0 turns thinking off, -1 lets the model decide
+}
+
+export type ModelSettings = Record<ModelTask, ModelProfile>;
+
+/**
+ * What produced a stored claim result, with the model names resolved, so results
+ * from different models can be compared later.
+ */
+export interface ModelSettingsUsed {
+  provider: string;
+  extraction: ModelProfile;
+  verification: ModelProfile;
+  self_consistency: boolean;
+}